@@ -1,155 +1,733 @@
-import React, { useState, useEffect, useRef, useCallback } from 'react';
-import { GameMode, ArithmeticProblem, NumberPickerProblem, Results, LandmarkList, NumberType, MathPuzzleProblem, RightBoxLevel, DraggableNumber } from './types';
-import { generateArithmeticProblem, generateNumberPickerProblem, generateMathPuzzleProblem, generateRightBoxLevel, getVectorAngle, getAngleDifference, classifyAngle } from './utils/mathHelpers';
-import { countFingers, isPinching, getIndexFingerTipCoordinates } from './utils/handGestureUtils';
-
-const GameContainer: React.FC<{ children: React.ReactNode, title: string, onBack: () => void }> = ({ children, title, onBack }) => (
-    <div className="min-h-screen w-full flex flex-col items-center justify-center bg-gray-900 p-4 relative">
-        <button
-            onClick={onBack}
-            className="absolute top-4 left-4 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-full transition-transform transform hover:scale-105 shadow-lg shadow-blue-500/50 z-50">
-            &larr; Menu
-        </button>
-        <h1 className="font-orbitron text-4xl md:text-5xl font-bold mb-4 text-glow relative z-10">{title}</h1>
-        {children}
-    </div>
-);
+import React, { useState, useEffect, useRef, useCallback, useContext, useMemo, createContext } from 'react';
+import { GameMode, AngleClass, AngleTarget, Point, ShapeTarget, TriangleAngleClass, TriangleSideClass, Locale, AttemptRecord, StudentProfile, DifficultyProfile, LessonPack, LessonSection, ArithmeticOperation, ArithmeticProblem, NumberPickerProblem, Results, HandInputSource, InputSourceKind, SmoothingLevel, Calibration, HandRecording, FingerName, LandmarkList, MathPuzzleProblem, RightBoxBin, RightBoxLevel, DraggableNumber } from './types';
+import { ARITHMETIC_ANSWER_MAX, generateArithmeticProblem, generateNumberPickerProblem, generateMathPuzzleProblem, generateRightBoxLevel, getVectorAngle, getAngleDifference, classifyAngle, generateAngleTarget, getAngleAccuracy, getAngleTargetClass, orderPolygonVertices, getPolygonSides, getPolygonInteriorAngles, getPolygonPerimeter, getPolygonArea, classifyTriangle, classifyQuadrilateral, generateShapeTarget, shapeMatchesTarget, formatSortItem, formatBinRule, getMatchingBins, getBinAt } from './utils/mathHelpers';
+import { DEFAULT_PLAY_AREA, PlayArea, advanceNumbers, createPhysicsClock, createThrowTracker, scatterPoints } from './utils/rightBoxPhysics';
+import { countFingers, getFingerStates, isPinching, getIndexFingerTipCoordinates, getPinchRatio } from './utils/handGestureUtils';
+import { createPinchTracker } from './utils/gestureEngine';
+import { getWorkedSteps, WorkedStep } from './utils/expression';
+import { getMisconception } from './utils/misconceptions';
+import { AnswerEntryMethod, PendingEntry, canShowAsTensAndUnits, createDigitEntry, createTensAndUnitsEntry, readHands, readPointerHands } from './utils/answerEntry';
+import { createGestureCommandRecognizer, GestureCommand, PendingGesture } from './utils/gestureCommands';
+import { createTargetRegistry, gridLayout, TargetRect, TargetRegistry } from './utils/targetRegistry';
+import { assignPlayerHands, PlayerId, PLAYER_IDS, PLAYER_STYLES } from './utils/players';
+import { createCameraSource, createPointerSource, createDemoSource, createReplaySource } from './utils/inputSources';
+import { createHandRecorder, parseHandRecording, downloadHandRecording, HAND_RECORDING_EXTENSION } from './utils/handRecording';
+import { drawHandResults } from './utils/handDrawing';
+import { createLandmarkSmoother, SMOOTHING_PRESETS } from './utils/landmarkFilter';
+import { createSeededRng, dailySeed, pickOne, Rng } from './utils/random';
+import { parseLessonPack, loadLessonPackFromUrl, lessonSectionLength, LessonGameMode } from './utils/lessonPack';
+import { DEFAULT_DIFFICULTY, DIFFICULTY_LEVELS, createAdaptiveDifficulty, getDifficultyProfile } from './utils/difficulty';
+import { DEFAULT_CALIBRATION, mapToPlayArea, getPinchThresholds, reachFromSamples, pinchThresholdsFromSamples, loadCalibrations, saveCalibration, deleteCalibration, CalibrationStorageError } from './utils/calibration';
+import { loadStudents, createStudent, deleteStudent, recordStudentAttempt, recordStudentScore, StudentStorageError, getSkillMastery, SKILLS, skillForNumberType, skillForOperation, skillForArithmeticOperation, skillForAngleClass, skillForShapeTarget, skillForBin } from './utils/studentProfiles';
+import { serializeProgress, parseProgressFile, mergeStudents, buildClassGrid, PROGRESS_FILE_EXTENSION } from './utils/classProgress';
+import { attemptsToCsv, buildHtmlReport, downloadTextFile, openHtmlReport, reportFileStem } from './utils/reports';
+import { LOCALES, MessageKey, MessageParams, translate, interpolate, isMessageKey, localizeDigits, loadLocale, saveLocale } from './utils/i18n';
+
+// Chosen on the student picker or the menu; every screen reads its text through useTranslation
+const LocaleContext = createContext<{ locale: Locale, setLocale: (locale: Locale) => void }>({
+    locale: 'en',
+    setLocale: () => {},
+});
+
+/**
+ * `t` for plain messages, `tx` when a placeholder needs its own markup, `tOr` for keys built at
+ * runtime (with a fallback for ones the catalogs lack) and `num` for numbers shown on screen.
+ */
+const useTranslation = () => {
+    const { locale } = useContext(LocaleContext);
+    return useMemo(() => ({
+        locale,
+        t: (key: MessageKey, params?: MessageParams) => translate(locale, key, params),
+        tx: (key: MessageKey, nodes: Record<string, React.ReactNode>) =>
+            interpolate(translate(locale, key), nodes).map((part, i) => <React.Fragment key={i}>{part}</React.Fragment>),
+        tOr: (key: string, fallback: string) => isMessageKey(key) ? translate(locale, key) : fallback,
+        num: (value: number | string) => localizeDigits(value, locale),
+    }), [locale]);
+};
+
+const LanguageSwitcher = () => {
+    const { locale, setLocale } = useContext(LocaleContext);
+    const { t } = useTranslation();
+    return (
+        <div className="absolute top-4 right-4 z-50 flex items-center gap-1 bg-black bg-opacity-50 rounded-full p-1" title={t('language.label')}>
+            {LOCALES.map(option => (
+                <button
+                    key={option.code}
+                    lang={option.code}
+                    onClick={() => setLocale(option.code)}
+                    className={`text-xs font-bold py-1 px-3 rounded-full transition-colors ${locale === option.code ? 'bg-white text-gray-900' : 'text-gray-300 hover:text-white'}`}>
+                    {option.name}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+// Builds the hand input source for each CameraView (defaults to the live webcam) and receives finished recordings.
+const HandInputContext = createContext<{
+    inputKind: InputSourceKind,
+    selectInput: (kind: InputSourceKind) => void,
+    smoothing: SmoothingLevel,
+    calibration: Calibration,
+    // Dwell time that selects a hovered target; 0 means pinch only
+    dwellMs: number,
+    createSource: (video: HTMLVideoElement) => HandInputSource,
+    onRecordingComplete: (recording: HandRecording) => void,
+}>({
+    inputKind: 'camera',
+    selectInput: () => {},
+    smoothing: 'low',
+    calibration: DEFAULT_CALIBRATION,
+    dwellMs: 0,
+    createSource: createCameraSource,
+    onRecordingComplete: () => {},
+});
+
+// Starting level chosen on the menu, and whether games may move away from it
+const DifficultyContext = createContext<{ startLevel: number, adaptive: boolean }>({
+    startLevel: DEFAULT_DIFFICULTY.level,
+    adaptive: true,
+});
+
+/**
+ * Per-game difficulty: starts at the menu level and, when adaptive, follows recent accuracy and
+ * response time. Response time runs from the last `markShown()` to each recorded attempt.
+ */
+const useAdaptiveDifficulty = () => {
+    const { startLevel, adaptive } = useContext(DifficultyContext);
+    const controller = useMemo(() => createAdaptiveDifficulty({ startLevel, adaptive }), [startLevel, adaptive]);
+    const [level, setLevel] = useState(controller.level);
+    const shownAtRef = useRef(performance.now());
+
+    // Read at generation time so a callback scheduled before a level change still gets the new level
+    const currentProfile = useCallback(() => controller.profile, [controller]);
+
+    const markShown = useCallback(() => {
+        shownAtRef.current = performance.now();
+    }, []);
+
+    // Leaves time out of the response time, such as time spent paused
+    const discountTime = useCallback((ms: number) => {
+        shownAtRef.current += ms;
+    }, []);
+
+    // Returns the response time it measured
+    const recordAttempt = useCallback((correct: boolean) => {
+        const responseMs = performance.now() - shownAtRef.current;
+        setLevel(controller.record({ correct, responseMs }));
+        return responseMs;
+    }, [controller]);
+
+    return { level, adaptive, currentProfile, markShown, discountTime, recordAttempt };
+};
+
+/**
+ * For games that time their rounds themselves: a GameContainer `onPauseChange` handler that, on
+ * resuming, passes `onResume` how long the game was paused, so the clocks can leave that time out.
+ */
+const usePauseTimer = (onResume: (pausedMs: number) => void) => {
+    const pausedAtRef = useRef<number | null>(null);
+    const onResumeRef = useRef(onResume);
+    onResumeRef.current = onResume;
+
+    return useCallback((paused: boolean) => {
+        const now = performance.now();
+        if (paused) {
+            pausedAtRef.current ??= now;
+        } else if (pausedAtRef.current !== null) {
+            onResumeRef.current(now - pausedAtRef.current);
+            pausedAtRef.current = null;
+        }
+    }, []);
+};
+
+// Set while the Daily Challenge is on: games seed their problems from it so every student gets the same ones
+const ChallengeContext = createContext<{ seed: string } | null>(null);
+
+/**
+ * Problem randomness for one game. In a challenge each round gets its own generator seeded from
+ * the day, the game and the round number, so round n matches for everyone however earlier rounds went.
+ */
+const useProblemRng = (game: GameMode) => {
+    const challenge = useContext(ChallengeContext);
+    const roundRef = useRef(0);
+
+    const rngForRound = useCallback((round: number): Rng => (
+        challenge ? createSeededRng(`${challenge.seed}:${game}:${round}`) : Math.random
+    ), [challenge, game]);
+
+    const first = useCallback(() => rngForRound(0), [rngForRound]);
+    const next = useCallback(() => rngForRound(++roundRef.current), [rngForRound]);
+
+    return { first, next };
+};
+
+// Saves attempts and best scores into the active student's profile; does nothing for guests
+const StudentContext = createContext<{
+    logAttempt: (attempt: AttemptRecord) => void,
+    logScore: (game: GameMode, score: number) => void,
+}>({
+    logAttempt: () => {},
+    logScore: () => {},
+});
+
+// Keeps the student's best score for a game up to date as the score grows
+const useSaveBestScore = (game: GameMode, score: number) => {
+    const { logScore } = useContext(StudentContext);
+    useEffect(() => {
+        if (score > 0) logScore(game, score);
+    }, [game, score, logScore]);
+};
+
+type AttemptDetails = Pick<AttemptRecord, 'correct' | 'skill' | 'problem' | 'answer' | 'misconception'>;
+
+// The loaded lesson pack; games it covers play its problems in order instead of random ones
+const LessonContext = createContext<LessonPack | null>(null);
+
+type LessonProgress = { title: string, index: number, total: number };
+
+/**
+ * Where a game's problems come from: this game's section of the lesson pack when one is loaded,
+ * otherwise `generate` at the adaptive difficulty. `next()` returns null once the lesson section runs out.
+ */
+const useProblemSource = <P,>(game: LessonGameMode, generate: (profile: DifficultyProfile, rng: Rng) => P) => {
+    const difficulty = useAdaptiveDifficulty();
+    const problemRng = useProblemRng(game);
+    const lessonPack = useContext(LessonContext);
+    const { logAttempt } = useContext(StudentContext);
+    const section = lessonPack?.games[game] as LessonSection<P> | undefined;
+    const [round, setRound] = useState(0);
+    const roundRef = useRef(0);
+    // This round's generator, left where the problem finished with it for anything else the round places
+    const roundRngRef = useRef<Rng | null>(null);
+
+    const problemAt = (index: number, rng: Rng): P | null => {
+        if (!section) return generate(difficulty.currentProfile(), rng);
+        if (index >= lessonSectionLength(section)) return null;
+        return section.kind === 'problems' ? section.problems[index] : generate(section.profile, rng);
+    };
+    const problemAtRef = useRef(problemAt);
+    problemAtRef.current = problemAt;
+
+    // Lesson sections are never empty, so there is always a first problem
+    const first = () => {
+        roundRngRef.current = problemRng.first();
+        return problemAt(0, roundRngRef.current) as P;
+    };
+
+    const next = useCallback(() => {
+        const index = ++roundRef.current;
+        setRound(index);
+        roundRngRef.current = problemRng.next();
+        return problemAtRef.current(index, roundRngRef.current);
+    }, [problemRng.next]);
+
+    // Seeded in a Daily Challenge, so what a round places later follows the day's seed as well
+    const roundRng = useCallback((): Rng => roundRngRef.current ?? Math.random, []);
+
+    // Feeds adaptive difficulty and the student's history
+    const recordAttempt = useCallback((attempt: AttemptDetails) => {
+        const timeMs = difficulty.recordAttempt(attempt.correct);
+        logAttempt({ game, ...attempt, timeMs: Math.round(timeMs), at: new Date().toISOString() });
+    }, [difficulty.recordAttempt, logAttempt, game]);
+
+    const lesson: LessonProgress | null = section && lessonPack
+        ? { title: lessonPack.title, index: round, total: lessonSectionLength(section) }
+        : null;
+
+    return { difficulty, first, next, roundRng, recordAttempt, lesson };
+};
+
+const LessonProgressBar = ({ lesson }: { lesson: LessonProgress }) => {
+    const { num } = useTranslation();
+    return (
+        <div className="-mt-2 mb-3 w-full max-w-md relative z-10">
+            <div className="flex justify-between text-sm font-bold text-indigo-200">
+                <span>📘 {lesson.title}</span>
+                <span>{num(Math.min(lesson.index + 1, lesson.total))} / {num(lesson.total)}</span>
+            </div>
+            <div className="mt-1 h-2 bg-gray-700 rounded-full overflow-hidden">
+                <div className="h-full bg-green-400 transition-all duration-300" style={{ width: `${(lesson.index / lesson.total) * 100}%` }}></div>
+            </div>
+        </div>
+    );
+};
+
+const DifficultyBadge = ({ level, adaptive }: { level: number, adaptive: boolean }) => {
+    const challenge = useContext(ChallengeContext);
+    const { t, tOr, num } = useTranslation();
+    const label = tOr(`difficulty.level${level}`, getDifficultyProfile(level).label);
+    return (
+        <p className="-mt-2 mb-3 text-sm font-bold text-indigo-200 relative z-10">
+            {challenge && <span className="text-yellow-300">{t('challenge.badge', { date: num(challenge.seed) })} · </span>}
+            {t(adaptive ? 'difficulty.badgeAdaptive' : 'difficulty.badge', { level, label })}
+        </p>
+    );
+};
+
+// Lets each game switch between the webcam and the mouse/touch/keyboard fallback
+const InputModeSwitch = () => {
+    const { inputKind, selectInput } = useContext(HandInputContext);
+    const { t } = useTranslation();
+    const modes: InputSourceKind[] = ['camera', 'pointer'];
+    if (inputKind === 'demo' || inputKind === 'replay') modes.push(inputKind);
+
+    return (
+        <div className="absolute top-4 right-4 z-50 flex items-center gap-1 bg-black bg-opacity-50 rounded-full p-1">
+            {modes.map(kind => (
+                <button
+                    key={kind}
+                    onClick={() => selectInput(kind)}
+                    className={`text-xs font-bold py-1 px-3 rounded-full transition-colors ${inputKind === kind ? 'bg-white text-gray-900' : 'text-gray-300 hover:text-white'}`}>
+                    {t(`input.${kind}`)}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+// Gesture commands, plus leaving for the menu from a dwell target
+type ScreenCommand = GestureCommand | 'menu';
+
+// Receives global commands from the CameraView inside a screen, and tells it when the screen is paused.
+// Screens whose gestures are answers set `gestures` off; their CameraView offers Menu and Skip dwell targets instead.
+const GestureCommandContext = createContext<{ paused: boolean, gestures: boolean, canSkip: boolean, onCommand: (command: ScreenCommand) => void } | null>(null);
+
+const GameContainer: React.FC<{
+    children: React.ReactNode,
+    title: string,
+    onBack: () => void,
+    onSkip?: () => void,
+    gestureCommands?: boolean,
+    // Off for tool screens, which have nothing to pause
+    pausable?: boolean,
+    difficulty?: { level: number, adaptive: boolean },
+    lesson?: LessonProgress | null,
+    // For games with their own clocks, which should stop while the game is paused
+    onPauseChange?: (paused: boolean) => void,
+}> = ({ children, title, onBack, onSkip, gestureCommands = true, pausable = true, difficulty, lesson, onPauseChange }) => {
+    const [paused, setPaused] = useState(false);
+    const { t, num } = useTranslation();
+    const lessonComplete = !!lesson && lesson.index >= lesson.total;
+
+    const onCommand = useCallback((command: ScreenCommand) => {
+        if (command === 'menu') {
+            onBack();
+        } else if (command === 'pause') {
+            // A second open-palm hold while paused leaves the game
+            if (paused) onBack();
+            else setPaused(true);
+        } else if (command === 'confirm' && paused) {
+            setPaused(false);
+        } else if (command === 'skip' && !paused) {
+            onSkip?.();
+        }
+    }, [paused, onBack, onSkip]);
+
+    // A finished lesson stops the game like a pause does
+    const commands = useMemo(() => ({ paused: paused || lessonComplete, gestures: gestureCommands, canSkip: !!onSkip, onCommand }), [paused, lessonComplete, gestureCommands, onSkip, onCommand]);
+
+    useEffect(() => {
+        onPauseChange?.(commands.paused);
+    }, [commands.paused]);
 
-const CameraView: React.FC<{ onResults: (results: Results) => void, children?: React.ReactNode }> = ({ onResults, children }) => {
+    return (
+        <GestureCommandContext.Provider value={gestureCommands || pausable ? commands : null}>
+            <div className="min-h-screen w-full flex flex-col items-center justify-center bg-gray-900 p-4 relative">
+                <button
+                    onClick={onBack}
+                    className="absolute top-4 left-4 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-full transition-transform transform hover:scale-105 shadow-lg shadow-blue-500/50 z-50">
+                    &larr; {t('common.menu')}
+                </button>
+                {pausable && (
+                    <button
+                        onClick={() => setPaused(true)}
+                        className="absolute top-16 left-4 bg-gray-700 hover:bg-gray-600 text-white font-bold py-1 px-4 rounded-full z-50">
+                        {t('common.pause')}
+                    </button>
+                )}
+                <InputModeSwitch />
+                <h1 className="font-orbitron text-4xl md:text-5xl font-bold mb-4 text-glow relative z-10">{title}</h1>
+                {lesson ? <LessonProgressBar lesson={lesson} /> : difficulty && <DifficultyBadge level={difficulty.level} adaptive={difficulty.adaptive} />}
+                {children}
+                {gestureCommands ? (
+                    <p className="mt-3 text-sm text-gray-400">
+                        {t('gesture.pauseHint', { gesture: t('gesture.pause') })}{onSkip ? ` · ${t('gesture.skipHint', { gesture: t('gesture.skip') })}` : ''}
+                    </p>
+                ) : pausable && (
+                    <div className="mt-3 flex flex-col items-center gap-2">
+                        <p className="text-sm text-gray-400">{t(onSkip ? 'gesture.targetsHint' : 'gesture.menuTargetHint')}</p>
+                        {/* Without the fist command, skipping needs a button */}
+                        {onSkip && <button onClick={onSkip} className="bg-gray-700 hover:bg-gray-600 text-white font-bold py-1 px-4 rounded-full">{t('common.skip')}</button>}
+                    </div>
+                )}
+                {lessonComplete && (
+                    <div className="fixed inset-0 bg-black bg-opacity-80 z-[60] flex flex-col items-center justify-center gap-6 text-center">
+                        <p className="font-orbitron text-5xl font-bold text-glow text-green-400">{t('lesson.complete')}</p>
+                        <p className="text-xl text-gray-300">{t('lesson.allDone', { title: lesson.title, total: lesson.total })}</p>
+                        <button onClick={onBack} className="bg-blue-600 hover:bg-blue-700 font-bold py-2 px-6 rounded-full">{t('common.menu')}</button>
+                    </div>
+                )}
+                {paused && !lessonComplete && (
+                    <div className="fixed inset-0 bg-black bg-opacity-80 z-[60] flex flex-col items-center justify-center gap-6 text-center">
+                        <p className="font-orbitron text-5xl font-bold text-glow">{t('paused.title')}</p>
+                        {gestureCommands && <p className="text-xl text-gray-300">{t('paused.hint', { confirm: t('gesture.confirm'), pause: t('gesture.pause') })}</p>}
+                        <div className="flex gap-4">
+                            <button onClick={() => setPaused(false)} className="bg-green-600 hover:bg-green-700 font-bold py-2 px-6 rounded-full">{t('paused.resume')}</button>
+                            <button onClick={onBack} className="bg-blue-600 hover:bg-blue-700 font-bold py-2 px-6 rounded-full">{t('common.menu')}</button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </GestureCommandContext.Provider>
+    );
+};
+
+// Where the Menu and Skip dwell targets sit in the camera view; a fingertip must rest on one for a while
+type CommandTargetId = 'menu' | 'skip';
+const COMMAND_TARGETS: Record<CommandTargetId, TargetRect> = {
+    menu: { x: 0.01, y: 0.02, width: 0.14, height: 0.16 },
+    skip: { x: 0.85, y: 0.02, width: 0.14, height: 0.16 },
+};
+const COMMAND_DWELL_MS = 2000;
+
+type CommandCursor = { x: number, y: number, progress: number };
+
+/**
+ * Fingertips -> Menu and Skip selections, for screens whose gestures are answers. Every hand points
+ * with its index finger; only fingertips on a target get a cursor, so answering hands stay unmarked.
+ */
+const useCommandTargets = (calibration: Calibration) => {
+    const registry = useMemo(() => createTargetRegistry({ dwellMs: COMMAND_DWELL_MS }), []);
+    const [cursors, setCursors] = useState<CommandCursor[]>([]);
+
+    // A paused screen passes no hands, so the dwell starts over on resuming
+    const update = useCallback((hands: LandmarkList[], onSelect: (id: string) => void) => {
+        const next: CommandCursor[] = [];
+        for (let i = 0; i < 2; i++) {
+            const position = hands[i] ? mapToPlayArea(getIndexFingerTipCoordinates(hands[i]), calibration) : null;
+            const events = registry.update(position, null, performance.now(), String(i));
+            const hover = registry.getHover(String(i));
+            if (position && hover.id) next.push({ ...position, progress: hover.progress });
+            for (const event of events) {
+                if (event.type === 'select') onSelect(event.id);
+            }
+        }
+        setCursors(prev => (prev.length === 0 && next.length === 0 ? prev : next));
+    }, [registry, calibration]);
+
+    return { registry, cursors, update };
+};
+
+const CameraView: React.FC<{ onResults: (results: Results) => void, children?: React.ReactNode, compact?: boolean }> = ({ onResults, children, compact = false }) => {
     const videoRef = useRef<HTMLVideoElement>(null);
     const canvasRef = useRef<HTMLCanvasElement>(null);
     const [loading, setLoading] = useState(true);
+    const [source, setSource] = useState<HandInputSource | null>(null);
+    const [isRecording, setIsRecording] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+    const { createSource, onRecordingComplete, selectInput, smoothing, calibration } = useContext(HandInputContext);
+    const recorderRef = useRef<ReturnType<typeof createHandRecorder> | null>(null);
+    const smootherRef = useRef<ReturnType<typeof createLandmarkSmoother> | null>(null);
     const onResultsRef = useRef(onResults);
     onResultsRef.current = onResults;
+    const commands = useContext(GestureCommandContext);
+    const commandsRef = useRef(commands);
+    commandsRef.current = commands;
+    const recognizerRef = useRef(createGestureCommandRecognizer());
+    const [pendingGesture, setPendingGesture] = useState<PendingGesture | null>(null);
+    const commandTargets = useCommandTargets(calibration);
+    const commandTargetsRef = useRef(commandTargets);
+    commandTargetsRef.current = commandTargets;
+    const { t } = useTranslation();
 
     useEffect(() => {
-        const hands = new window.Hands({
-            locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
-        });
-
-        hands.setOptions({
-            maxNumHands: 2, // Detect two hands
-            modelComplexity: 1,
-            minDetectionConfidence: 0.5,
-            minTrackingConfidence: 0.5,
-        });
-
-        const handleResults = (results: Results) => {
-            if (canvasRef.current && videoRef.current) {
+        if (!videoRef.current) return;
+        const video = videoRef.current;
+        const inputSource = createSource(video);
+        setSource(inputSource);
+        setLoading(true);
+        setError(null);
+
+        const handleResults = (rawResults: Results) => {
+            // Recordings keep the raw stream; everything downstream sees the smoothed one
+            recorderRef.current?.addFrame(rawResults);
+            const results = smootherRef.current ? smootherRef.current.smooth(rawResults) : rawResults;
+
+            if (canvasRef.current) {
                 const canvasCtx = canvasRef.current.getContext('2d');
                 if (canvasCtx) {
-                    canvasRef.current.width = videoRef.current.videoWidth;
-                    canvasRef.current.height = videoRef.current.videoHeight;
-                    
-                    canvasCtx.save();
-                    canvasCtx.clearRect(0, 0, canvasRef.current.width, canvasRef.current.height);
-                    
-                    // Flip horizontally to match the mirrored video feed
-                    canvasCtx.scale(-1, 1);
-                    canvasCtx.translate(-canvasRef.current.width, 0);
-
-                    if (results.multiHandLandmarks && results.multiHandedness) {
-                        for (let i = 0; i < results.multiHandLandmarks.length; i++) {
-                            const landmarks = results.multiHandLandmarks[i];
-                            const classification = results.multiHandedness[i];
-                            const isRightHand = classification.label === 'Right';
-                            const color = isRightHand ? '#06b6d4' : '#d946ef'; // Cyan for Right, Fuchsia for Left
-                            
-                            window.drawConnectors(canvasCtx, landmarks, window.HAND_CONNECTIONS, { color, lineWidth: 5 });
-                            window.drawLandmarks(canvasCtx, landmarks, { color: '#FFFFFF', lineWidth: 2, radius: 5 });
-                        }
-                    }
-                    canvasCtx.restore();
+                    // Non-camera sources have no video frame to size against
+                    canvasRef.current.width = inputSource.kind === 'camera' ? video.videoWidth : 640;
+                    canvasRef.current.height = inputSource.kind === 'camera' ? video.videoHeight : 480;
+                    drawHandResults(canvasCtx, results);
                 }
             }
+            setLoading(false);
+
+            if (commandsRef.current?.gestures) {
+                const command = recognizerRef.current.update(results);
+                const pending = recognizerRef.current.pending;
+                setPendingGesture(prev => (prev?.command === pending?.command && Math.abs((prev?.progress ?? 0) - (pending?.progress ?? 0)) < 0.05) ? prev : pending);
+                if (command) commandsRef.current.onCommand(command);
+            } else if (commandsRef.current) {
+                const hands = commandsRef.current.paused ? [] : results.multiHandLandmarks ?? [];
+                commandTargetsRef.current.update(hands, id => {
+                    if (id === 'menu') commandsRef.current?.onCommand('menu');
+                    else if (commandsRef.current?.canSkip) commandsRef.current.onCommand('skip');
+                });
+            }
+            // A paused screen keeps tracking hands for commands but its game sees nothing
+            if (commandsRef.current?.paused) return;
             onResultsRef.current(results);
         };
 
-        hands.onResults(handleResults);
-        
-        let camera: any = null;
-        if (videoRef.current) {
-            camera = new window.Camera(videoRef.current, {
-                onFrame: async () => {
-                    if (videoRef.current) {
-                        await hands.send({ image: videoRef.current });
-                        if(loading) setLoading(false);
-                    }
-                },
-                width: 640,
-                height: 480,
-            });
-            camera.start();
-        }
+        inputSource.start(handleResults, (err) => {
+            setLoading(false);
+            setError(err.message || 'Camera unavailable');
+        });
 
         return () => {
-            camera?.stop();
-            hands.close();
+            inputSource.stop();
         };
+    }, [createSource]);
+
+    useEffect(() => {
+        smootherRef.current = smoothing === 'off' ? null : createLandmarkSmoother(SMOOTHING_PRESETS[smoothing]);
+    }, [smoothing]);
+
+    const toggleRecording = () => {
+        if (recorderRef.current) {
+            const recording = recorderRef.current.finish(source?.label);
+            recorderRef.current = null;
+            setIsRecording(false);
+            if (recording.frames.length > 0) onRecordingComplete(recording);
+        } else {
+            recorderRef.current = createHandRecorder();
+            setIsRecording(true);
+        }
+    };
+
+    // Hand a recording in progress over when the game unmounts
+    useEffect(() => () => {
+        if (recorderRef.current) {
+            const recording = recorderRef.current.finish();
+            recorderRef.current = null;
+            if (recording.frames.length > 0) onRecordingComplete(recording);
+        }
         // eslint-disable-next-line react-hooks/exhaustive-deps
     }, []);
     
     return (
-        <div className="relative w-full max-w-5xl mx-auto aspect-video rounded-2xl overflow-hidden shadow-2xl shadow-indigo-500/40">
+        <div className={`relative w-full max-w-5xl mx-auto aspect-video rounded-2xl overflow-hidden shadow-2xl shadow-indigo-500/40 ${source?.kind === 'pointer' ? 'touch-none' : ''}`}>
+            {error && (
+                <div className="absolute inset-0 bg-black bg-opacity-80 flex flex-col items-center justify-center gap-4 z-40 text-center p-4">
+                    <p className="text-xl font-orbitron text-red-400">{t('camera.unavailable')}</p>
+                    <p className="text-gray-300">{error}</p>
+                    <button
+                        onClick={() => selectInput('pointer')}
+                        className="bg-cyan-600 hover:bg-cyan-700 font-bold py-2 px-6 rounded-full">
+                        {t('camera.usePointer')}
+                    </button>
+                </div>
+            )}
             {loading && (
                 <div className="absolute inset-0 bg-black bg-opacity-70 flex items-center justify-center z-20">
-                    <p className="text-xl font-orbitron animate-pulse">Initializing Camera...</p>
+                    <p className="text-xl font-orbitron animate-pulse">
+                        {source && source.kind !== 'camera' ? t('camera.starting', { source: t(`input.${source.kind}`) }) : t('camera.initializing')}
+                    </p>
                 </div>
             )}
-            <video ref={videoRef} className="absolute inset-0 w-full h-full object-cover transform scaleX(-1)" playsInline></video>
+            <video ref={videoRef} className={`absolute inset-0 w-full h-full object-cover transform scaleX(-1) ${source && source.kind !== 'camera' ? 'invisible' : ''}`} playsInline></video>
             <canvas ref={canvasRef} className="absolute inset-0 w-full h-full z-10"></canvas>
+            {source && source.kind !== 'camera' && (
+                <div className="absolute bottom-2 right-2 z-30 bg-black bg-opacity-60 text-xs font-orbitron uppercase tracking-wider px-3 py-1 rounded-full text-yellow-300 pointer-events-none">
+                    {t(`input.${source.kind}`)}
+                </div>
+            )}
+            {source?.kind === 'pointer' && !compact && (
+                <div className="absolute bottom-2 left-1/2 -translate-x-1/2 z-30 bg-black bg-opacity-60 text-xs px-3 py-1 rounded-full text-gray-300 pointer-events-none">
+                    {t('camera.pointerHelp')}
+                </div>
+            )}
             <div className="absolute inset-0 z-20">{children}</div>
+            {commands && !commands.gestures && (
+                <div className="absolute inset-0 z-30 pointer-events-none">
+                    {(['menu', 'skip'] as CommandTargetId[]).filter(id => id === 'menu' || commands.canSkip).map(id => (
+                        <SelectableTarget key={id} registry={commandTargets.registry} id={id} rect={COMMAND_TARGETS[id]}>
+                            <span className="w-full h-full flex items-center justify-center rounded-xl border-2 border-dashed border-white border-opacity-60 bg-black bg-opacity-40 font-bold">
+                                {t(`common.${id}`)}
+                            </span>
+                        </SelectableTarget>
+                    ))}
+                    {commandTargets.cursors.map((cursor, i) => (
+                        <DwellCursor key={i} cursor={cursor} progress={cursor.progress} className="w-6 h-6 bg-yellow-300" />
+                    ))}
+                </div>
+            )}
+            {commands?.gestures && pendingGesture && (
+                <div className="absolute top-2 left-1/2 -translate-x-1/2 z-30 bg-black bg-opacity-70 rounded-full px-4 py-1 text-sm flex items-center gap-2 pointer-events-none">
+                    <span>{t(`gesture.${pendingGesture.command}`)}</span>
+                    <span className="w-16 h-1.5 bg-gray-600 rounded-full overflow-hidden">
+                        <span className="block h-full bg-white" style={{ width: `${pendingGesture.progress * 100}%` }}></span>
+                    </span>
+                </div>
+            )}
+            {!compact && <button
+                onClick={toggleRecording}
+                title={t('camera.recordTitle')}
+                className={`absolute bottom-2 left-2 z-30 text-xs font-orbitron uppercase tracking-wider px-3 py-1 rounded-full flex items-center gap-2 ${isRecording ? 'bg-red-600 text-white animate-pulse' : 'bg-black bg-opacity-60 text-gray-300 hover:text-white'}`}>
+                <span className={`w-2 h-2 rounded-full ${isRecording ? 'bg-white' : 'bg-red-500'}`}></span>
+                {isRecording ? t('camera.stop') : t('camera.record')}
+            </button>}
         </div>
     );
 };
 
 
+const ARITHMETIC_SYMBOLS: Record<ArithmeticOperation, string> = { ADD: '+', SUB: '−', MUL: '×', MISSING_ADDEND: '+' };
+
+// "7 − 3", or "3 + ? = 8" for a missing addend; `show` formats each number
+const arithmeticExpression = (problem: ArithmeticProblem, show: (n: number) => string = String) =>
+    problem.operation === 'MISSING_ADDEND'
+        ? `${show(problem.num1)} + ? = ${show(problem.num1 + problem.num2)}`
+        : `${show(problem.num1)} ${ARITHMETIC_SYMBOLS[problem.operation]} ${show(problem.num2)}`;
+
+// Answers up to this many fingers are shown all at once on both hands
+const TOTAL_FINGERS_MAX = 10;
+
 const ArithmeticGame = ({ backToMenu }: { backToMenu: () => void }) => {
-    const [problem, setProblem] = useState<ArithmeticProblem>(generateArithmeticProblem());
+    const source = useProblemSource(GameMode.ARITHMETIC, generateArithmeticProblem);
+    const { difficulty } = source;
+    const [problem, setProblem] = useState<ArithmeticProblem>(source.first);
     const [feedback, setFeedback] = useState<{ message: string; color: string } | null>(null);
     const [score, setScore] = useState(0);
     const lastDetectionTime = useRef(0);
     const detectionCooldown = 2000; // 2 seconds
+    useSaveBestScore(GameMode.ARITHMETIC, score);
+    const { t, num } = useTranslation();
+
+    // Answers above ten are entered digit by digit or as tens and units; keys only make one digit at a time
+    const pointerInput = useContext(HandInputContext).inputKind === 'pointer';
+    const [entryMethod, setEntryMethod] = useState<AnswerEntryMethod>('digits');
+    const digitEntry = useMemo(() => createDigitEntry({ maxDigits: String(ARITHMETIC_ANSWER_MAX).length }), []);
+    const placesEntry = useMemo(() => createTensAndUnitsEntry(), []);
+    const [entry, setEntry] = useState<{ digits: number[], pending: PendingEntry | null }>({ digits: [], pending: null });
+    const multiDigit = problem.answer > TOTAL_FINGERS_MAX;
+    const method: AnswerEntryMethod = entryMethod === 'places' && !pointerInput && canShowAsTensAndUnits(problem.answer) ? 'places' : 'digits';
+
+    const clearEntry = useCallback(() => {
+        digitEntry.clear();
+        placesEntry.clear();
+        setEntry({ digits: [], pending: null });
+    }, [digitEntry, placesEntry]);
 
     const newProblem = useCallback(() => {
-        setProblem(generateArithmeticProblem());
+        const next = source.next();
+        if (next) setProblem(next);
         setFeedback(null);
-    }, []);
+        clearEntry();
+        difficulty.markShown();
+    }, [source.next, difficulty.markShown, clearEntry]);
+
+    const submitAnswer = useCallback((answer: number) => {
+        source.recordAttempt({
+            correct: answer === problem.answer,
+            skill: skillForArithmeticOperation(problem.operation),
+            problem: arithmeticExpression(problem),
+            answer: String(answer),
+        });
+        lastDetectionTime.current = Date.now();
+        if (answer === problem.answer) {
+            setFeedback({ message: t('common.correct'), color: 'text-green-400' });
+            setScore(s => s + 10);
+            setTimeout(newProblem, detectionCooldown);
+        } else {
+            setFeedback({ message: t('arithmetic.notQuite', { count: answer }), color: 'text-red-400' });
+            setTimeout(() => setFeedback(null), detectionCooldown - 500);
+        }
+    }, [problem, newProblem, detectionCooldown, source.recordAttempt, t]);
 
     const onResults = useCallback((results: Results) => {
+        if (Date.now() - lastDetectionTime.current < detectionCooldown || feedback) return;
+
+        if (multiDigit) {
+            const hands = pointerInput ? readPointerHands(results) : readHands(results);
+            const active = method === 'digits' ? digitEntry : placesEntry;
+            const answer = active.update(hands);
+            setEntry({ digits: digitEntry.digits, pending: active.pending });
+            if (answer !== null) submitAnswer(answer);
+            return;
+        }
+
         if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0) {
             let totalFingers = 0;
-            for (const handLandmarks of results.multiHandLandmarks) {
-                totalFingers += countFingers(handLandmarks);
-            }
-            
-            const now = Date.now();
-            if (now - lastDetectionTime.current < detectionCooldown || feedback) return;
-
-            if (totalFingers > 0) {
-                 if (totalFingers === problem.answer) {
-                    setFeedback({ message: 'Correct!', color: 'text-green-400' });
-                    setScore(s => s + 10);
-                    lastDetectionTime.current = now;
-                    setTimeout(newProblem, detectionCooldown);
-                } else {
-                    setFeedback({ message: `Not quite! That's ${totalFingers}.`, color: 'text-red-400' });
-                    lastDetectionTime.current = now;
-                    setTimeout(() => setFeedback(null), detectionCooldown - 500);
-                }
-            }
+            results.multiHandLandmarks.forEach((handLandmarks, i) => {
+                totalFingers += countFingers(handLandmarks, results.multiHandedness?.[i]?.label);
+            });
+            if (totalFingers > 0) submitAnswer(totalFingers);
         }
-    }, [problem.answer, newProblem, feedback, detectionCooldown]);
+    }, [feedback, detectionCooldown, multiDigit, method, pointerInput, digitEntry, placesEntry, submitAnswer]);
+
+    const selectMethod = (next: AnswerEntryMethod) => {
+        setEntryMethod(next);
+        clearEntry();
+    };
 
     return (
-        <GameContainer title="Arithmetic Challenge" onBack={backToMenu}>
+        <GameContainer
+            title={t('game.ARITHMETIC')}
+            onBack={backToMenu}
+            onSkip={newProblem}
+            difficulty={difficulty}
+            lesson={source.lesson}
+            // Fists and open palms are answers here (0, 5 and 10), not skip and pause
+            gestureCommands={false}>
             <div className="w-full max-w-2xl text-center">
                  <div className="my-4 p-4 bg-black bg-opacity-50 rounded-lg">
                     <p className="text-5xl md:text-7xl font-orbitron tracking-widest text-cyan-300 text-glow">
-                        {problem.num1} + {problem.num2} = ?
+                        {arithmeticExpression(problem, n => num(n))}{problem.operation === 'MISSING_ADDEND' ? '' : ' = ?'}
                     </p>
-                    <p className="mt-2 text-2xl font-semibold">Score: {score}</p>
+                    <p className="mt-2 text-2xl font-semibold">{t('common.score', { score })}</p>
                 </div>
+                {multiDigit && (
+                    <div className="mb-4 p-3 bg-black bg-opacity-40 rounded-lg">
+                        {!pointerInput && (
+                            <div className="inline-flex gap-1 bg-black bg-opacity-40 rounded-full p-1 mb-2">
+                                {(['digits', 'places'] as AnswerEntryMethod[]).map(option => (
+                                    <button
+                                        key={option}
+                                        onClick={() => selectMethod(option)}
+                                        className={`text-xs font-bold py-1 px-3 rounded-full ${entryMethod === option ? 'bg-white text-gray-900' : 'text-gray-300 hover:text-white'}`}>
+                                        {t(`arithmetic.method.${option}`)}
+                                    </button>
+                                ))}
+                            </div>
+                        )}
+                        <p className="text-sm text-indigo-200">
+                            {pointerInput ? t('arithmetic.help.keys') : method !== entryMethod ? t('arithmetic.digitsOnly') : t(`arithmetic.help.${method}`)}
+                        </p>
+                        {method === 'digits' && (
+                            <p className="mt-2 text-3xl font-orbitron">
+                                {t('arithmetic.yourAnswer')}{' '}
+                                <span className="text-yellow-300">{entry.digits.length > 0 ? num(entry.digits.join('')) : '_'}</span>
+                                {entry.digits.length > 0 && (
+                                    <button onClick={clearEntry} className="ml-3 text-sm text-gray-300 hover:text-white underline align-middle">{t('common.clear')}</button>
+                                )}
+                            </p>
+                        )}
+                        {entry.pending && (
+                            <div className="mt-2 mx-auto w-48">
+                                <p className="text-sm font-bold text-yellow-300">
+                                    {entry.pending.kind === 'digit' ? t('arithmetic.holdDigit', { digit: entry.pending.value }) : t('arithmetic.submitting', { answer: method === 'places' ? entry.pending.value : Number(entry.digits.join('')) })}
+                                </p>
+                                <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                                    <div className="h-full bg-yellow-400" style={{ width: `${Math.min(1, entry.pending.progress) * 100}%` }} />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                )}
                  {feedback && (
                     <div className={`text-4xl font-bold font-orbitron animate-pulse ${feedback.color}`}>
                         {feedback.message}
@@ -161,88 +739,294 @@ const ArithmeticGame = ({ backToMenu }: { backToMenu: () => void }) => {
     );
 };
 
+// Who a pick cursor belongs to: the single player, or one of two competing hands
+type PickSeat = PlayerId | 'solo';
+type PickCursor = { seat: PickSeat, x: number, y: number, hoveredId: string | null, progress: number };
+
+/**
+ * Hands -> cursors -> target events for the pick games. In versus mode each hand is its own
+ * player with its own pinch tracker and cursor; `onSelect` is told which seat picked.
+ */
+const usePickInput = (versus: boolean, paused: boolean, onSelect: (targetId: string, seat: PickSeat) => void) => {
+    const { calibration, dwellMs } = useContext(HandInputContext);
+    const registry = useMemo(() => createTargetRegistry({ dwellMs }), [dwellMs]);
+    const trackers = useMemo(() => {
+        const thresholds = getPinchThresholds(calibration);
+        return { solo: createPinchTracker(thresholds), Left: createPinchTracker(thresholds), Right: createPinchTracker(thresholds) };
+    }, [calibration]);
+    const [cursors, setCursors] = useState<PickCursor[]>([]);
+    const onSelectRef = useRef(onSelect);
+    onSelectRef.current = onSelect;
+    const pausedRef = useRef(paused);
+    pausedRef.current = paused;
+
+    const onResults = useCallback((results: Results) => {
+        const hands: Partial<Record<PickSeat, LandmarkList>> = versus
+            ? assignPlayerHands(results)
+            : { solo: results.multiHandLandmarks?.[0] }; // Use the first detected hand for interaction
+        const seats: PickSeat[] = versus ? PLAYER_IDS : ['solo'];
+        const next: PickCursor[] = [];
+
+        for (const seat of seats) {
+            const hand = hands[seat];
+            const pinch = trackers[seat].update(hand);
+            const fingerTip = hand && !pausedRef.current ? getIndexFingerTipCoordinates(hand) : null;
+            // Mirrored and stretched to the player's calibrated reach
+            const position = fingerTip ? mapToPlayArea(fingerTip, calibration) : null;
+            const events = registry.update(position, pinch, performance.now(), seat);
+            if (position) {
+                const hover = registry.getHover(seat);
+                next.push({ seat, ...position, hoveredId: hover.id, progress: hover.progress });
+            }
+            for (const event of events) {
+                if (event.type === 'select') onSelectRef.current(event.id, seat);
+            }
+        }
+        setCursors(next);
+    }, [versus, trackers, registry, calibration]);
+
+    return { registry, cursors, onResults };
+};
+
+const VERSUS_LOCKOUT_MS = 2000;
+
+// Scores and wrong-pick lockouts for head-to-head rounds
+const useVersusPlayers = () => {
+    const [scores, setScores] = useState<Record<PlayerId, number>>({ Left: 0, Right: 0 });
+    const [locked, setLocked] = useState<Record<PlayerId, boolean>>({ Left: false, Right: false });
+    const lockedRef = useRef(locked);
+    lockedRef.current = locked;
+
+    const lock = useCallback((player: PlayerId) => {
+        setLocked(prev => ({ ...prev, [player]: true }));
+        setTimeout(() => setLocked(prev => ({ ...prev, [player]: false })), VERSUS_LOCKOUT_MS);
+    }, []);
+
+    const award = useCallback((player: PlayerId, points: number) => {
+        setScores(prev => ({ ...prev, [player]: prev[player] + points }));
+    }, []);
+
+    return { scores, locked, isLocked: (player: PlayerId) => lockedRef.current[player], lock, award };
+};
+
+const PlayerModeToggle = ({ versus, onChange }: { versus: boolean, onChange: (versus: boolean) => void }) => {
+    const { t } = useTranslation();
+    return (
+        <div className="inline-flex gap-1 bg-black bg-opacity-40 rounded-full p-1 mb-2">
+            {[false, true].map(option => (
+                <button
+                    key={String(option)}
+                    onClick={() => onChange(option)}
+                    className={`text-xs font-bold py-1 px-3 rounded-full ${versus === option ? 'bg-white text-gray-900' : 'text-gray-300 hover:text-white'}`}>
+                    {t(option ? 'players.versus' : 'players.solo')}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+// Free play or challenge, for the games that offer both
+const ChallengeModeToggle = ({ challenge, onChange }: { challenge: boolean, onChange: (challenge: boolean) => void }) => {
+    const { t } = useTranslation();
+    return (
+        <div className="inline-flex gap-1 bg-black bg-opacity-40 rounded-full p-1 mb-2">
+            {[false, true].map(option => (
+                <button
+                    key={String(option)}
+                    onClick={() => onChange(option)}
+                    className={`text-xs font-bold py-1 px-3 rounded-full ${challenge === option ? 'bg-white text-gray-900' : 'text-gray-300 hover:text-white'}`}>
+                    {t(option ? 'common.challenge' : 'common.freePlay')}
+                </button>
+            ))}
+        </div>
+    );
+};
+
+const VersusScores = ({ scores, locked }: { scores: Record<PlayerId, number>, locked: Record<PlayerId, boolean> }) => {
+    const { t, num } = useTranslation();
+    return (
+        <div className="mt-2 flex justify-center gap-8 text-xl font-semibold">
+            {PLAYER_IDS.map(player => (
+                <p key={player} className={PLAYER_STYLES[player].textClass}>
+                    {t(`player.${player}`)}: {num(scores[player])}{locked[player] ? ' 🔒' : ''}
+                </p>
+            ))}
+        </div>
+    );
+};
+
+const PickCursors = ({ cursors, locked, soloClassName }: { cursors: PickCursor[], locked: Record<PlayerId, boolean>, soloClassName: string }) => (
+    <>
+        {cursors.map(c => c.seat === 'solo' ? (
+            <DwellCursor key={c.seat} cursor={c} progress={c.progress} className={soloClassName} />
+        ) : (
+            <DwellCursor
+                key={c.seat}
+                cursor={c}
+                progress={c.progress}
+                className={`w-8 h-8 ${PLAYER_STYLES[c.seat].cursorClass} shadow-lg transition-all duration-75 ${locked[c.seat] ? 'opacity-30' : ''}`}
+            />
+        ))}
+    </>
+);
+
+// A selectable region, registered in play-area coordinates and drawn at the same place
+const SelectableTarget = ({ registry, id, rect, children }: { registry: TargetRegistry, id: string, rect: TargetRect, children: React.ReactNode }) => {
+    useEffect(() => {
+        registry.register(id, rect);
+        return () => registry.unregister(id);
+    }, [registry, id, rect.x, rect.y, rect.width, rect.height]);
+
+    return (
+        <div
+            className="absolute flex items-center justify-center"
+            style={{ left: `${rect.x * 100}%`, top: `${rect.y * 100}%`, width: `${rect.width * 100}%`, height: `${rect.height * 100}%` }}>
+            {children}
+        </div>
+    );
+};
+
+// Cursor dot with a ring that fills up while dwelling on a target
+const DwellCursor = ({ cursor, progress, className }: { cursor: { x: number, y: number }, progress: number, className: string }) => (
+    <div className="absolute -translate-x-1/2 -translate-y-1/2 pointer-events-none" style={{ left: `${cursor.x * 100}%`, top: `${cursor.y * 100}%` }}>
+        <div className={`rounded-full border-2 border-white ${className}`}></div>
+        {progress > 0 && (
+            <svg className="absolute left-1/2 top-1/2 -translate-x-1/2 -translate-y-1/2 -rotate-90" width="56" height="56" viewBox="0 0 56 56">
+                <circle cx="28" cy="28" r="24" fill="none" stroke="white" strokeOpacity="0.25" strokeWidth="5" />
+                <circle cx="28" cy="28" r="24" fill="none" stroke="white" strokeWidth="5" strokeLinecap="round"
+                    strokeDasharray={2 * Math.PI * 24} strokeDashoffset={2 * Math.PI * 24 * (1 - progress)} />
+            </svg>
+        )}
+    </div>
+);
+
+const NUMBER_PICKER_LAYOUT = { top: 0.3, bottom: 0.7, left: 0.02, right: 0.98 };
+const MATH_PUZZLE_LAYOUT = { top: 0.04, bottom: 0.96, left: 0.1, right: 0.9, gap: 0.03 };
+// How long a worked solution stays up: a base time plus a little per step
+const MATH_PUZZLE_SOLUTION_MS = 3000;
+const MATH_PUZZLE_STEP_MS = 2000;
+
+// Any of the number types the profile allows
+const generateAnyNumberPickerProblem = (profile: DifficultyProfile, rng: Rng) =>
+    generateNumberPickerProblem(pickOne(rng, profile.numberPicker.types), profile, rng);
+
 const NumberPickerGame = ({ backToMenu }: { backToMenu: () => void }) => {
-    const [problem, setProblem] = useState<NumberPickerProblem>(generateNumberPickerProblem('even'));
+    const source = useProblemSource(GameMode.NUMBER_PICKER, generateAnyNumberPickerProblem);
+    const { difficulty } = source;
+    const [problem, setProblem] = useState<NumberPickerProblem>(source.first);
     const [feedback, setFeedback] = useState<{ message: string; color: string } | null>(null);
     const [score, setScore] = useState(0);
-    const [cursor, setCursor] = useState<{ x: number, y: number } | null>(null);
-    const numberPositions = useRef<Array<{el: HTMLDivElement | null}>>([]);
-    
+    useSaveBestScore(GameMode.NUMBER_PICKER, score);
+    const { t, tx, tOr, num } = useTranslation();
+    const [versus, setVersus] = useState(false);
+    const players = useVersusPlayers();
+    // At most five per row, spread evenly over the rows
+    const layout = useMemo(() => {
+        const count = problem.numbers.length;
+        return gridLayout(count, Math.ceil(count / Math.ceil(count / 5)), NUMBER_PICKER_LAYOUT);
+    }, [problem.numbers.length]);
+    // Two hands can pick in the same frame; only the first correct pick may end the round
+    const roundOverRef = useRef(false);
+    // Answers picked so far; a round ends when all are found, which is the first one unless it is a find-all round
+    const [found, setFound] = useState<number[]>([]);
+    const foundRef = useRef<number[]>([]);
+    // Each player's points this round; in a find-all round the most answers found wins, not the last one
+    const roundPointsRef = useRef<Record<PlayerId, number>>({ Left: 0, Right: 0 });
+
     const newProblem = useCallback(() => {
-        const types: NumberType[] = ['even', 'odd', 'prime', 'fibonacci'];
-        const randomType = types[Math.floor(Math.random() * types.length)];
-        setProblem(generateNumberPickerProblem(randomType));
+        const next = source.next();
+        if (next) setProblem(next);
         setFeedback(null);
-    }, []);
-    
-    useEffect(() => {
-        numberPositions.current = Array(problem.numbers.length).fill(null).map(() => ({ el: null }));
-    }, [problem.numbers.length]);
+        foundRef.current = [];
+        setFound([]);
+        roundPointsRef.current = { Left: 0, Right: 0 };
+        roundOverRef.current = false;
+        difficulty.markShown();
+    }, [source.next, difficulty.markShown]);
+
+    // Marks an answer as found and reports whether that was the last one
+    const markFound = (value: number): boolean => {
+        foundRef.current = [...foundRef.current, value];
+        setFound(foundRef.current);
+        return foundRef.current.length === problem.answers.length;
+    };
 
-    const onResults = useCallback((results: Results) => {
-        if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0 && !feedback) {
-            const handLandmarks = results.multiHandLandmarks[0]; // Use the first detected hand for interaction
-            const fingerTip = getIndexFingerTipCoordinates(handLandmarks);
-            if (fingerTip) {
-                // Flip X coordinate for mirrored camera view
-                setCursor({x: 1 - fingerTip.x, y: fingerTip.y });
+    const onSelect = (targetId: string, seat: PickSeat) => {
+        if (roundOverRef.current) return;
+        const selectedNumber = problem.numbers[Number(targetId)];
+        if (foundRef.current.includes(selectedNumber)) return;
+        const isAnswer = problem.answers.includes(selectedNumber);
+
+        if (seat !== 'solo') {
+            if (players.isLocked(seat)) return;
+            if (isAnswer) {
+                players.award(seat, 10);
+                roundPointsRef.current = { ...roundPointsRef.current, [seat]: roundPointsRef.current[seat] + 10 };
+                if (markFound(selectedNumber)) {
+                    roundOverRef.current = true;
+                    const { Left, Right } = roundPointsRef.current;
+                    const winner: PlayerId | null = Left === Right ? null : Left > Right ? 'Left' : 'Right';
+                    setFeedback(winner
+                        ? { message: t('players.wins', { player: t(`player.${winner}`) }), color: winner === 'Right' ? 'text-cyan-400' : 'text-fuchsia-400' }
+                        : { message: t('players.draw'), color: 'text-yellow-300' });
+                    setTimeout(newProblem, 2000);
+                }
+            } else {
+                players.lock(seat);
             }
+            return;
+        }
 
-            if (isPinching(handLandmarks)) {
-                let selectedNumber: number | null = null;
-                if(cursor) {
-                    const cursorEl = document.getElementById('cursor-dot');
-                    if (cursorEl) {
-                        const cursorRect = cursorEl.getBoundingClientRect();
-                        for(let i=0; i<numberPositions.current.length; i++){
-                            const numEl = numberPositions.current[i].el;
-                            if(numEl){
-                                const numRect = numEl.getBoundingClientRect();
-                                if (cursorRect.left < numRect.right && cursorRect.right > numRect.left &&
-                                    cursorRect.top < numRect.bottom && cursorRect.bottom > numRect.top) {
-                                    selectedNumber = problem.numbers[i];
-                                    break;
-                                }
-                            }
-                        }
-                    }
-                }
-                
-                if (selectedNumber !== null) {
-                    if (selectedNumber === problem.correctAnswer) {
-                        setFeedback({ message: 'Awesome!', color: 'text-green-400' });
-                        setScore(s => s + 10);
-                        setTimeout(newProblem, 2000);
-                    } else {
-                        setFeedback({ message: 'Try Again!', color: 'text-red-400' });
-                        setTimeout(() => setFeedback(null), 1500);
-                    }
-                }
+        source.recordAttempt({
+            correct: isAnswer,
+            skill: skillForNumberType(problem.type),
+            problem: `${problem.type}${problem.n !== undefined ? ` ${problem.n}` : ''}: ${problem.numbers.join(', ')}`,
+            answer: String(selectedNumber),
+        });
+        // Every answer found scores, so a find-all round skipped halfway still earns partial credit
+        if (isAnswer) {
+            setScore(s => s + 10);
+            if (markFound(selectedNumber)) {
+                roundOverRef.current = true;
+                setFeedback({ message: t('common.awesome'), color: 'text-green-400' });
+                setTimeout(newProblem, 2000);
             }
         } else {
-            setCursor(null);
+            roundOverRef.current = true;
+            setFeedback({ message: t('common.tryAgain'), color: 'text-red-400' });
+            setTimeout(() => {
+                setFeedback(null);
+                roundOverRef.current = false;
+            }, 1500);
         }
-    }, [feedback, cursor, newProblem, problem.correctAnswer, problem.numbers]);
+    };
+
+    const { registry, cursors, onResults } = usePickInput(versus, feedback !== null, onSelect);
 
     return (
-        <GameContainer title="Number Hunt" onBack={backToMenu}>
+        <GameContainer title={t('game.NUMBER_PICKER')} onBack={backToMenu} onSkip={newProblem} difficulty={difficulty} lesson={source.lesson}>
             <div className="w-full max-w-2xl text-center mb-4 p-4 bg-black bg-opacity-50 rounded-lg">
+                <PlayerModeToggle versus={versus} onChange={setVersus} />
                 <p className="text-2xl md:text-3xl font-orbitron text-cyan-300 text-glow">
-                    Pinch the <span className="uppercase text-yellow-300">{problem.type}</span> number!
+                    {problem.n !== undefined
+                        ? tx(`${problem.findAll ? 'numberPicker.findAll' : 'numberPicker.prompt'}.${problem.type as 'multiple' | 'factor' | 'divisible'}`, { n: <span className="text-yellow-300">{num(problem.n)}</span> })
+                        : tx(problem.findAll ? 'numberPicker.findAll' : 'numberPicker.prompt', { type: <span className="uppercase text-yellow-300">{t(`numberType.${problem.type}`)}</span> })}
                 </p>
-                <p className="mt-2 text-xl font-semibold">Score: {score}</p>
+                {problem.type === 'divisible' && tOr(`numberPicker.rule.${problem.n}`, '') && (
+                    <p className="mt-1 text-sm text-gray-300">{num(tOr(`numberPicker.rule.${problem.n}`, ''))}</p>
+                )}
+                {problem.findAll && <p className="mt-1 text-lg text-green-300">{t('numberPicker.found', { found: found.length, total: problem.answers.length })}</p>}
+                {versus ? <VersusScores scores={players.scores} locked={players.locked} /> : <p className="mt-2 text-xl font-semibold">{t('common.score', { score })}</p>}
             </div>
              <CameraView onResults={onResults}>
-                <div className="w-full h-full grid grid-cols-5 gap-4 items-center justify-items-center p-4">
-                     {problem.numbers.map((num, i) => (
-                        <div key={`${problem.correctAnswer}-${num}-${i}`} 
-                            ref={el => numberPositions.current[i] = {el}}
-                            className="w-20 h-20 md:w-32 md:h-32 bg-purple-600 bg-opacity-80 rounded-full flex items-center justify-center text-3xl font-bold font-orbitron border-4 border-purple-400 shadow-lg shadow-purple-500/50 transition-transform duration-300 hover:scale-110 cursor-pointer">
-                            {num}
+                {problem.numbers.map((value, i) => (
+                    <SelectableTarget key={`${problem.numbers.join('-')}-${value}-${i}`} registry={registry} id={String(i)} rect={layout[i]}>
+                        <div className={`w-20 h-20 md:w-32 md:h-32 ${found.includes(value) ? 'bg-green-600 border-green-300' : 'bg-purple-600 border-purple-400'} bg-opacity-80 rounded-full flex items-center justify-center text-3xl font-bold font-orbitron border-4 shadow-lg shadow-purple-500/50 transition-transform duration-300 ${cursors.some(c => c.hoveredId === String(i)) ? 'scale-110' : ''}`}>
+                            {num(value)}
                         </div>
-                    ))}
-                </div>
-                 {cursor && <div id="cursor-dot" className="absolute w-6 h-6 bg-cyan-400 rounded-full border-2 border-white -translate-x-1/2 -translate-y-1/2 pointer-events-none transition-all duration-100" style={{ left: `${cursor.x * 100}%`, top: `${cursor.y * 100}%` }}></div>}
+                    </SelectableTarget>
+                ))}
+                 <PickCursors cursors={cursors} locked={players.locked} soloClassName="w-6 h-6 bg-cyan-400 transition-all duration-100" />
                  {feedback && <div className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center text-5xl font-bold font-orbitron animate-pulse" style={{ color: feedback.color.replace('text-', '') }}>{feedback.message}</div>}
             </CameraView>
         </GameContainer>
@@ -250,84 +1034,113 @@ const NumberPickerGame = ({ backToMenu }: { backToMenu: () => void }) => {
 };
 
 const MathPuzzleGame = ({ backToMenu }: { backToMenu: () => void }) => {
-    const [problem, setProblem] = useState<MathPuzzleProblem>(generateMathPuzzleProblem());
+    const source = useProblemSource(GameMode.MATH_PUZZLE, generateMathPuzzleProblem);
+    const { difficulty } = source;
+    const [problem, setProblem] = useState<MathPuzzleProblem>(source.first);
     const [feedback, setFeedback] = useState<{ message: string; color: string } | null>(null);
     const [score, setScore] = useState(0);
-    const [cursor, setCursor] = useState<{ x: number, y: number } | null>(null);
-    const optionRefs = useRef<Array<{el: HTMLDivElement | null}>>([]);
-
-    useEffect(() => {
-        optionRefs.current = Array(4).fill(null).map(() => ({ el: null }));
-    }, [problem]);
+    useSaveBestScore(GameMode.MATH_PUZZLE, score);
+    const { t, num } = useTranslation();
+    const [versus, setVersus] = useState(false);
+    const players = useVersusPlayers();
+    const layout = useMemo(() => gridLayout(problem.options.length, 2, MATH_PUZZLE_LAYOUT), [problem.options.length]);
+    const roundOverRef = useRef(false);
+    // Shown after a wrong pick, until the next problem
+    const [solution, setSolution] = useState<WorkedStep[] | null>(null);
+    const solutionTimerRef = useRef<ReturnType<typeof setTimeout>>(undefined);
 
     const newProblem = useCallback(() => {
-        setProblem(generateMathPuzzleProblem());
+        clearTimeout(solutionTimerRef.current);
+        const next = source.next();
+        if (next) setProblem(next);
         setFeedback(null);
-    }, []);
-
-    const onResults = useCallback((results: Results) => {
-        if (results.multiHandLandmarks && results.multiHandLandmarks.length > 0 && !feedback) {
-            const handLandmarks = results.multiHandLandmarks[0];
-            const fingerTip = getIndexFingerTipCoordinates(handLandmarks);
-            if (fingerTip) {
-                setCursor({x: 1 - fingerTip.x, y: fingerTip.y });
+        setSolution(null);
+        roundOverRef.current = false;
+        difficulty.markShown();
+    }, [source.next, difficulty.markShown]);
+
+    useEffect(() => () => clearTimeout(solutionTimerRef.current), []);
+
+    // Only a new pinch (or a completed dwell) selects; holding one must not fire again every frame
+    const onSelect = (targetId: string, seat: PickSeat) => {
+        if (roundOverRef.current) return;
+        const selectedNumber = problem.options[Number(targetId)];
+
+        if (seat !== 'solo') {
+            if (players.isLocked(seat)) return;
+            if (selectedNumber === problem.correctAnswer) {
+                roundOverRef.current = true;
+                players.award(seat, 20);
+                setFeedback({ message: t('players.wins', { player: t(`player.${seat}`) }), color: seat === 'Right' ? 'text-cyan-400' : 'text-fuchsia-400' });
+                setTimeout(newProblem, 1500);
+            } else {
+                players.lock(seat);
             }
+            return;
+        }
 
-            if (isPinching(handLandmarks)) {
-                let selectedNumber: number | null = null;
-                if(cursor) {
-                    const cursorEl = document.getElementById('cursor-dot');
-                    if (cursorEl) {
-                        const cursorRect = cursorEl.getBoundingClientRect();
-                        for(let i=0; i<optionRefs.current.length; i++){
-                            const optEl = optionRefs.current[i].el;
-                            if(optEl){
-                                const optRect = optEl.getBoundingClientRect();
-                                if (cursorRect.left < optRect.right && cursorRect.right > optRect.left &&
-                                    cursorRect.top < optRect.bottom && cursorRect.bottom > optRect.top) {
-                                    selectedNumber = problem.options[i];
-                                    break;
-                                }
-                            }
-                        }
-                    }
-                }
-                
-                if (selectedNumber !== null) {
-                    if (selectedNumber === problem.correctAnswer) {
-                        setFeedback({ message: 'Correct!', color: 'text-green-400' });
-                        setScore(s => s + 20);
-                        setTimeout(newProblem, 1500);
-                    } else {
-                        setFeedback({ message: 'Wrong!', color: 'text-red-400' });
-                        setTimeout(() => setFeedback(null), 1000);
-                    }
-                }
-            }
+        source.recordAttempt({
+            correct: selectedNumber === problem.correctAnswer,
+            skill: problem.operation ? skillForOperation(problem.operation) : 'mixed',
+            problem: problem.question,
+            answer: String(selectedNumber),
+            misconception: getMisconception(problem.distractors, selectedNumber),
+        });
+        if (selectedNumber === problem.correctAnswer) {
+            roundOverRef.current = true;
+            setFeedback({ message: t('common.correct'), color: 'text-green-400' });
+            setScore(s => s + 20);
+            setTimeout(newProblem, 1500);
+        } else if (problem.expression) {
+            // Work through the solution, then move on; picks are ignored meanwhile
+            roundOverRef.current = true;
+            const steps = getWorkedSteps(problem.expression);
+            setFeedback({ message: t('common.wrong'), color: 'text-red-400' });
+            setTimeout(() => setFeedback(null), 1000);
+            setSolution(steps);
+            solutionTimerRef.current = setTimeout(newProblem, MATH_PUZZLE_SOLUTION_MS + steps.length * MATH_PUZZLE_STEP_MS);
         } else {
-            setCursor(null);
+            roundOverRef.current = true;
+            setFeedback({ message: t('common.wrong'), color: 'text-red-400' });
+            setTimeout(() => {
+                setFeedback(null);
+                roundOverRef.current = false;
+            }, 1000);
         }
-    }, [feedback, cursor, newProblem, problem]);
+    };
+
+    const { registry, cursors, onResults } = usePickInput(versus, feedback !== null, onSelect);
 
     return (
-        <GameContainer title="Math Puzzle" onBack={backToMenu}>
+        <GameContainer title={t('game.MATH_PUZZLE')} onBack={backToMenu} onSkip={newProblem} difficulty={difficulty} lesson={source.lesson}>
             <div className="w-full max-w-2xl text-center mb-4 p-4 bg-black bg-opacity-50 rounded-lg">
+                <PlayerModeToggle versus={versus} onChange={setVersus} />
                 <p className="text-3xl md:text-5xl font-orbitron text-yellow-300 text-glow tracking-wider">
-                    {problem.question} = ?
+                    {num(problem.question)} = ?
                 </p>
-                <p className="mt-2 text-xl font-semibold">Score: {score}</p>
+                {versus ? <VersusScores scores={players.scores} locked={players.locked} /> : <p className="mt-2 text-xl font-semibold">{t('common.score', { score })}</p>}
+                {solution && (
+                    <div className="mt-3 text-left inline-block">
+                        <p className="text-sm text-indigo-200">{t('puzzle.workedSolution')}</p>
+                        <p className="text-xl font-orbitron">{num(problem.question)}</p>
+                        {solution.map((step, i) => (
+                            <p key={i} className="text-xl font-orbitron">
+                                = {num(step.result)} <span className="text-sm text-gray-400">({num(step.work)})</span>
+                            </p>
+                        ))}
+                        <button onClick={newProblem} className="mt-2 text-sm text-gray-300 hover:text-white underline">{t('puzzle.next')}</button>
+                    </div>
+                )}
             </div>
              <CameraView onResults={onResults}>
-                <div className="w-full h-full grid grid-cols-2 grid-rows-2 gap-8 p-12 items-center justify-items-center">
-                     {problem.options.map((opt, i) => (
-                        <div key={`${problem.correctAnswer}-${opt}-${i}`} 
-                            ref={el => optionRefs.current[i] = {el}}
-                            className="w-32 h-32 md:w-48 md:h-48 bg-indigo-600 bg-opacity-80 rounded-2xl flex items-center justify-center text-4xl md:text-6xl font-bold font-orbitron border-4 border-indigo-400 shadow-lg shadow-indigo-500/50 transition-all duration-300 hover:scale-105 hover:bg-indigo-500 cursor-pointer">
-                            {opt}
+                {problem.options.map((opt, i) => (
+                    <SelectableTarget key={`${problem.correctAnswer}-${opt}-${i}`} registry={registry} id={String(i)} rect={layout[i]}>
+                        <div className={`w-32 h-32 md:w-48 md:h-48 bg-opacity-80 rounded-2xl flex items-center justify-center text-4xl md:text-6xl font-bold font-orbitron border-4 ${solution && opt === problem.correctAnswer ? 'border-green-400' : 'border-indigo-400'} shadow-lg shadow-indigo-500/50 transition-all duration-300 ${cursors.some(c => c.hoveredId === String(i)) ? 'scale-105 bg-indigo-500' : 'bg-indigo-600'}`}>
+                            {num(opt)}
                         </div>
-                    ))}
-                </div>
-                 {cursor && <div id="cursor-dot" className="absolute w-8 h-8 bg-yellow-400 rounded-full border-2 border-white -translate-x-1/2 -translate-y-1/2 pointer-events-none shadow-lg shadow-yellow-500/50 transition-all duration-75" style={{ left: `${cursor.x * 100}%`, top: `${cursor.y * 100}%` }}></div>}
+                    </SelectableTarget>
+                ))}
+                 <PickCursors cursors={cursors} locked={players.locked} soloClassName="w-8 h-8 bg-yellow-400 shadow-lg shadow-yellow-500/50 transition-all duration-75" />
                  {feedback && <div className="absolute inset-0 bg-black bg-opacity-70 flex items-center justify-center text-6xl font-bold font-orbitron animate-bounce" style={{ color: feedback.color.replace('text-', '') }}>{feedback.message}</div>}
             </CameraView>
         </GameContainer>
@@ -335,204 +1148,449 @@ const MathPuzzleGame = ({ backToMenu }: { backToMenu: () => void }) => {
 };
 
 
+// One look per bin, in bin order
+const BIN_STYLES = [
+    'border-green-400 bg-green-900 text-green-300',
+    'border-sky-400 bg-sky-900 text-sky-300',
+    'border-amber-400 bg-amber-900 text-amber-300',
+    'border-fuchsia-400 bg-fuchsia-900 text-fuchsia-300',
+];
+
+// Half the w-16 number bubbles
+const NUMBER_RADIUS_PX = 32;
+
 const RightBoxGame = ({ backToMenu }: { backToMenu: () => void }) => {
-    const [level, setLevel] = useState<RightBoxLevel>(generateRightBoxLevel());
+    const source = useProblemSource(GameMode.RIGHT_BOX, generateRightBoxLevel);
+    const { difficulty } = source;
+    const [level, setLevel] = useState<RightBoxLevel>(source.first);
     const [score, setScore] = useState(0);
-    const [feedback, setFeedback] = useState<{ message: string; color: string } | null>(null);
+    useSaveBestScore(GameMode.RIGHT_BOX, score);
+    const { t, num } = useTranslation();
+    const [feedback, setFeedback] = useState<{ message: string; detail?: string; color: string } | null>(null);
     const [cursor, setCursor] = useState<{ x: number, y: number } | null>(null);
     
     // Using Ref for high-frequency game state to avoid re-binding callbacks
     const gameStateRef = useRef({
         numbers: level.numbers,
-        targetType: level.targetType,
-        isPinching: false,
+        bins: level.bins,
         draggedId: null as string | null
     });
+    const { calibration } = useContext(HandInputContext);
+    const pinchTracker = useMemo(() => createPinchTracker(getPinchThresholds(calibration)), [calibration]);
+    const throwTracker = useMemo(() => createThrowTracker(), []);
+    const playAreaRef = useRef<HTMLDivElement>(null);
+
+    // Sizes for the simulation, from the play area as it is drawn now
+    const measurePlayArea = (): PlayArea => {
+        const rect = playAreaRef.current?.getBoundingClientRect();
+        return rect && rect.width > 0 && rect.height > 0
+            ? { radius: NUMBER_RADIUS_PX / rect.width, aspect: rect.height / rect.width }
+            : DEFAULT_PLAY_AREA;
+    };
+
+    // A free spot for a number going back into play, clear of the bins and the other numbers
+    const freeSpot = (id: string, area: PlayArea) => {
+        const { numbers, bins } = gameStateRef.current;
+        return scatterPoints(1, bins, source.roundRng(), numbers.filter(n => n.id !== id), area)[0];
+    };
 
     // Keep ref in sync with state for rendering updates
     useEffect(() => {
         gameStateRef.current.numbers = level.numbers;
-        gameStateRef.current.targetType = level.targetType;
+        gameStateRef.current.bins = level.bins;
         // If the level refreshed completely, reset drag
         const exists = level.numbers.find(n => n.id === gameStateRef.current.draggedId);
         if(!exists) gameStateRef.current.draggedId = null;
     }, [level]);
 
-    const handleDrop = (num: DraggableNumber) => {
-        const isCorrectType = gameStateRef.current.targetType === 'even' 
-            ? num.value % 2 === 0 
-            : num.value % 2 !== 0;
+    const binLabel = (bin: RightBoxBin) => t(`rightBox.bin.${bin.rule}`, { value: bin.value ?? 0 });
+
+    const handleDrop = (dropped: DraggableNumber, binIndex: number) => {
+        const { bins } = gameStateRef.current;
+        const matching = getMatchingBins(bins, dropped);
+        const isCorrectType = matching.includes(binIndex);
+
+        // Each drop is one attempt; the next one is timed from here
+        source.recordAttempt({
+            correct: isCorrectType,
+            skill: skillForBin(bins, matching[0]),
+            problem: `${formatSortItem(dropped)} (${bins.map(formatBinRule).join(' / ')})`,
+            answer: formatBinRule(bins[binIndex]),
+        });
+        difficulty.markShown();
 
         if (isCorrectType) {
-            setFeedback({ message: 'Correct!', color: 'text-green-400' });
+            setFeedback({ message: t('common.correct'), color: 'text-green-400' });
             setScore(s => s + 10);
             
             // Remove the number
-            const newNumbers = gameStateRef.current.numbers.filter(n => n.id !== num.id);
+            const newNumbers = gameStateRef.current.numbers.filter(n => n.id !== dropped.id);
             gameStateRef.current.numbers = newNumbers;
             setLevel(prev => ({ ...prev, numbers: newNumbers }));
             
             if (newNumbers.length === 0) {
                 setTimeout(() => {
-                    const newLevel = generateRightBoxLevel();
-                    setLevel(newLevel);
+                    const newLevel = source.next();
+                    if (newLevel) setLevel(newLevel);
                     setFeedback(null);
                 }, 1000);
             } else {
                  setTimeout(() => setFeedback(null), 800);
             }
         } else {
-            setFeedback({ message: 'Wrong Box!', color: 'text-red-400' });
+            setFeedback({
+                message: t('rightBox.wrongBox'),
+                detail: t('rightBox.belongsIn', { number: num(formatSortItem(dropped)), bin: binLabel(bins[matching[0]]) }),
+                color: 'text-red-400',
+            });
             setScore(s => Math.max(0, s - 5));
             
-            // Reset position randomly on the left
+            // Back into play at rest, somewhere free
+            const spot = freeSpot(dropped.id, measurePlayArea());
             const newNumbers = gameStateRef.current.numbers.map(n => {
-                if(n.id === num.id) {
+                if(n.id === dropped.id) {
                     return { 
                         ...n, 
-                        x: Math.random() * 0.6 + 0.05, 
-                        y: Math.random() * 0.6 + 0.2, 
-                        isDragging: false 
+                        ...spot,
+                        vx: 0,
+                        vy: 0,
+                        isDragging: false,
+                        thrown: false
                     };
                 }
                 return n;
             });
             gameStateRef.current.numbers = newNumbers;
             setLevel(prev => ({ ...prev, numbers: newNumbers }));
-            setTimeout(() => setFeedback(null), 800);
+            setTimeout(() => setFeedback(null), 1500);
         }
     };
+    const handleDropRef = useRef(handleDrop);
+    handleDropRef.current = handleDrop;
 
-    const onResults = useCallback((results: Results) => {
-        if (!results.multiHandLandmarks || results.multiHandLandmarks.length === 0) {
-            setCursor(null);
-            gameStateRef.current.isPinching = false;
-            if (gameStateRef.current.draggedId) {
-                // Drop if lost hand tracking
-                const draggedNum = gameStateRef.current.numbers.find(n => n.id === gameStateRef.current.draggedId);
-                if (draggedNum) {
-                     const newNumbers = gameStateRef.current.numbers.map(n => 
-                        n.id === gameStateRef.current.draggedId ? { ...n, isDragging: false } : n
-                    );
-                    gameStateRef.current.numbers = newNumbers;
-                    gameStateRef.current.draggedId = null;
-                    setLevel(prev => ({ ...prev, numbers: newNumbers }));
-                }
-            }
-            return;
-        }
+    const pausedRef = useRef(false);
+
+    // The simulation runs on animation frames in fixed steps, however often the camera sends a frame, and stands still while paused
+    useEffect(() => {
+        const clock = createPhysicsClock();
+        let frame = requestAnimationFrame(function tick(now) {
+            frame = requestAnimationFrame(tick);
+            if (pausedRef.current) {
+                clock.reset();
+                return;
+            }
+            const steps = clock.tick(now);
+            const state = gameStateRef.current;
+            if (steps === 0) return;
+
+            const { bins } = state;
+            // A number the player let go of that ends up inside a bin has been dropped there, whether carried or thrown
+            const { numbers, landed } = advanceNumbers(state.numbers, bins, measurePlayArea(), steps);
+            if (numbers === state.numbers) return;
+            state.numbers = numbers;
+            // Left alone if another level has been set since
+            setLevel(prev => prev.bins === bins ? { ...prev, numbers } : prev);
+            if (landed) handleDropRef.current(landed, getBinAt(bins, landed.x, landed.y));
+        });
+        return () => cancelAnimationFrame(frame);
+    }, []);
+
+    const skipLevel = useCallback(() => {
+        const next = source.next();
+        if (next) setLevel(next);
+        setFeedback(null);
+        difficulty.markShown();
+    }, [source.next, difficulty.markShown]);
+
+    // The number keeps the hand's velocity when let go. Losing the hand stops it instead, and one
+    // stopped inside a bin goes back into play rather than counting as a drop.
+    const releaseDragged = (lostTracking: boolean) => {
+        const state = gameStateRef.current;
+        const area = measurePlayArea();
+        const { vx, vy } = lostTracking ? { vx: 0, vy: 0 } : throwTracker.velocity(area.aspect);
+        const newNumbers = state.numbers.map(n => {
+            if (n.id !== state.draggedId) return n;
+            const spot = lostTracking && getBinAt(state.bins, n.x, n.y) !== -1 ? freeSpot(n.id, area) : {};
+            return { ...n, ...spot, vx, vy, isDragging: false, thrown: !lostTracking };
+        });
+        state.numbers = newNumbers;
+        state.draggedId = null;
+        setLevel(prev => ({ ...prev, numbers: newNumbers }));
+    };
+
+    const onResults = useCallback((results: Results) => {
+        const handLandmarks = results.multiHandLandmarks?.[0];
+        const pinch = pinchTracker.update(handLandmarks);
+        const state = gameStateRef.current;
+
+        // Where it lands is up to the simulation
+        if (pinch?.type === 'pinch-release' && state.draggedId) releaseDragged(!!pinch.lostTracking);
+
+        if (!handLandmarks) {
+            setCursor(null);
+            return;
+        }
 
-        const handLandmarks = results.multiHandLandmarks[0];
         const fingerTip = getIndexFingerTipCoordinates(handLandmarks);
         
         if (!fingerTip) return;
 
-        // Current cursor pos (mirrored logic for consistency)
-        const cx = 1 - fingerTip.x;
-        const cy = fingerTip.y;
+        // Current cursor pos (mirrored and calibrated like the other games)
+        const { x: cx, y: cy } = mapToPlayArea(fingerTip, calibration);
         setCursor({ x: cx, y: cy });
 
-        const pinching = isPinching(handLandmarks);
-        const state = gameStateRef.current;
-
-        if (pinching) {
-            if (!state.isPinching) {
-                // Just started pinching, check collision
-                // Assume radius of interaction roughly 5%
-                const hit = state.numbers.find(n => {
-                    const dx = n.x - cx;
-                    const dy = n.y - cy;
-                    // Simple distance check (adjust threshold as needed)
-                    return (dx * dx + dy * dy) < 0.005; 
-                });
+        if (pinch?.type === 'pinch-start') {
+            // Just started pinching: grab a number under (or just beside) the finger, even one in flight
+            const { radius, aspect } = measurePlayArea();
+            const hit = state.numbers.find(n => Math.hypot(n.x - cx, (n.y - cy) * aspect) < radius * 1.5);
 
-                if (hit) {
-                    state.draggedId = hit.id;
-                    const newNumbers = state.numbers.map(n => 
-                        n.id === hit.id ? { ...n, isDragging: true } : n
-                    );
-                    state.numbers = newNumbers;
-                    setLevel(prev => ({ ...prev, numbers: newNumbers }));
-                }
-            } else if (state.draggedId) {
-                // Continue dragging
+            if (hit) {
+                state.draggedId = hit.id;
+                throwTracker.clear();
+                throwTracker.add(cx, cy);
                 const newNumbers = state.numbers.map(n => 
-                    n.id === state.draggedId ? { ...n, x: cx, y: cy } : n
+                    n.id === hit.id ? { ...n, isDragging: true, thrown: false, vx: 0, vy: 0 } : n
                 );
                 state.numbers = newNumbers;
-                // Force update for visual
                 setLevel(prev => ({ ...prev, numbers: newNumbers }));
             }
-        } else {
-            // Not pinching
-            if (state.isPinching && state.draggedId) {
-                // Released
-                const droppedNum = state.numbers.find(n => n.id === state.draggedId);
-                if (droppedNum) {
-                    // Check if inside Right Box (Right 25% -> x > 0.75)
-                    if (droppedNum.x > 0.75) {
-                        handleDrop(droppedNum);
-                    } else {
-                        // Released in space
-                        const newNumbers = state.numbers.map(n => 
-                            n.id === state.draggedId ? { ...n, isDragging: false } : n
-                        );
-                        state.numbers = newNumbers;
-                        setLevel(prev => ({ ...prev, numbers: newNumbers }));
-                    }
-                }
-                state.draggedId = null;
-            }
+        } else if (pinch?.type === 'pinch-hold' && state.draggedId) {
+            // Continue dragging, with the hand's velocity so the number can push others
+            throwTracker.add(cx, cy);
+            const { vx, vy } = throwTracker.velocity(measurePlayArea().aspect);
+            const newNumbers = state.numbers.map(n => 
+                n.id === state.draggedId ? { ...n, x: cx, y: cy, vx, vy } : n
+            );
+            state.numbers = newNumbers;
+            // Force update for visual
+            setLevel(prev => ({ ...prev, numbers: newNumbers }));
         }
-        state.isPinching = pinching;
-    }, []);
+    }, [pinchTracker, calibration]);
 
     return (
-        <GameContainer title="Right Box Sort" onBack={backToMenu}>
+        <GameContainer title={t('game.RIGHT_BOX')} onBack={backToMenu} onSkip={skipLevel} difficulty={difficulty} lesson={source.lesson} onPauseChange={paused => { pausedRef.current = paused; }}>
             <div className="w-full max-w-2xl text-center mb-2 p-2 bg-black bg-opacity-50 rounded-lg">
-                <p className="text-2xl md:text-3xl font-orbitron text-white text-glow">
-                    Drag <span className="uppercase font-bold text-yellow-400">{level.targetType}</span> numbers to the Right Box!
-                </p>
-                <p className="mt-1 text-xl font-semibold">Score: {score}</p>
+                <p className="text-2xl md:text-3xl font-orbitron text-white text-glow">{t('rightBox.prompt')}</p>
+                <p className="mt-1 text-xl font-semibold">{t('common.score', { score })}</p>
             </div>
              <CameraView onResults={onResults}>
                 {/* The Game Zone */}
-                <div className="w-full h-full relative">
-                    {/* Right Box Zone Indicator */}
-                    <div className="absolute right-0 top-0 w-1/4 h-full border-l-4 border-dashed border-green-400 bg-green-900 bg-opacity-30 flex items-center justify-center">
-                        <span className="text-green-300 font-orbitron text-2xl font-bold -rotate-90">DROP HERE</span>
-                    </div>
+                <div ref={playAreaRef} className="w-full h-full relative">
+                    {/* Bins */}
+                    {level.bins.map((bin, i) => (
+                        <div key={i}
+                            className={`absolute border-4 border-dashed rounded-lg bg-opacity-30 flex items-center justify-center p-2 ${BIN_STYLES[i % BIN_STYLES.length]}`}
+                            style={{ left: `${bin.x * 100}%`, top: `${bin.y * 100}%`, width: `${bin.width * 100}%`, height: `${bin.height * 100}%` }}>
+                            <span className="font-orbitron text-xl md:text-2xl font-bold text-center">{binLabel(bin)}</span>
+                        </div>
+                    ))}
 
                     {/* Draggable Numbers */}
-                    {level.numbers.map((num) => (
-                        <div key={num.id}
+                    {level.numbers.map((item) => (
+                        <div key={item.id}
                             className={`absolute w-16 h-16 rounded-full flex items-center justify-center text-2xl font-bold font-orbitron border-4 shadow-lg transition-transform
-                                ${num.isDragging ? 'scale-125 z-50 border-white bg-blue-500' : 'scale-100 border-cyan-400 bg-cyan-700 bg-opacity-80'}`}
+                                ${item.isDragging ? 'scale-125 z-50 border-white bg-blue-500' : 'scale-100 border-cyan-400 bg-cyan-700 bg-opacity-80'}`}
                             style={{ 
-                                left: `${num.x * 100}%`, 
-                                top: `${num.y * 100}%`,
+                                left: `${item.x * 100}%`, 
+                                top: `${item.y * 100}%`,
                                 transform: 'translate(-50%, -50%)', // Center anchor
                                 pointerEvents: 'none' // Let logic handle interaction
                             }}>
-                            {num.value}
+                            {num(formatSortItem(item))}
                         </div>
                     ))}
                 </div>
 
                  {cursor && <div className={`absolute w-6 h-6 rounded-full border-2 border-white -translate-x-1/2 -translate-y-1/2 pointer-events-none transition-all duration-75 z-50
-                    ${gameStateRef.current.isPinching ? 'bg-yellow-400 scale-75' : 'bg-transparent'}`} 
+                    ${pinchTracker.pinching ? 'bg-yellow-400 scale-75' : 'bg-transparent'}`} 
                     style={{ left: `${cursor.x * 100}%`, top: `${cursor.y * 100}%` }}></div>}
                  
-                 {feedback && <div className="absolute inset-0 bg-black bg-opacity-60 flex items-center justify-center text-5xl font-bold font-orbitron animate-pulse z-50" style={{ color: feedback.color.replace('text-', '') }}>{feedback.message}</div>}
+                 {feedback && (
+                    <div className="absolute inset-0 bg-black bg-opacity-60 flex flex-col items-center justify-center font-bold font-orbitron z-50" style={{ color: feedback.color.replace('text-', '') }}>
+                        <span className="text-5xl animate-pulse">{feedback.message}</span>
+                        {feedback.detail && <span className="mt-4 text-2xl text-white">{feedback.detail}</span>}
+                    </div>
+                 )}
             </CameraView>
         </GameContainer>
     );
 };
 
 
+// A challenge angle must stay on target this long to count
+const ANGLE_TARGET_HOLD_MS = 1000;
+// Time allowed for each challenge target; the speed bonus runs out over the same time
+const ANGLE_TARGET_TIME_MS = 20000;
+
+const ANGLE_CLASS_COLORS: Record<AngleClass, string> = {
+    acute: 'text-blue-400',
+    right: 'text-green-400',
+    obtuse: 'text-orange-400',
+    straight: 'text-red-400',
+    reflex: 'text-purple-400',
+    complete: 'text-white',
+};
+
+// 10 points for making the angle, plus up to 10 for accuracy and up to 10 for speed
+const angleChallengePoints = (accuracy: number, responseMs: number) =>
+    10 + Math.round(accuracy * 10) + Math.round(Math.max(0, 1 - responseMs / ANGLE_TARGET_TIME_MS) * 10);
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+/**
+ * A protractor laid along the base ray: 0 sits on the base ray and the scale counts up in the
+ * direction the angle is measured, so the second ray points at the angle's size. Angles are
+ * Cartesian degrees; the canvas y axis points down, hence the negated radians.
+ */
+const drawProtractor = (
+    ctx: CanvasRenderingContext2D,
+    vertex: { x: number, y: number },
+    baseAngle: number,
+    radius: number,
+    label: (degrees: number) => string,
+    targetDegrees: number | null,
+) => {
+    const toCanvas = (degrees: number) => -(baseAngle + degrees) * (Math.PI / 180);
+    ctx.save();
+    ctx.globalAlpha = 0.8;
+    ctx.strokeStyle = 'white';
+    ctx.fillStyle = 'white';
+    ctx.lineWidth = 1.5;
+    ctx.font = '12px sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+
+    ctx.beginPath();
+    ctx.arc(vertex.x, vertex.y, radius, 0, 2 * Math.PI);
+    ctx.stroke();
+
+    for (let degrees = 0; degrees < 360; degrees += 5) {
+        const rad = toCanvas(degrees);
+        const tick = degrees % 30 === 0 ? 14 : degrees % 10 === 0 ? 9 : 5;
+        ctx.beginPath();
+        ctx.moveTo(vertex.x + Math.cos(rad) * radius, vertex.y + Math.sin(rad) * radius);
+        ctx.lineTo(vertex.x + Math.cos(rad) * (radius - tick), vertex.y + Math.sin(rad) * (radius - tick));
+        ctx.stroke();
+        if (degrees % 30 === 0) {
+            ctx.fillText(label(degrees), vertex.x + Math.cos(rad) * (radius - 26), vertex.y + Math.sin(rad) * (radius - 26));
+        }
+    }
+
+    if (targetDegrees !== null) {
+        const rad = toCanvas(targetDegrees);
+        ctx.globalAlpha = 1;
+        ctx.fillStyle = '#4ade80';
+        ctx.beginPath();
+        ctx.arc(vertex.x + Math.cos(rad) * (radius + 8), vertex.y + Math.sin(rad) * (radius + 8), 6, 0, 2 * Math.PI);
+        ctx.fill();
+    }
+    ctx.restore();
+};
+
 const AngleMagicGame = ({ backToMenu }: { backToMenu: () => void }) => {
-    const [angleData, setAngleData] = useState<{ degrees: number, type: string } | null>(null);
+    const [angleData, setAngleData] = useState<{ degrees: number, type: AngleClass } | null>(null);
+    const { t, num } = useTranslation();
     const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+    const { logAttempt } = useContext(StudentContext);
+
+    // Challenge mode asks for a target angle; free play just shows what the hands make
+    const [challengeMode, setChallengeMode] = useState(false);
+    const difficulty = useAdaptiveDifficulty();
+    const problemRng = useProblemRng(GameMode.ANGLE_MAGIC);
+    const [target, setTarget] = useState<AngleTarget>(() => generateAngleTarget(difficulty.currentProfile(), problemRng.first()));
+    const [score, setScore] = useState(0);
+    useSaveBestScore(GameMode.ANGLE_MAGIC, score);
+    const [feedback, setFeedback] = useState<{ message: string; color: string } | null>(null);
+    const [holdProgress, setHoldProgress] = useState(0);
+    const [secondsLeft, setSecondsLeft] = useState(ANGLE_TARGET_TIME_MS / 1000);
+    // Frames since the angle came on target, for the hold timer and the average accuracy
+    const onTargetRef = useRef<{ since: number, accuracies: number[], degrees: number[] } | null>(null);
+    const targetShownAtRef = useRef(performance.now());
+    const roundOverRef = useRef(false);
+
+    // The challenge clock, the hold on target and the response time all stop while paused
+    const onPauseChange = usePauseTimer(pausedMs => {
+        targetShownAtRef.current += pausedMs;
+        if (onTargetRef.current) onTargetRef.current.since += pausedMs;
+        difficulty.discountTime(pausedMs);
+    });
+
+    const newTarget = useCallback(() => {
+        setTarget(generateAngleTarget(difficulty.currentProfile(), problemRng.next()));
+        setFeedback(null);
+        setHoldProgress(0);
+        onTargetRef.current = null;
+        roundOverRef.current = false;
+        targetShownAtRef.current = performance.now();
+        difficulty.markShown();
+    }, [difficulty.currentProfile, difficulty.markShown, problemRng.next]);
+
+    const selectMode = (challenge: boolean) => {
+        setChallengeMode(challenge);
+        // The clock starts when the challenge does, not when the game opened
+        targetShownAtRef.current = performance.now();
+        difficulty.markShown();
+    };
+
+    // Returns the response time, which the speed bonus is based on
+    const recordChallengeAttempt = (correct: boolean, degrees: number | null) => {
+        const timeMs = difficulty.recordAttempt(correct);
+        logAttempt({
+            game: GameMode.ANGLE_MAGIC,
+            skill: skillForAngleClass(getAngleTargetClass(target)),
+            problem: target.kind === 'degrees' ? `Make ${target.degrees}°` : `Make ${target.angleClass} angle`,
+            answer: degrees === null ? 'none' : `${Math.round(degrees)}°`,
+            correct,
+            timeMs: Math.round(timeMs),
+            at: new Date().toISOString(),
+        });
+        return timeMs;
+    };
+
+    // Called every frame in challenge mode with the angle the hands make, if any
+    const evaluateChallenge = (degrees: number | null) => {
+        if (roundOverRef.current) return;
+        const now = performance.now();
+        const elapsed = now - targetShownAtRef.current;
+        if (elapsed >= ANGLE_TARGET_TIME_MS) {
+            roundOverRef.current = true;
+            recordChallengeAttempt(false, degrees);
+            setFeedback({ message: t('common.timeUp'), color: 'text-red-400' });
+            setTimeout(newTarget, 1500);
+            return;
+        }
+        setSecondsLeft(Math.ceil((ANGLE_TARGET_TIME_MS - elapsed) / 1000));
+
+        const accuracy = degrees === null ? null : getAngleAccuracy(degrees, target);
+        if (accuracy === null) {
+            onTargetRef.current = null;
+            setHoldProgress(0);
+            return;
+        }
+        const held = onTargetRef.current ?? (onTargetRef.current = { since: now, accuracies: [], degrees: [] });
+        held.accuracies.push(accuracy);
+        held.degrees.push(degrees!);
+        const progress = Math.min(1, (now - held.since) / ANGLE_TARGET_HOLD_MS);
+        setHoldProgress(progress);
+        if (progress < 1) return;
+
+        roundOverRef.current = true;
+        const responseMs = recordChallengeAttempt(true, mean(held.degrees));
+        const points = angleChallengePoints(mean(held.accuracies), responseMs);
+        setScore(s => s + points);
+        setFeedback({ message: t('common.points', { points }), color: 'text-green-400' });
+        setTimeout(newTarget, 1500);
+    };
+
+    // Free play has no right answer, so only challenge angles are graded and logged
+    const trackAngle = (degrees: number | null) => {
+        if (challengeMode) evaluateChallenge(degrees);
+    };
+    const trackAngleRef = useRef(trackAngle);
+    trackAngleRef.current = trackAngle;
+    // What the protractor needs from the current render
+    const protractorRef = useRef({ label: num, targetDegrees: null as number | null });
+    protractorRef.current = { label: num, targetDegrees: challengeMode && target.kind === 'degrees' ? target.degrees : null };
 
     const onResults = useCallback((results: Results) => {
         const canvas = overlayCanvasRef.current;
@@ -575,12 +1633,8 @@ const AngleMagicGame = ({ backToMenu }: { backToMenu: () => void }) => {
             const tipR = { x: (1 - screenRightHand[8].x) * w, y: screenRightHand[8].y * h };
 
             // Calculate angles of the FINGERS themselves (Cartesian: Y up is positive)
-            // Screen Y is down, so dy = -(y2 - y1)
-            const angleL = Math.atan2(-(tipL.y - wristL.y), tipL.x - wristL.x) * (180 / Math.PI);
-            const angleR = Math.atan2(-(tipR.y - wristR.y), tipR.x - wristR.x) * (180 / Math.PI);
-
-            theta2 = (angleL + 360) % 360;
-            theta1 = (angleR + 360) % 360;
+            theta2 = getVectorAngle(wristL, tipL);
+            theta1 = getVectorAngle(wristR, tipR);
 
             // Calculate Intersection of the two lines for the visual vertex
             // Line 1: (wristR -> tipR), Line 2: (wristL -> tipL)
@@ -616,32 +1670,26 @@ const AngleMagicGame = ({ backToMenu }: { backToMenu: () => void }) => {
             const hand = results.multiHandLandmarks[0];
             vertex = { x: (1 - hand[0].x) * w, y: hand[0].y * h }; // Wrist as vertex
             
-            // Thumb Vector
             const tipThumb = { x: (1 - hand[4].x) * w, y: hand[4].y * h };
-            const mcpThumb = { x: (1 - hand[2].x) * w, y: hand[2].y * h }; // Use MCP for stability
-            
-            // Index Vector
             const tipIndex = { x: (1 - hand[8].x) * w, y: hand[8].y * h };
-            const mcpIndex = { x: (1 - hand[5].x) * w, y: hand[5].y * h };
 
-            const angleThumb = Math.atan2(-(tipThumb.y - vertex.y), tipThumb.x - vertex.x) * (180 / Math.PI);
-            const angleIndex = Math.atan2(-(tipIndex.y - vertex.y), tipIndex.x - vertex.x) * (180 / Math.PI);
-
-            theta1 = (angleThumb + 360) % 360;
-            theta2 = (angleIndex + 360) % 360;
+            theta1 = getVectorAngle(vertex, tipThumb);
+            theta2 = getVectorAngle(vertex, tipIndex);
             isValid = true;
         }
 
         if (isValid) {
             // Calculate CCW sweep from Theta1 (Base) to Theta2 (Target)
-            let diff = theta2 - theta1;
-            if (diff < 0) diff += 360;
+            const diff = getAngleDifference(theta1, theta2);
 
             const type = classifyAngle(diff);
             setAngleData({ degrees: Math.round(diff), type });
+            trackAngleRef.current(diff);
 
             // --- Visualization ---
             const radius = 80;
+            const { label, targetDegrees } = protractorRef.current;
+            drawProtractor(ctx, vertex, theta1, 120, label, targetDegrees);
             
             // Draw Rays from Vertex based on Calculated Angles
             // Note: Canvas Y is down. Math angle 0 is +X. Math angle 90 is +Y (Up).
@@ -702,89 +1750,1310 @@ const AngleMagicGame = ({ backToMenu }: { backToMenu: () => void }) => {
 
         } else {
             setAngleData(null);
+            trackAngleRef.current(null);
         }
 
     }, []);
 
     return (
-        <GameContainer title="Angle Magic" onBack={backToMenu}>
+        <GameContainer
+            title={t('game.ANGLE_MAGIC')}
+            onBack={backToMenu}
+            onSkip={challengeMode ? newTarget : undefined}
+            difficulty={challengeMode ? difficulty : undefined}
+            onPauseChange={onPauseChange}>
             <div className="w-full max-w-2xl text-center mb-4 p-4 bg-black bg-opacity-50 rounded-lg relative z-20">
-                <p className="text-xl md:text-2xl text-indigo-200 mb-2">
-                    Point your fingers to make the angle!
-                </p>
+                <ChallengeModeToggle challenge={challengeMode} onChange={selectMode} />
+                {challengeMode ? (
+                    <div className="mb-2">
+                        <p className="text-2xl md:text-3xl font-orbitron font-bold text-green-300">
+                            {target.kind === 'degrees'
+                                ? t('angle.makeDegrees', { degrees: `${num(target.degrees)}°` })
+                                : t('angle.makeClass', { angle: t(`angle.${target.angleClass}`) })}
+                        </p>
+                        <p className="text-sm text-indigo-200">
+                            {target.kind === 'degrees' && <>{t('angle.tolerance', { tolerance: target.tolerance })} · </>}
+                            {t('common.secondsLeft', { seconds: secondsLeft })} · {t('common.score', { score })}
+                        </p>
+                        {holdProgress > 0 && (
+                            <div className="mt-2 mx-auto w-48">
+                                <p className="text-sm font-bold text-green-300">{t('common.hold')}</p>
+                                <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                                    <div className="h-full bg-green-400" style={{ width: `${holdProgress * 100}%` }} />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <p className="text-xl md:text-2xl text-indigo-200 mb-2">
+                        {t('angle.prompt')}
+                    </p>
+                )}
                 {angleData ? (
                     <div>
                         <p className="text-6xl md:text-8xl font-orbitron font-bold text-white text-glow mb-2">
-                            {angleData.degrees}°
+                            {num(angleData.degrees)}°
                         </p>
-                        <p className={`text-3xl md:text-5xl font-orbitron font-bold animate-pulse
-                            ${angleData.type === 'ସୂକ୍ଷ୍ମ କୋଣ' ? 'text-blue-400' : 
-                              angleData.type === 'ସମକୋଣ' ? 'text-green-400' :
-                              angleData.type === 'ସ୍ଥୂଳ କୋଣ' ? 'text-orange-400' :
-                              angleData.type === 'ସରଳ କୋଣ' ? 'text-red-400' :
-                              angleData.type === 'ପ୍ରବୃଦ୍ଧ କୋଣ' ? 'text-purple-400' : 'text-white'}`}>
-                            {angleData.type}
+                        <p className={`text-3xl md:text-5xl font-orbitron font-bold animate-pulse ${ANGLE_CLASS_COLORS[angleData.type]}`}>
+                            {t(`angle.${angleData.type}`)}
                         </p>
                     </div>
                 ) : (
-                     <p className="text-3xl font-orbitron text-gray-500 animate-pulse">Show me your hands!</p>
+                     <p className="text-3xl font-orbitron text-gray-500 animate-pulse">{t('angle.showHands')}</p>
                 )}
             </div>
              <CameraView onResults={onResults}>
                  <canvas ref={overlayCanvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+                 {feedback && (
+                     <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                         <p className={`text-5xl font-orbitron font-bold text-glow ${feedback.color}`}>{feedback.message}</p>
+                     </div>
+                 )}
+            </CameraView>
+        </GameContainer>
+    );
+};
+
+
+// Fingertip landmark for each finger; every extended fingertip becomes a corner
+const FINGERTIPS: Record<FingerName, number> = { thumb: 4, index: 8, middle: 12, ring: 16, pinky: 20 };
+// Lengths are measured in units of 1/20 of the camera view's width
+const SHAPE_UNITS_ACROSS = 20;
+const SHAPE_TARGET_HOLD_MS = 1000;
+const SHAPE_TARGET_TIME_MS = 30000;
+
+interface ShapeMeasurements {
+    // In units, ordered around the shape
+    vertices: Point[];
+    sides: number[];
+    angles: number[];
+    perimeter: number;
+    area: number;
+}
+
+const measureShape = (vertices: Point[]): ShapeMeasurements => ({
+    vertices,
+    sides: getPolygonSides(vertices),
+    angles: getPolygonInteriorAngles(vertices),
+    perimeter: getPolygonPerimeter(vertices),
+    area: getPolygonArea(vertices),
+});
+
+const oneDecimal = (value: number) => (Math.round(value * 10) / 10).toFixed(1);
+
+// A name such as "right isosceles triangle"; `tr` picks the language
+const triangleName = (tr: (key: MessageKey, params?: MessageParams) => string, sides?: TriangleSideClass, angles?: TriangleAngleClass) =>
+    tr('shape.triangle', { kind: [angles && tr(`shape.angles.${angles}`), sides && tr(`shape.sides.${sides}`)].filter(Boolean).join(' ') });
+
+const shapeTargetName = (tr: (key: MessageKey, params?: MessageParams) => string, target: ShapeTarget) =>
+    target.kind === 'triangle' ? triangleName(tr, target.sides, target.angles) : tr(`shape.quad.${target.shape}`);
+
+const ShapeBuilderGame = ({ backToMenu }: { backToMenu: () => void }) => {
+    const [shape, setShape] = useState<ShapeMeasurements | null>(null);
+    const { t, num } = useTranslation();
+    const overlayCanvasRef = useRef<HTMLCanvasElement>(null);
+    const { logAttempt } = useContext(StudentContext);
+
+    const [challengeMode, setChallengeMode] = useState(false);
+    const difficulty = useAdaptiveDifficulty();
+    const problemRng = useProblemRng(GameMode.SHAPE_BUILDER);
+    const [target, setTarget] = useState<ShapeTarget>(() => generateShapeTarget(difficulty.currentProfile(), problemRng.first()));
+    const [score, setScore] = useState(0);
+    useSaveBestScore(GameMode.SHAPE_BUILDER, score);
+    const [feedback, setFeedback] = useState<{ message: string; color: string } | null>(null);
+    const [holdProgress, setHoldProgress] = useState(0);
+    const [secondsLeft, setSecondsLeft] = useState(SHAPE_TARGET_TIME_MS / 1000);
+    const onTargetSinceRef = useRef<number | null>(null);
+    const targetShownAtRef = useRef(performance.now());
+    const roundOverRef = useRef(false);
+
+    // The challenge clock, the hold on target and the response time all stop while paused
+    const onPauseChange = usePauseTimer(pausedMs => {
+        targetShownAtRef.current += pausedMs;
+        if (onTargetSinceRef.current !== null) onTargetSinceRef.current += pausedMs;
+        difficulty.discountTime(pausedMs);
+    });
+
+    const tolerances = difficulty.currentProfile().shapeBuilder;
+
+    const newTarget = useCallback(() => {
+        setTarget(generateShapeTarget(difficulty.currentProfile(), problemRng.next()));
+        setFeedback(null);
+        setHoldProgress(0);
+        onTargetSinceRef.current = null;
+        roundOverRef.current = false;
+        targetShownAtRef.current = performance.now();
+        difficulty.markShown();
+    }, [difficulty.currentProfile, difficulty.markShown, problemRng.next]);
+
+    const selectMode = (challenge: boolean) => {
+        setChallengeMode(challenge);
+        targetShownAtRef.current = performance.now();
+        difficulty.markShown();
+    };
+
+    const recordChallengeAttempt = (correct: boolean, made: ShapeMeasurements | null) => {
+        const timeMs = difficulty.recordAttempt(correct);
+        logAttempt({
+            game: GameMode.SHAPE_BUILDER,
+            skill: skillForShapeTarget(target),
+            problem: `Make ${shapeTargetName((key, params) => translate('en', key, params), target)}`,
+            answer: made ? `${made.vertices.length} corners, angles ${made.angles.map(a => `${Math.round(a)}°`).join(' ')}` : 'none',
+            correct,
+            timeMs: Math.round(timeMs),
+            at: new Date().toISOString(),
+        });
+        return timeMs;
+    };
+
+    // Called every frame in challenge mode with the shape the fingertips make, if any
+    const evaluateChallenge = (made: ShapeMeasurements | null) => {
+        if (roundOverRef.current) return;
+        const now = performance.now();
+        const elapsed = now - targetShownAtRef.current;
+        if (elapsed >= SHAPE_TARGET_TIME_MS) {
+            roundOverRef.current = true;
+            recordChallengeAttempt(false, made);
+            setFeedback({ message: t('common.timeUp'), color: 'text-red-400' });
+            setTimeout(newTarget, 1500);
+            return;
+        }
+        setSecondsLeft(Math.ceil((SHAPE_TARGET_TIME_MS - elapsed) / 1000));
+
+        if (!made || !shapeMatchesTarget(made.vertices, target, tolerances)) {
+            onTargetSinceRef.current = null;
+            setHoldProgress(0);
+            return;
+        }
+        const since = onTargetSinceRef.current ?? (onTargetSinceRef.current = now);
+        const progress = Math.min(1, (now - since) / SHAPE_TARGET_HOLD_MS);
+        setHoldProgress(progress);
+        if (progress < 1) return;
+
+        roundOverRef.current = true;
+        const responseMs = recordChallengeAttempt(true, made);
+        // 10 points for the shape plus up to 10 for speed
+        const points = 10 + Math.round(Math.max(0, 1 - responseMs / SHAPE_TARGET_TIME_MS) * 10);
+        setScore(s => s + points);
+        setFeedback({ message: t('common.points', { points }), color: 'text-green-400' });
+        setTimeout(newTarget, 1500);
+    };
+
+    const trackShape = (made: ShapeMeasurements | null) => {
+        if (challengeMode) evaluateChallenge(made);
+    };
+    const trackShapeRef = useRef(trackShape);
+    trackShapeRef.current = trackShape;
+    // Labels are drawn on the canvas, so it needs the current locale's digits
+    const numRef = useRef(num);
+    numRef.current = num;
+
+    const onResults = useCallback((results: Results) => {
+        const canvas = overlayCanvasRef.current;
+        if (!canvas) return;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) return;
+
+        const rect = canvas.getBoundingClientRect();
+        if (canvas.width !== rect.width || canvas.height !== rect.height) {
+            canvas.width = rect.width;
+            canvas.height = rect.height;
+        }
+        ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+        const w = canvas.width;
+        const h = canvas.height;
+        const unit = w / SHAPE_UNITS_ACROSS;
+
+        const points: Point[] = [];
+        (results.multiHandLandmarks ?? []).forEach((hand, i) => {
+            const { extended } = getFingerStates(hand, results.multiHandedness?.[i]?.label);
+            for (const finger of Object.keys(FINGERTIPS) as FingerName[]) {
+                if (!extended[finger]) continue;
+                const tip = hand[FINGERTIPS[finger]];
+                points.push({ x: (1 - tip.x) * w / unit, y: tip.y * h / unit });
+            }
+        });
+
+        if (points.length < 3) {
+            setShape(null);
+            trackShapeRef.current(null);
+            return;
+        }
+
+        const measured = measureShape(orderPolygonVertices(points));
+        setShape(measured);
+        trackShapeRef.current(measured);
+
+        // --- Visualization ---
+        const corners = measured.vertices.map(v => ({ x: v.x * unit, y: v.y * unit }));
+        const label = numRef.current;
+
+        ctx.beginPath();
+        corners.forEach((c, i) => i === 0 ? ctx.moveTo(c.x, c.y) : ctx.lineTo(c.x, c.y));
+        ctx.closePath();
+        ctx.globalAlpha = 0.3;
+        ctx.fillStyle = '#22d3ee';
+        ctx.fill();
+        ctx.globalAlpha = 1.0;
+        ctx.lineWidth = 4;
+        ctx.lineJoin = 'round';
+        ctx.strokeStyle = '#22d3ee';
+        ctx.stroke();
+
+        const centroid = {
+            x: corners.reduce((sum, c) => sum + c.x, 0) / corners.length,
+            y: corners.reduce((sum, c) => sum + c.y, 0) / corners.length,
+        };
+        ctx.font = 'bold 16px sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        corners.forEach((c, i) => {
+            // Side length just outside the middle of each side
+            const next = corners[(i + 1) % corners.length];
+            const mid = { x: (c.x + next.x) / 2, y: (c.y + next.y) / 2 };
+            const out = Math.hypot(mid.x - centroid.x, mid.y - centroid.y) || 1;
+            ctx.fillStyle = '#facc15';
+            ctx.fillText(label(oneDecimal(measured.sides[i])), mid.x + (mid.x - centroid.x) / out * 18, mid.y + (mid.y - centroid.y) / out * 18);
+
+            // Interior angle just inside each corner
+            const toCentre = Math.hypot(centroid.x - c.x, centroid.y - c.y) || 1;
+            ctx.fillStyle = 'white';
+            ctx.fillText(`${label(Math.round(measured.angles[i]))}°`, c.x + (centroid.x - c.x) / toCentre * 30, c.y + (centroid.y - c.y) / toCentre * 30);
+
+            ctx.beginPath();
+            ctx.arc(c.x, c.y, 7, 0, 2 * Math.PI);
+            ctx.fill();
+        });
+    }, []);
+
+    let shapeName: string | null = null;
+    if (shape?.vertices.length === 3) {
+        const { sides, angles } = classifyTriangle(shape.vertices, tolerances);
+        shapeName = triangleName(t, sides, angles);
+    } else if (shape?.vertices.length === 4) {
+        shapeName = t(`shape.quad.${classifyQuadrilateral(shape.vertices, tolerances)}`);
+    } else if (shape) {
+        shapeName = t('shape.polygon', { count: shape.vertices.length });
+    }
+
+    return (
+        <GameContainer
+            title={t('game.SHAPE_BUILDER')}
+            onBack={backToMenu}
+            onSkip={challengeMode ? newTarget : undefined}
+            difficulty={challengeMode ? difficulty : undefined}
+            // An open palm is part of the game here, not a pause gesture
+            gestureCommands={false}
+            onPauseChange={onPauseChange}>
+            <div className="w-full max-w-2xl text-center mb-4 p-4 bg-black bg-opacity-50 rounded-lg relative z-20">
+                <ChallengeModeToggle challenge={challengeMode} onChange={selectMode} />
+                {challengeMode ? (
+                    <div className="mb-2">
+                        <p className="text-2xl md:text-3xl font-orbitron font-bold text-green-300">
+                            {t('shape.make', { shape: shapeTargetName(t, target) })}
+                        </p>
+                        <p className="text-sm text-indigo-200">
+                            {t('common.secondsLeft', { seconds: secondsLeft })} · {t('common.score', { score })}
+                        </p>
+                        {holdProgress > 0 && (
+                            <div className="mt-2 mx-auto w-48">
+                                <p className="text-sm font-bold text-green-300">{t('common.hold')}</p>
+                                <div className="h-2 bg-gray-700 rounded-full overflow-hidden">
+                                    <div className="h-full bg-green-400" style={{ width: `${holdProgress * 100}%` }} />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                ) : (
+                    <p className="text-xl md:text-2xl text-indigo-200 mb-2">
+                        {t('shape.prompt')}
+                    </p>
+                )}
+                {shape ? (
+                    <div>
+                        <p className="text-3xl md:text-5xl font-orbitron font-bold text-cyan-300 mb-2 capitalize">{shapeName}</p>
+                        <p className="text-lg text-white">
+                            {t('shape.perimeter', { value: num(oneDecimal(shape.perimeter)) })} · {t('shape.area', { value: num(oneDecimal(shape.area)) })}
+                        </p>
+                    </div>
+                ) : (
+                    <p className="text-3xl font-orbitron text-gray-500 animate-pulse">{t('shape.showFingers')}</p>
+                )}
+            </div>
+            <CameraView onResults={onResults}>
+                <canvas ref={overlayCanvasRef} className="absolute inset-0 w-full h-full pointer-events-none" />
+                {feedback && (
+                    <div className="absolute inset-0 flex items-center justify-center pointer-events-none">
+                        <p className={`text-5xl font-orbitron font-bold text-glow ${feedback.color}`}>{feedback.message}</p>
+                    </div>
+                )}
+            </CameraView>
+        </GameContainer>
+    );
+};
+
+
+type CalibrationStep = 'reach' | 'open' | 'pinch' | 'done';
+
+const CALIBRATION_STEPS: Record<Exclude<CalibrationStep, 'done'>, { durationMs: number, instruction: MessageKey }> = {
+    reach: { durationMs: 6000, instruction: 'calibration.reach' },
+    open: { durationMs: 2000, instruction: 'calibration.open' },
+    pinch: { durationMs: 2000, instruction: 'calibration.pinch' },
+};
+
+const median = (values: number[]) => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return sorted[Math.floor(sorted.length / 2)];
+};
+
+const CalibrationWizard = ({ profileId, ownerName, onSave, backToMenu }: {
+    profileId: string,
+    // Set when the calibration belongs to a student, who cannot rename it
+    ownerName?: string,
+    onSave: (profileId: string, calibration: Calibration) => void,
+    backToMenu: () => void,
+}) => {
+    const [step, setStep] = useState<CalibrationStep>('reach');
+    const [progress, setProgress] = useState(0);
+    const [message, setMessage] = useState<string | null>(null);
+    const [cursor, setCursor] = useState<{ x: number, y: number } | null>(null);
+    const [reachPreview, setReachPreview] = useState<Calibration['reach'] | null>(null);
+    const [result, setResult] = useState<Calibration>(DEFAULT_CALIBRATION);
+    const [name, setName] = useState(profileId);
+    const { t, num } = useTranslation();
+
+    // Samples live in a ref because they arrive every frame
+    const captureRef = useRef({ step: 'reach' as CalibrationStep, startedAt: null as number | null, points: [] as { x: number, y: number }[], ratios: [] as number[], openRatio: 0, result: DEFAULT_CALIBRATION });
+
+    const restartStep = (next: CalibrationStep, note: string | null = null) => {
+        captureRef.current = { ...captureRef.current, step: next, startedAt: null, points: [], ratios: [] };
+        setStep(next);
+        setProgress(0);
+        setMessage(note);
+        if (next === 'reach') setReachPreview(null);
+    };
+
+    const finishStep = () => {
+        const capture = captureRef.current;
+        if (capture.step === 'reach') {
+            const reach = reachFromSamples(capture.points);
+            if (!reach) {
+                restartStep('reach', t('calibration.tooSmall'));
+                return;
+            }
+            capture.result = { ...capture.result, reach };
+            restartStep('open');
+        } else if (capture.step === 'open') {
+            capture.openRatio = median(capture.ratios);
+            restartStep('pinch');
+        } else if (capture.step === 'pinch') {
+            const thresholds = pinchThresholdsFromSamples(capture.openRatio, median(capture.ratios));
+            if (!thresholds) {
+                restartStep('open', t('calibration.noDifference'));
+                return;
+            }
+            capture.result = { ...capture.result, ...thresholds };
+            setResult(capture.result);
+            restartStep('done');
+        }
+    };
+
+    const onResults = (results: Results) => {
+        const capture = captureRef.current;
+        const hand = results.multiHandLandmarks?.[0];
+        if (!hand) {
+            setCursor(null);
+            return;
+        }
+        // The wizard measures raw reach, so it always maps without calibration
+        const tip = mapToPlayArea(hand[8], DEFAULT_CALIBRATION);
+        setCursor(tip);
+        if (capture.step === 'done') return;
+
+        const now = performance.now();
+        if (capture.startedAt === null) capture.startedAt = now;
+
+        if (capture.step === 'reach') {
+            capture.points.push(tip);
+            setReachPreview(reachFromSamples(capture.points, 0));
+        } else {
+            capture.ratios.push(getPinchRatio(hand));
+        }
+
+        const elapsed = now - capture.startedAt;
+        const duration = CALIBRATION_STEPS[capture.step].durationMs;
+        setProgress(Math.min(1, elapsed / duration));
+        if (elapsed >= duration) finishStep();
+    };
+
+    return (
+        <GameContainer title={t('game.CALIBRATION')} onBack={backToMenu} gestureCommands={false} pausable={false}>
+            <div className="w-full max-w-2xl text-center mb-4 p-4 bg-black bg-opacity-50 rounded-lg">
+                {step === 'done' ? (
+                    <div className="flex flex-col items-center gap-3">
+                        <p className="text-2xl font-orbitron text-green-400">{t('calibration.done')}</p>
+                        <p className="text-sm text-gray-300">
+                            {t('calibration.summary', {
+                                width: Math.round((result.reach.maxX - result.reach.minX) * 100),
+                                height: Math.round((result.reach.maxY - result.reach.minY) * 100),
+                                enter: num(result.pinchEnterRatio.toFixed(2)),
+                                exit: num(result.pinchExitRatio.toFixed(2)),
+                            })}
+                        </p>
+                        <div className="flex items-center gap-2">
+                            {ownerName ? (
+                                <span className="text-gray-300">{t('calibration.for', { name: ownerName })}</span>
+                            ) : (
+                                <input
+                                    value={name}
+                                    onChange={e => setName(e.target.value)}
+                                    className="bg-gray-800 border border-gray-600 rounded px-3 py-1"
+                                    placeholder={t('calibration.playerName')}
+                                />
+                            )}
+                            <button
+                                onClick={() => onSave(ownerName ? profileId : name.trim() || profileId, result)}
+                                className="bg-green-600 hover:bg-green-700 font-bold py-1 px-4 rounded-full">
+                                {t('common.save')}
+                            </button>
+                            <button onClick={() => restartStep('reach')} className="text-sm text-gray-300 underline">
+                                {t('calibration.redo')}
+                            </button>
+                        </div>
+                    </div>
+                ) : (
+                    <>
+                        <p className="text-xl md:text-2xl text-cyan-300">{t(CALIBRATION_STEPS[step].instruction)}</p>
+                        {message && <p className="mt-2 text-yellow-300">{message}</p>}
+                        <div className="mt-3 h-2 bg-gray-700 rounded-full overflow-hidden">
+                            <div className="h-full bg-cyan-400 transition-all duration-100" style={{ width: `${progress * 100}%` }}></div>
+                        </div>
+                    </>
+                )}
+            </div>
+            <CameraView onResults={onResults}>
+                {reachPreview && (
+                    <div
+                        className="absolute border-4 border-dashed border-green-400 bg-green-400 bg-opacity-10 rounded-lg pointer-events-none"
+                        style={{
+                            left: `${reachPreview.minX * 100}%`,
+                            top: `${reachPreview.minY * 100}%`,
+                            width: `${(reachPreview.maxX - reachPreview.minX) * 100}%`,
+                            height: `${(reachPreview.maxY - reachPreview.minY) * 100}%`,
+                        }}
+                    ></div>
+                )}
+                {cursor && <div className="absolute w-6 h-6 bg-cyan-400 rounded-full border-2 border-white -translate-x-1/2 -translate-y-1/2 pointer-events-none" style={{ left: `${cursor.x * 100}%`, top: `${cursor.y * 100}%` }}></div>}
             </CameraView>
         </GameContainer>
     );
 };
 
+const RecordingViewer = ({ name, recording, backToMenu }: { name: string, recording: HandRecording, backToMenu: () => void }) => {
+    const canvasRef = useRef<HTMLCanvasElement>(null);
+    const [frameIndex, setFrameIndex] = useState(0);
+    const [playing, setPlaying] = useState(false);
+    const frames = recording.frames;
+    const frame = frames[frameIndex];
+    const { t, num } = useTranslation();
+
+    useEffect(() => {
+        const ctx = canvasRef.current?.getContext('2d');
+        if (ctx && frame) drawHandResults(ctx, frame);
+    }, [frame]);
+
+    useEffect(() => {
+        if (!playing) return;
+        if (frameIndex >= frames.length - 1) {
+            setPlaying(false);
+            return;
+        }
+        const delay = frames[frameIndex + 1].timestamp - frames[frameIndex].timestamp;
+        const timer = setTimeout(() => setFrameIndex(i => i + 1), Math.max(0, delay));
+        return () => clearTimeout(timer);
+    }, [playing, frameIndex, frames]);
+
+    return (
+        <GameContainer title={t('viewer.title')} onBack={backToMenu} gestureCommands={false} pausable={false}>
+            <div className="w-full max-w-5xl mb-4 p-4 bg-black bg-opacity-50 rounded-lg flex flex-wrap items-center gap-4">
+                <button
+                    onClick={() => {
+                        if (frameIndex >= frames.length - 1) setFrameIndex(0);
+                        setPlaying(p => !p);
+                    }}
+                    className="bg-cyan-600 hover:bg-cyan-700 font-bold py-1 px-4 rounded-full">
+                    {playing ? t('common.pause') : t('viewer.play')}
+                </button>
+                <input
+                    type="range"
+                    min={0}
+                    max={Math.max(0, frames.length - 1)}
+                    value={frameIndex}
+                    onChange={e => {
+                        setPlaying(false);
+                        setFrameIndex(Number(e.target.value));
+                    }}
+                    className="flex-1"
+                />
+                <span className="font-orbitron text-sm">
+                    {t('viewer.position', { frame: frameIndex + 1, total: frames.length, seconds: num(((frame?.timestamp ?? 0) / 1000).toFixed(2)) })}
+                </span>
+                <button onClick={() => downloadHandRecording(recording)} className="bg-indigo-600 hover:bg-indigo-700 font-bold py-1 px-4 rounded-full">
+                    {t('common.export')}
+                </button>
+            </div>
+            <div className="relative w-full max-w-5xl mx-auto aspect-video rounded-2xl overflow-hidden shadow-2xl shadow-indigo-500/40 bg-black">
+                <canvas ref={canvasRef} width={640} height={480} className="absolute inset-0 w-full h-full"></canvas>
+                <div className="absolute top-2 left-2 bg-black bg-opacity-60 rounded-lg p-3 text-sm space-y-1">
+                    <p className="font-orbitron text-yellow-300">{name}</p>
+                    {recording.note && <p className="text-gray-400">{t('viewer.source', { note: recording.note })}</p>}
+                    {frame && frame.multiHandLandmarks.length === 0 && <p className="text-gray-400">{t('viewer.noHands')}</p>}
+                    {frame?.multiHandLandmarks.map((landmarks, i) => {
+                        const label = frame.multiHandedness[i]?.label;
+                        const fingers = getFingerStates(landmarks, label);
+                        const shown = (Object.keys(fingers.extended) as FingerName[]).filter(f => fingers.extended[f]);
+                        return (
+                            <p key={i}>
+                                {label === 'Left' || label === 'Right' ? t(`hand.${label}`) : '?'} ({num((frame.multiHandedness[i]?.score ?? 0).toFixed(2))}):
+                                {' '}{t('viewer.fingers', { count: fingers.count })}{shown.length > 0 ? ` [${shown.map(f => t(`finger.${f}`)).join(', ')}]` : ''}
+                                {isPinching(landmarks) ? t('viewer.pinching') : ''}
+                            </p>
+                        );
+                    })}
+                </div>
+            </div>
+        </GameContainer>
+    );
+};
+
+// How long the cursor must rest on a target to select it when dwell selection is on
+const DWELL_SELECT_MS = 1500;
+
+const InputSourcePicker = ({ inputKind, onSelectInput, smoothing, onSelectSmoothing, recording, onLoadRecording, onViewRecording, onExportRecording, dwellMs, onSelectDwell, calibrationProfiles, calibrationProfile, calibrationOwner, onSelectCalibrationProfile, onCalibrate, difficultyLevel, onSelectDifficultyLevel, adaptive, onToggleAdaptive, lessonPack, onLoadLesson, onClearLesson }: {
+    inputKind: InputSourceKind,
+    onSelectInput: (kind: InputSourceKind) => void,
+    smoothing: SmoothingLevel,
+    onSelectSmoothing: (level: SmoothingLevel) => void,
+    recording: { name: string, data: HandRecording } | null,
+    onLoadRecording: (file: File) => void,
+    onViewRecording: () => void,
+    onExportRecording: () => void,
+    dwellMs: number,
+    onSelectDwell: (dwellMs: number) => void,
+    calibrationProfiles: string[],
+    calibrationProfile: string,
+    // A signed-in student always uses their own calibration
+    calibrationOwner: string | null,
+    onSelectCalibrationProfile: (profileId: string) => void,
+    onCalibrate: () => void,
+    difficultyLevel: number,
+    onSelectDifficultyLevel: (level: number) => void,
+    adaptive: boolean,
+    onToggleAdaptive: (adaptive: boolean) => void,
+    lessonPack: LessonPack | null,
+    onLoadLesson: (file: File) => void,
+    onClearLesson: () => void,
+}) => {
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const lessonInputRef = useRef<HTMLInputElement>(null);
+    const { t, tOr, num } = useTranslation();
+    const options: { kind: InputSourceKind, label: string }[] = [
+        { kind: 'camera', label: t('input.camera') },
+        { kind: 'pointer', label: t('input.pointer') },
+        { kind: 'demo', label: t('input.demoHands') },
+        { kind: 'replay', label: recording ? t('input.replayNamed', { name: recording.name }) : t('input.loadRecording') },
+    ];
+
+    const smoothingLevels: SmoothingLevel[] = ['off', 'low', 'high'];
+
+    return (
+        <div className="mb-8 flex flex-col items-center gap-3">
+            <div className="flex flex-wrap items-center justify-center gap-3">
+                <span className="text-indigo-200 font-semibold">{t('settings.input')}</span>
+                {options.map(opt => (
+                    <button
+                        key={opt.kind}
+                        onClick={() => {
+                            if (opt.kind === 'replay' && !recording) {
+                                fileInputRef.current?.click();
+                            } else {
+                                onSelectInput(opt.kind);
+                            }
+                        }}
+                        className={`py-1 px-4 rounded-full text-sm font-bold transition-colors ${inputKind === opt.kind ? 'bg-white text-indigo-900' : 'bg-indigo-800 hover:bg-indigo-700 text-white'}`}>
+                        {opt.label}
+                    </button>
+                ))}
+                {recording && (
+                    <>
+                        <button onClick={onViewRecording} className="text-sm text-indigo-300 underline">{t('common.view')}</button>
+                        <button onClick={onExportRecording} className="text-sm text-indigo-300 underline">{t('common.export')}</button>
+                        <button onClick={() => fileInputRef.current?.click()} className="text-sm text-indigo-300 underline">{t('common.import')}</button>
+                    </>
+                )}
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    accept={`${HAND_RECORDING_EXTENSION},.jsonl,.json`}
+                    className="hidden"
+                    onChange={e => {
+                        const file = e.target.files?.[0];
+                        if (file) onLoadRecording(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+            <div className="flex items-center gap-3">
+                <span className="text-indigo-200 font-semibold">{t('settings.smoothing')}</span>
+                {smoothingLevels.map(level => (
+                    <button
+                        key={level}
+                        onClick={() => onSelectSmoothing(level)}
+                        className={`py-1 px-4 rounded-full text-sm font-bold transition-colors ${smoothing === level ? 'bg-white text-indigo-900' : 'bg-indigo-800 hover:bg-indigo-700 text-white'}`}>
+                        {t(`smoothing.${level}`)}
+                    </button>
+                ))}
+            </div>
+            <div className="flex items-center gap-3">
+                <span className="text-indigo-200 font-semibold">{t('settings.selectBy')}</span>
+                {[{ ms: 0, label: t('settings.pinch') }, { ms: DWELL_SELECT_MS, label: t('settings.pinchOrHold') }].map(opt => (
+                    <button
+                        key={opt.ms}
+                        onClick={() => onSelectDwell(opt.ms)}
+                        className={`py-1 px-4 rounded-full text-sm font-bold transition-colors ${dwellMs === opt.ms ? 'bg-white text-indigo-900' : 'bg-indigo-800 hover:bg-indigo-700 text-white'}`}>
+                        {opt.label}
+                    </button>
+                ))}
+            </div>
+            <div className="flex items-center gap-3">
+                <span className="text-indigo-200 font-semibold">{t('settings.calibration')}</span>
+                {calibrationOwner ? (
+                    <span className="py-1 px-4 rounded-full text-sm font-bold bg-white text-indigo-900">{calibrationOwner}</span>
+                ) : (
+                    <select
+                        value={calibrationProfile}
+                        onChange={e => onSelectCalibrationProfile(e.target.value)}
+                        className="bg-indigo-800 text-white text-sm font-bold rounded-full py-1 px-3">
+                        {calibrationProfiles.map(profile => <option key={profile} value={profile}>{profile}</option>)}
+                    </select>
+                )}
+                <button onClick={onCalibrate} className="py-1 px-4 rounded-full text-sm font-bold bg-indigo-800 hover:bg-indigo-700 text-white">
+                    {t('settings.calibrate')}
+                </button>
+            </div>
+            <div className="flex flex-wrap items-center justify-center gap-3">
+                <span className="text-indigo-200 font-semibold">{t('settings.difficulty')}</span>
+                {DIFFICULTY_LEVELS.map(profile => (
+                    <button
+                        key={profile.level}
+                        onClick={() => onSelectDifficultyLevel(profile.level)}
+                        title={tOr(`difficulty.level${profile.level}`, profile.label)}
+                        className={`w-8 h-8 rounded-full text-sm font-bold transition-colors ${difficultyLevel === profile.level ? 'bg-white text-indigo-900' : 'bg-indigo-800 hover:bg-indigo-700 text-white'}`}>
+                        {num(profile.level)}
+                    </button>
+                ))}
+                <label className="flex items-center gap-2 text-sm font-bold text-white">
+                    <input type="checkbox" checked={adaptive} onChange={e => onToggleAdaptive(e.target.checked)} />
+                    {t('settings.adaptive')}
+                </label>
+            </div>
+            <div className="flex flex-wrap items-center justify-center gap-3">
+                <span className="text-indigo-200 font-semibold">{t('settings.lesson')}</span>
+                {lessonPack ? (
+                    <>
+                        <span className="py-1 px-4 rounded-full text-sm font-bold bg-white text-indigo-900" title={lessonPack.description}>{lessonPack.title}</span>
+                        <button onClick={onClearLesson} className="text-sm text-indigo-300 underline">{t('common.clear')}</button>
+                    </>
+                ) : (
+                    <button onClick={() => lessonInputRef.current?.click()} className="py-1 px-4 rounded-full text-sm font-bold bg-indigo-800 hover:bg-indigo-700 text-white">
+                        {t('settings.loadLesson')}
+                    </button>
+                )}
+                <input
+                    ref={lessonInputRef}
+                    type="file"
+                    accept=".json"
+                    className="hidden"
+                    onChange={e => {
+                        const file = e.target.files?.[0];
+                        if (file) onLoadLesson(file);
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+        </div>
+    );
+};
+
+const GAME_CARDS: { mode: GameMode, title: MessageKey, className: string }[] = [
+    { mode: GameMode.ARITHMETIC, title: 'game.ARITHMETIC', className: 'bg-cyan-500 hover:bg-cyan-600 shadow-cyan-500/50' },
+    { mode: GameMode.NUMBER_PICKER, title: 'game.NUMBER_PICKER', className: 'bg-purple-600 hover:bg-purple-700 shadow-purple-500/50' },
+    { mode: GameMode.MATH_PUZZLE, title: 'game.MATH_PUZZLE', className: 'bg-yellow-500 hover:bg-yellow-600 shadow-yellow-500/50' },
+    { mode: GameMode.RIGHT_BOX, title: 'game.RIGHT_BOX', className: 'bg-green-500 hover:bg-green-600 shadow-green-500/50' },
+    { mode: GameMode.ANGLE_MAGIC, title: 'game.ANGLE_MAGIC', className: 'bg-pink-500 hover:bg-pink-600 shadow-pink-500/50' },
+    { mode: GameMode.SHAPE_BUILDER, title: 'game.SHAPE_BUILDER', className: 'bg-orange-500 hover:bg-orange-600 shadow-orange-500/50' },
+];
+
+// Progress files are what teachers collect from each device for the dashboard
+const exportProgress = (students: StudentProfile[], name: string) => {
+    downloadTextFile(serializeProgress(students), `${reportFileStem(name)}${PROGRESS_FILE_EXTENSION}`, 'application/json');
+};
+
+// Shown on launch: shared classroom devices keep several students on one machine
+const StudentPicker = ({ students, onPick, onCreate, onDelete, onGuest, onTeacherDashboard }: {
+    students: StudentProfile[],
+    onPick: (studentId: string) => void,
+    onCreate: (name: string) => void,
+    onDelete: (studentId: string) => void,
+    onGuest: () => void,
+    onTeacherDashboard: () => void,
+}) => {
+    const [name, setName] = useState('');
+    const { t } = useTranslation();
+    const nameTaken = students.some(s => s.name.toLowerCase() === name.trim().toLowerCase());
+
+    const create = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!name.trim() || nameTaken) return;
+        onCreate(name);
+        setName('');
+    };
+
+    return (
+        <div className="min-h-screen w-full flex flex-col items-center justify-center p-4 bg-gradient-to-b from-gray-900 to-indigo-900 relative">
+            <LanguageSwitcher />
+            <h1 className="font-orbitron text-5xl md:text-7xl font-black mb-4 text-glow tracking-widest text-center">
+                MATHIVERSE
+            </h1>
+            <p className="text-xl text-indigo-200 mb-8">{t('students.who')}</p>
+            <div className="flex flex-wrap justify-center gap-4 max-w-4xl mb-8">
+                {students.map(student => (
+                    <div key={student.id} className="relative group">
+                        <button
+                            onClick={() => onPick(student.id)}
+                            className="bg-indigo-600 hover:bg-indigo-500 text-white font-bold text-xl py-4 px-8 rounded-lg transition-transform transform hover:scale-105 shadow-lg font-orbitron">
+                            {student.name}
+                        </button>
+                        <button
+                            onClick={() => {
+                                if (confirm(t('students.deleteConfirm', { name: student.name }))) onDelete(student.id);
+                            }}
+                            title={t('students.delete', { name: student.name })}
+                            className="absolute -top-2 -right-2 w-6 h-6 rounded-full bg-red-600 text-white text-xs font-bold opacity-0 group-hover:opacity-100 transition-opacity">
+                            ✕
+                        </button>
+                    </div>
+                ))}
+            </div>
+            <form onSubmit={create} className="flex items-center gap-2 mb-4">
+                <input
+                    value={name}
+                    onChange={e => setName(e.target.value)}
+                    className="bg-gray-800 border border-gray-600 rounded-full px-4 py-2"
+                    placeholder={t('students.newName')}
+                    maxLength={30}
+                />
+                <button type="submit" disabled={!name.trim() || nameTaken} className="bg-green-600 hover:bg-green-700 disabled:opacity-50 font-bold py-2 px-6 rounded-full">
+                    {t('students.add')}
+                </button>
+            </form>
+            {nameTaken && <p className="text-yellow-300 text-sm mb-4">{t('students.nameTaken')}</p>}
+            <button onClick={onGuest} className="text-indigo-300 underline">{t('students.guest')}</button>
+            <div className="mt-10 flex gap-6 text-sm">
+                {students.length > 0 && (
+                    <button onClick={() => exportProgress(students, 'all-students')} className="text-indigo-300 underline">
+                        {t('students.exportAll')}
+                    </button>
+                )}
+                <button onClick={onTeacherDashboard} className="text-indigo-300 underline">{t('students.teacherDashboard')}</button>
+            </div>
+        </div>
+    );
+};
+
+const MASTERY_COLORS: Record<'learning' | 'practising' | 'mastered', string> = {
+    learning: 'bg-red-400',
+    practising: 'bg-yellow-400',
+    mastered: 'bg-green-400',
+};
+
+// Report files stay in English so they read the same whoever exported them
+const GAME_LABELS: Partial<Record<GameMode, string>> = Object.fromEntries(GAME_CARDS.map(card => [card.mode, translate('en', card.title)]));
+
+// CSV and printable report of this session's attempts, or of the whole profile
+const ReportExport = ({ studentName, sessionAttempts, allAttempts }: { studentName: string, sessionAttempts: AttemptRecord[], allAttempts?: AttemptRecord[] }) => {
+    const [scope, setScope] = useState<'session' | 'all'>('session');
+    const attempts = scope === 'all' && allAttempts ? allAttempts : sessionAttempts;
+    const scopeLabel = scope === 'all' ? 'All time' : 'This session';
+    const { t } = useTranslation();
+
+    return (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+            <span className="text-indigo-200 font-semibold">{t('report.label')}</span>
+            {allAttempts && (['session', 'all'] as const).map(option => (
+                <button
+                    key={option}
+                    onClick={() => setScope(option)}
+                    className={`py-0.5 px-3 rounded-full font-bold ${scope === option ? 'bg-white text-indigo-900' : 'bg-indigo-800 hover:bg-indigo-700 text-white'}`}>
+                    {t(option === 'all' ? 'report.all' : 'report.session')}
+                </button>
+            ))}
+            <span className="text-indigo-300">{t('progress.attempts', { count: attempts.length })}</span>
+            <button
+                disabled={attempts.length === 0}
+                onClick={() => downloadTextFile(attemptsToCsv(studentName, attempts), `${reportFileStem(studentName)}.csv`, 'text/csv')}
+                className="text-indigo-300 underline disabled:opacity-50">
+                {t('report.csv')}
+            </button>
+            <button
+                disabled={attempts.length === 0}
+                onClick={() => openHtmlReport(buildHtmlReport({ studentName, scope: scopeLabel, attempts, gameLabels: GAME_LABELS }))}
+                className="text-indigo-300 underline disabled:opacity-50">
+                {t('report.printable')}
+            </button>
+        </div>
+    );
+};
+
+const StudentProgress = ({ student, sessionAttempts, onSwitch }: { student: StudentProfile | null, sessionAttempts: AttemptRecord[], onSwitch: () => void }) => {
+    const { t, tOr, num } = useTranslation();
+    if (!student) {
+        return (
+            <div className="mb-6 flex flex-col items-center gap-2">
+                <p className="text-indigo-200">
+                    {t('progress.guest')} · <button onClick={onSwitch} className="underline">{t('progress.choose')}</button>
+                </p>
+                {sessionAttempts.length > 0 && <ReportExport studentName="Guest" sessionAttempts={sessionAttempts} />}
+            </div>
+        );
+    }
+
+    const mastery = getSkillMastery(student.attempts);
+    const scoredGames = GAME_CARDS.filter(card => student.bestScores[card.mode] !== undefined);
+
+    return (
+        <div className="mb-6 w-full max-w-3xl bg-black bg-opacity-30 rounded-lg p-4">
+            <div className="flex items-center justify-between mb-3">
+                <p className="font-orbitron text-2xl font-bold">{student.name}</p>
+                <div className="flex gap-4">
+                    <button onClick={() => exportProgress([student], student.name)} className="text-sm text-indigo-300 underline">{t('progress.export')}</button>
+                    <button onClick={onSwitch} className="text-sm text-indigo-300 underline">{t('progress.switch')}</button>
+                </div>
+            </div>
+            {scoredGames.length === 0 && mastery.length === 0 ? (
+                <p className="text-indigo-200">{t('progress.none')}</p>
+            ) : (
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                        <p className="text-sm font-semibold text-indigo-200 mb-1">{t('progress.bestScores')}</p>
+                        {scoredGames.map(card => (
+                            <p key={card.mode} className="text-sm flex justify-between">
+                                <span>{t(card.title)}</span>
+                                <span className="font-bold">{num(student.bestScores[card.mode]!)}</span>
+                            </p>
+                        ))}
+                    </div>
+                    <div>
+                        <p className="text-sm font-semibold text-indigo-200 mb-1">{t('progress.skills')}</p>
+                        {mastery.map(skill => (
+                            <div key={skill.skill} className="text-sm mb-1" title={t('progress.attempts', { count: skill.attempts })}>
+                                <div className="flex justify-between">
+                                    <span>{tOr(`skill.${skill.skill}`, skill.label)}</span>
+                                    <span>{t(`mastery.${skill.status}`)} · {num(Math.round(skill.accuracy * 100))}%</span>
+                                </div>
+                                <div className="h-1.5 bg-gray-700 rounded-full overflow-hidden">
+                                    <div className={`h-full ${MASTERY_COLORS[skill.status]}`} style={{ width: `${skill.accuracy * 100}%` }}></div>
+                                </div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+            <div className="mt-3">
+                <ReportExport studentName={student.name} sessionAttempts={sessionAttempts} allAttempts={student.attempts} />
+            </div>
+        </div>
+    );
+};
+
+/**
+ * Class overview built from imported progress files: one row per student, one column per skill,
+ * with a drill-down into a student's attempts. Nothing leaves the browser.
+ */
+const TeacherDashboard = ({ onBack }: { onBack: () => void }) => {
+    const [students, setStudents] = useState<StudentProfile[]>([]);
+    const [fileNames, setFileNames] = useState<string[]>([]);
+    const [errors, setErrors] = useState<string[]>([]);
+    const [game, setGame] = useState<GameMode | null>(null);
+    const [selected, setSelected] = useState<{ name: string, skill: string | null } | null>(null);
+    const fileInputRef = useRef<HTMLInputElement>(null);
+    const { locale, t, tOr, num } = useTranslation();
+    const gameTitle = (mode: GameMode) => {
+        const card = GAME_CARDS.find(c => c.mode === mode);
+        return card ? t(card.title) : mode;
+    };
+
+    const importFiles = async (files: File[]) => {
+        const imported: StudentProfile[] = [];
+        const loaded: string[] = [];
+        const problems: string[] = [];
+        for (const file of files) {
+            try {
+                imported.push(...parseProgressFile(await file.text()));
+                loaded.push(file.name);
+            } catch (err) {
+                problems.push(`${file.name}: ${(err as Error).message}`);
+            }
+        }
+        setStudents(prev => mergeStudents([...prev, ...imported]));
+        setFileNames(prev => [...prev, ...loaded]);
+        setErrors(problems);
+    };
+
+    const grid = useMemo(() => buildClassGrid(students, game), [students, game]);
+    const selectedStudent = selected ? students.find(s => s.name === selected.name) : undefined;
+    const timeline = selectedStudent
+        ? selectedStudent.attempts.filter(a => (!game || a.game === game) && (!selected?.skill || a.skill === selected.skill))
+        : [];
+
+    return (
+        <div className="min-h-screen w-full flex flex-col items-center p-4 pt-16 bg-gradient-to-b from-gray-900 to-indigo-900 relative">
+            <button
+                onClick={onBack}
+                className="absolute top-4 left-4 bg-blue-600 hover:bg-blue-700 text-white font-bold py-2 px-4 rounded-full transition-transform transform hover:scale-105 shadow-lg shadow-blue-500/50 z-50">
+                &larr; {t('dashboard.back')}
+            </button>
+            <LanguageSwitcher />
+            <h1 className="font-orbitron text-4xl md:text-5xl font-bold mb-4 text-glow">{t('dashboard.title')}</h1>
+            <div className="flex flex-wrap items-center justify-center gap-3 mb-2">
+                <button onClick={() => fileInputRef.current?.click()} className="bg-green-600 hover:bg-green-700 font-bold py-2 px-6 rounded-full">
+                    {t('dashboard.import')}
+                </button>
+                {students.length > 0 && (
+                    <>
+                        <select
+                            value={game ?? ''}
+                            onChange={e => setGame(e.target.value ? e.target.value as GameMode : null)}
+                            className="bg-indigo-800 text-white text-sm font-bold rounded-full py-2 px-3">
+                            <option value="">{t('dashboard.allGames')}</option>
+                            {GAME_CARDS.map(card => <option key={card.mode} value={card.mode}>{t(card.title)}</option>)}
+                        </select>
+                        <button
+                            onClick={() => {
+                                setStudents([]);
+                                setFileNames([]);
+                                setSelected(null);
+                            }}
+                            className="text-sm text-indigo-300 underline">
+                            {t('common.clear')}
+                        </button>
+                    </>
+                )}
+                <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    accept={`${PROGRESS_FILE_EXTENSION},.json`}
+                    className="hidden"
+                    onChange={e => {
+                        if (e.target.files) importFiles(Array.from(e.target.files));
+                        e.target.value = '';
+                    }}
+                />
+            </div>
+            <p className="text-sm text-indigo-200 mb-4">
+                {fileNames.length > 0
+                    ? t('dashboard.summary', { students: students.length, files: fileNames.length })
+                    : t('dashboard.help', { extension: PROGRESS_FILE_EXTENSION })}
+            </p>
+            {errors.map(error => <p key={error} className="text-sm text-red-400">{error}</p>)}
+
+            {students.length > 0 && (
+                <div className="w-full max-w-6xl overflow-x-auto bg-black bg-opacity-30 rounded-lg p-2">
+                    <table className="w-full text-sm">
+                        <thead>
+                            <tr>
+                                <th className="text-left p-2">{t('dashboard.student')}</th>
+                                {grid.skills.map(skill => <th key={skill} className="p-2 font-semibold text-indigo-200">{tOr(`skill.${skill}`, SKILLS[skill])}</th>)}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {grid.rows.map(row => (
+                                <tr key={row.student.name} className={selected?.name === row.student.name ? 'bg-white bg-opacity-10' : ''}>
+                                    <td className="p-2">
+                                        <button onClick={() => setSelected({ name: row.student.name, skill: null })} className="font-bold underline">
+                                            {row.student.name}
+                                        </button>
+                                    </td>
+                                    {grid.skills.map(skill => {
+                                        const mastery = row.skills[skill];
+                                        return (
+                                            <td key={skill} className="p-1 text-center">
+                                                {mastery ? (
+                                                    <button
+                                                        onClick={() => setSelected({ name: row.student.name, skill })}
+                                                        title={`${t('progress.attempts', { count: mastery.attempts })} · ${t(`mastery.${mastery.status}`)}`}
+                                                        className={`w-full rounded py-1 font-bold text-gray-900 ${MASTERY_COLORS[mastery.status]} ${selected?.name === row.student.name && selected.skill === skill ? 'ring-2 ring-white' : ''}`}>
+                                                        {num(Math.round(mastery.accuracy * 100))}%
+                                                    </button>
+                                                ) : (
+                                                    <span className="text-gray-600">–</span>
+                                                )}
+                                            </td>
+                                        );
+                                    })}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <p className="mt-2 text-xs text-gray-400">{t('dashboard.legend')}</p>
+                </div>
+            )}
+
+            {selectedStudent && (
+                <div className="w-full max-w-6xl mt-6 bg-black bg-opacity-30 rounded-lg p-4">
+                    <div className="flex items-center justify-between mb-2">
+                        <p className="font-orbitron text-xl font-bold">
+                            {selectedStudent.name}{selected?.skill ? ` · ${tOr(`skill.${selected.skill}`, SKILLS[selected.skill])}` : ''}
+                        </p>
+                        <button onClick={() => setSelected(null)} className="text-sm text-indigo-300 underline">{t('common.close')}</button>
+                    </div>
+                    <div className="flex flex-wrap gap-0.5 mb-3">
+                        {timeline.map((a, i) => (
+                            <div key={i} title={`${num(a.problem)} → ${num(a.answer)}`} className={`w-3 h-3 rounded-sm ${a.correct ? 'bg-green-400' : 'bg-red-400'}`}></div>
+                        ))}
+                    </div>
+                    <div className="max-h-80 overflow-y-auto">
+                        <table className="w-full text-sm">
+                            <thead>
+                                <tr className="text-left text-indigo-200">
+                                    <th className="p-1">{t('dashboard.time')}</th><th className="p-1">{t('dashboard.game')}</th><th className="p-1">{t('dashboard.problem')}</th><th className="p-1">{t('dashboard.answer')}</th><th className="p-1"></th><th className="p-1">{t('dashboard.response')}</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {[...timeline].reverse().map((a, i) => (
+                                    <tr key={i} className="border-t border-gray-700">
+                                        <td className="p-1">{num(new Date(a.at).toLocaleString(locale))}</td>
+                                        <td className="p-1">{gameTitle(a.game)}</td>
+                                        <td className="p-1">{num(a.problem)}</td>
+                                        <td className="p-1">{num(a.answer)}</td>
+                                        <td className={`p-1 font-bold ${a.correct ? 'text-green-400' : 'text-red-400'}`}>{a.correct ? '✓' : '✗'}</td>
+                                        <td className="p-1">{t('common.seconds', { seconds: num((a.timeMs / 1000).toFixed(1)) })}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+const GameSelector = ({ onSelectGame, inputPicker, studentPanel, dailyChallenge, onToggleDailyChallenge }: {
+    onSelectGame: (mode: GameMode) => void,
+    inputPicker: React.ReactNode,
+    studentPanel: React.ReactNode,
+    dailyChallenge: boolean,
+    onToggleDailyChallenge: (on: boolean) => void,
+}) => {
+    // The card a hands-free player has swiped to; thumbs-up opens it
+    const [focused, setFocused] = useState(0);
+    const { t, num } = useTranslation();
+
+    const onCommand = useCallback((command: ScreenCommand) => {
+        if (command === 'swipe-right') setFocused(i => (i + 1) % GAME_CARDS.length);
+        else if (command === 'swipe-left') setFocused(i => (i - 1 + GAME_CARDS.length) % GAME_CARDS.length);
+        else if (command === 'confirm') onSelectGame(GAME_CARDS[focused].mode);
+    }, [focused, onSelectGame]);
+
+    const commands = useMemo(() => ({ paused: false, gestures: true, canSkip: false, onCommand }), [onCommand]);
 
-const GameSelector = ({ onSelectGame }: { onSelectGame: (mode: GameMode) => void }) => {
     return (
         <div className="min-h-screen w-full flex flex-col items-center justify-center p-4 bg-gradient-to-b from-gray-900 to-indigo-900 relative">
              <a
                 href="https://mathiverse-alpha.vercel.app/"
                 className="absolute top-4 left-4 bg-gray-700 hover:bg-gray-600 text-white font-bold py-2 px-4 rounded-full transition-transform transform hover:scale-105 shadow-lg z-50 flex items-center gap-2">
-                <span>&larr;</span> Back
+                <span>&larr;</span> {t('common.back')}
             </a>
+            <LanguageSwitcher />
             <h1 className="font-orbitron text-5xl md:text-7xl font-black mb-4 text-glow tracking-widest text-center">
                 MATHIVERSE
             </h1>
-            <p className="text-xl text-indigo-200 mb-12 max-w-2xl text-center">
-                An AI-powered math playground. Use your hands to interact with numbers and solve challenges in a whole new way!
+            <p className="text-xl text-indigo-200 mb-8 max-w-2xl text-center">
+                {t('menu.tagline')}
             </p>
+            {studentPanel}
+            {inputPicker}
+            <button
+                onClick={() => onToggleDailyChallenge(!dailyChallenge)}
+                className={`mb-6 py-2 px-6 rounded-full font-bold transition-colors ${dailyChallenge ? 'bg-yellow-400 text-gray-900' : 'bg-indigo-800 hover:bg-indigo-700 text-white'}`}>
+                {t('challenge.toggle', { date: num(dailySeed()), state: t(dailyChallenge ? 'common.on' : 'common.off') })}
+            </button>
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 max-w-6xl w-full">
-                <button
-                    onClick={() => onSelectGame(GameMode.ARITHMETIC)}
-                    className="bg-cyan-500 hover:bg-cyan-600 text-white font-bold text-xl py-6 px-8 rounded-lg transition-transform transform hover:scale-105 shadow-lg shadow-cyan-500/50 font-orbitron">
-                    Arithmetic Challenge
-                </button>
-                <button
-                    onClick={() => onSelectGame(GameMode.NUMBER_PICKER)}
-                    className="bg-purple-600 hover:bg-purple-700 text-white font-bold text-xl py-6 px-8 rounded-lg transition-transform transform hover:scale-105 shadow-lg shadow-purple-500/50 font-orbitron">
-                    Number Hunt
-                </button>
-                <button
-                    onClick={() => onSelectGame(GameMode.MATH_PUZZLE)}
-                    className="bg-yellow-500 hover:bg-yellow-600 text-white font-bold text-xl py-6 px-8 rounded-lg transition-transform transform hover:scale-105 shadow-lg shadow-yellow-500/50 font-orbitron">
-                    Math Puzzle
-                </button>
-                <button
-                    onClick={() => onSelectGame(GameMode.RIGHT_BOX)}
-                    className="bg-green-500 hover:bg-green-600 text-white font-bold text-xl py-6 px-8 rounded-lg transition-transform transform hover:scale-105 shadow-lg shadow-green-500/50 font-orbitron">
-                    Right Box Sort
-                </button>
-                 <button
-                    onClick={() => onSelectGame(GameMode.ANGLE_MAGIC)}
-                    className="bg-pink-500 hover:bg-pink-600 text-white font-bold text-xl py-6 px-8 rounded-lg transition-transform transform hover:scale-105 shadow-lg shadow-pink-500/50 font-orbitron col-span-1 md:col-span-2 lg:col-span-1">
-                    Angle Magic
-                </button>
+                {GAME_CARDS.map((card, i) => (
+                    <button
+                        key={card.mode}
+                        onClick={() => onSelectGame(card.mode)}
+                        className={`${card.className} text-white font-bold text-xl py-6 px-8 rounded-lg transition-transform transform hover:scale-105 shadow-lg font-orbitron ${focused === i ? 'ring-4 ring-white scale-105' : ''}`}>
+                        {t(card.title)}
+                    </button>
+                ))}
+            </div>
+            <div className="mt-8 flex items-center gap-4">
+                <div className="w-48">
+                    <GestureCommandContext.Provider value={commands}>
+                        <CameraView onResults={() => {}} compact />
+                    </GestureCommandContext.Provider>
+                </div>
+                <p className="text-sm text-indigo-200">
+                    {t('menu.chooseGame', { left: t('gesture.swipe-left'), right: t('gesture.swipe-right') })}<br />
+                    {t('menu.startGame', { confirm: t('gesture.confirm') })}
+                </p>
             </div>
         </div>
     );
 };
 
 const App = () => {
-    const [gameMode, setGameMode] = useState<GameMode>(GameMode.MENU);
+    const [gameMode, setGameMode] = useState<GameMode>(GameMode.STUDENTS);
+    const [locale, setLocale] = useState<Locale>(loadLocale);
+    const [students, setStudents] = useState<StudentProfile[]>(loadStudents);
+    const [studentId, setStudentId] = useState<string | null>(null);
+    const student = students.find(s => s.id === studentId) ?? null;
+    const [inputKind, setInputKind] = useState<InputSourceKind>('camera');
+    const [smoothing, setSmoothing] = useState<SmoothingLevel>('low');
+    const [dwellMs, setDwellMs] = useState(0);
+    const [recording, setRecording] = useState<{ name: string, data: HandRecording } | null>(null);
+    const [calibrations, setCalibrations] = useState<Record<string, Calibration>>(loadCalibrations);
+    const [calibrationProfile, setCalibrationProfile] = useState('Default');
+    const [difficultyLevel, setDifficultyLevel] = useState(DEFAULT_DIFFICULTY.level);
+    const [adaptive, setAdaptive] = useState(true);
+    const [lessonPack, setLessonPack] = useState<LessonPack | null>(null);
+    const [dailyChallenge, setDailyChallenge] = useState(false);
+    const challenge = useMemo(() => dailyChallenge ? { seed: dailySeed() } : null, [dailyChallenge]);
+    // Everyone plays the challenge at the same fixed level so results stay comparable
+    const difficulty = useMemo(
+        () => challenge ? { startLevel: DEFAULT_DIFFICULTY.level, adaptive: false } : { startLevel: difficultyLevel, adaptive },
+        [challenge, difficultyLevel, adaptive]
+    );
+    // Reach and pinch calibration describe the physical hand, so only the camera uses them
+    const calibration = inputKind === 'camera' ? calibrations[calibrationProfile] ?? DEFAULT_CALIBRATION : DEFAULT_CALIBRATION;
+
+    // Only the replay source depends on the loaded recording; other sources must not restart when it changes
+    const replayFrames = inputKind === 'replay' ? recording?.data.frames : undefined;
+    const createSource = useMemo((): ((video: HTMLVideoElement) => HandInputSource) => {
+        if (inputKind === 'pointer') return createPointerSource;
+        if (inputKind === 'demo') return () => createDemoSource();
+        if (inputKind === 'replay' && replayFrames) return () => createReplaySource(replayFrames);
+        return createCameraSource;
+    }, [inputKind, replayFrames]);
+
+    const changeLocale = useCallback((next: Locale) => {
+        saveLocale(next);
+        setLocale(next);
+    }, []);
+    const localeValue = useMemo(() => ({ locale, setLocale: changeLocale }), [locale, changeLocale]);
+
+    // Screen readers and fonts pick their shaping rules from the document language
+    useEffect(() => {
+        document.documentElement.lang = locale;
+    }, [locale]);
+
+    const onRecordingComplete = useCallback((data: HandRecording) => {
+        setRecording({ name: `Recording ${new Date(data.createdAt).toLocaleTimeString()}`, data });
+    }, []);
+
+    const handInput = useMemo(
+        () => ({ inputKind, selectInput: setInputKind, smoothing, calibration, dwellMs, createSource, onRecordingComplete }),
+        [inputKind, smoothing, calibration, dwellMs, createSource, onRecordingComplete]
+    );
+
+    const loadRecording = async (file: File) => {
+        try {
+            const data = parseHandRecording(await file.text());
+            setRecording({ name: file.name, data });
+            setInputKind('replay');
+        } catch (err) {
+            alert(translate(locale, 'error.recording', { message: (err as Error).message }));
+        }
+    };
+
+    // Teachers can hand out links like ?lesson=https://example.org/times-tables.json
+    useEffect(() => {
+        const lessonUrl = new URLSearchParams(window.location.search).get('lesson');
+        if (!lessonUrl) return;
+        loadLessonPackFromUrl(lessonUrl)
+            .then(setLessonPack)
+            .catch(err => alert(translate(loadLocale(), 'error.lesson', { message: (err as Error).message })));
+    }, []);
+
+    const loadLesson = async (file: File) => {
+        try {
+            setLessonPack(parseLessonPack(await file.text()));
+        } catch (err) {
+            alert(translate(locale, 'error.lesson', { message: (err as Error).message }));
+        }
+    };
+
+    // This session's attempts, kept in memory so guests can export them too
+    const [sessionAttempts, setSessionAttempts] = useState<AttemptRecord[]>([]);
+
+    // Saving fails once the device's storage is full; play goes on, the session's attempts stay exportable and a banner says so
+    const [storageFailed, setStorageFailed] = useState(false);
+    const onStorageError = useCallback((err: unknown) => {
+        if (!(err instanceof StudentStorageError || err instanceof CalibrationStorageError)) throw err;
+        setStorageFailed(true);
+    }, []);
+    const saveStudents = useCallback((save: () => StudentProfile[]) => {
+        try {
+            setStudents(save());
+        } catch (err) {
+            onStorageError(err);
+        }
+    }, [onStorageError]);
+
+    const logAttempt = useCallback((attempt: AttemptRecord) => {
+        setSessionAttempts(prev => [...prev, attempt]);
+        if (studentId) saveStudents(() => recordStudentAttempt(studentId, attempt));
+    }, [studentId, saveStudents]);
+
+    const logScore = useCallback((game: GameMode, score: number) => {
+        if (studentId) saveStudents(() => recordStudentScore(studentId, game, score));
+    }, [studentId, saveStudents]);
+
+    const studentLog = useMemo(() => ({ logAttempt, logScore }), [logAttempt, logScore]);
+
+    // A student's calibration is stored under their id; guests pick a named calibration profile
+    const pickStudent = (id: string | null) => {
+        setStudentId(id);
+        setSessionAttempts([]);
+        setCalibrationProfile(id ?? 'Default');
+        setGameMode(GameMode.MENU);
+    };
+
+    const removeStudent = (id: string) => {
+        try {
+            deleteCalibration(id);
+        } catch (err) {
+            onStorageError(err);
+        }
+        setCalibrations(loadCalibrations());
+        saveStudents(() => deleteStudent(id));
+    };
+
+    const saveCalibrationProfile = (profileId: string, data: Calibration) => {
+        try {
+            saveCalibration(profileId, data);
+        } catch (err) {
+            onStorageError(err);
+        }
+        // A calibration that could not be stored still applies until the app is closed
+        setCalibrations(prev => ({ ...prev, [profileId]: data }));
+        setCalibrationProfile(profileId);
+        setGameMode(GameMode.MENU);
+    };
 
     const selectGame = (mode: GameMode) => {
         setGameMode(mode);
@@ -794,21 +3063,112 @@ const App = () => {
         setGameMode(GameMode.MENU);
     };
 
+    let screen: React.ReactNode;
     switch (gameMode) {
         case GameMode.ARITHMETIC:
-            return <ArithmeticGame backToMenu={backToMenu} />;
+            screen = <ArithmeticGame backToMenu={backToMenu} />;
+            break;
         case GameMode.NUMBER_PICKER:
-            return <NumberPickerGame backToMenu={backToMenu} />;
+            screen = <NumberPickerGame backToMenu={backToMenu} />;
+            break;
         case GameMode.MATH_PUZZLE:
-            return <MathPuzzleGame backToMenu={backToMenu} />;
+            screen = <MathPuzzleGame backToMenu={backToMenu} />;
+            break;
         case GameMode.RIGHT_BOX:
-            return <RightBoxGame backToMenu={backToMenu} />;
+            screen = <RightBoxGame backToMenu={backToMenu} />;
+            break;
         case GameMode.ANGLE_MAGIC:
-            return <AngleMagicGame backToMenu={backToMenu} />;
+            screen = <AngleMagicGame backToMenu={backToMenu} />;
+            break;
+        case GameMode.SHAPE_BUILDER:
+            screen = <ShapeBuilderGame backToMenu={backToMenu} />;
+            break;
+        case GameMode.CALIBRATION:
+            screen = <CalibrationWizard profileId={calibrationProfile} ownerName={student?.name} onSave={saveCalibrationProfile} backToMenu={backToMenu} />;
+            break;
+        case GameMode.STUDENTS:
+            screen = (
+                <StudentPicker
+                    students={students}
+                    onPick={pickStudent}
+                    onCreate={name => saveStudents(() => {
+                        pickStudent(createStudent(name).id);
+                        return loadStudents();
+                    })}
+                    onDelete={removeStudent}
+                    onGuest={() => pickStudent(null)}
+                    onTeacherDashboard={() => setGameMode(GameMode.TEACHER_DASHBOARD)}
+                />
+            );
+            break;
+        case GameMode.TEACHER_DASHBOARD:
+            screen = <TeacherDashboard onBack={() => setGameMode(GameMode.STUDENTS)} />;
+            break;
+        case GameMode.RECORDING_VIEWER:
+            if (recording) {
+                screen = <RecordingViewer name={recording.name} recording={recording.data} backToMenu={backToMenu} />;
+                break;
+            }
+        // falls through
         case GameMode.MENU:
         default:
-            return <GameSelector onSelectGame={selectGame} />;
+            screen = (
+                <GameSelector
+                    onSelectGame={selectGame}
+                    studentPanel={<StudentProgress student={student} sessionAttempts={sessionAttempts} onSwitch={() => setGameMode(GameMode.STUDENTS)} />}
+                    dailyChallenge={dailyChallenge}
+                    onToggleDailyChallenge={setDailyChallenge}
+                    inputPicker={
+                        <InputSourcePicker
+                            inputKind={inputKind}
+                            onSelectInput={setInputKind}
+                            smoothing={smoothing}
+                            onSelectSmoothing={setSmoothing}
+                            recording={recording}
+                            onLoadRecording={loadRecording}
+                            onViewRecording={() => setGameMode(GameMode.RECORDING_VIEWER)}
+                            onExportRecording={() => recording && downloadHandRecording(recording.data)}
+                            dwellMs={dwellMs}
+                            onSelectDwell={setDwellMs}
+                            calibrationProfiles={Array.from(new Set(['Default', ...Object.keys(calibrations).filter(id => !students.some(s => s.id === id))]))}
+                            calibrationProfile={calibrationProfile}
+                            calibrationOwner={student?.name ?? null}
+                            onSelectCalibrationProfile={setCalibrationProfile}
+                            onCalibrate={() => setGameMode(GameMode.CALIBRATION)}
+                            difficultyLevel={difficultyLevel}
+                            onSelectDifficultyLevel={setDifficultyLevel}
+                            adaptive={adaptive}
+                            onToggleAdaptive={setAdaptive}
+                            lessonPack={lessonPack}
+                            onLoadLesson={loadLesson}
+                            onClearLesson={() => setLessonPack(null)}
+                        />
+                    }
+                />
+            );
     }
+
+    return (
+        <LocaleContext.Provider value={localeValue}>
+            <HandInputContext.Provider value={handInput}>
+                <DifficultyContext.Provider value={difficulty}>
+                    <ChallengeContext.Provider value={challenge}>
+                        <LessonContext.Provider value={lessonPack}>
+                            <StudentContext.Provider value={studentLog}>
+                                {screen}
+                                {storageFailed && (
+                                    <div className="fixed top-0 inset-x-0 z-[70] flex items-center justify-center gap-4 bg-red-800 text-white px-4 py-2 text-sm">
+                                        <span>{translate(locale, 'error.storage')}</span>
+                                        <button onClick={() => setStorageFailed(false)} className="bg-red-600 hover:bg-red-500 font-bold py-1 px-3 rounded-full">{translate(locale, 'common.close')}</button>
+                                    </div>
+                                )}
+                            </StudentContext.Provider>
+                        </LessonContext.Provider>
+                    </ChallengeContext.Provider>
+                </DifficultyContext.Provider>
+            </HandInputContext.Provider>
+        </LocaleContext.Provider>
+    );
 };
 
-export default App;
\ No newline at end of file
+export default App;
@@ -6,41 +6,175 @@ export enum GameMode {
   MATH_PUZZLE = 'MATH_PUZZLE',
   RIGHT_BOX = 'RIGHT_BOX',
   ANGLE_MAGIC = 'ANGLE_MAGIC',
+  SHAPE_BUILDER = 'SHAPE_BUILDER',
+  RECORDING_VIEWER = 'RECORDING_VIEWER',
+  CALIBRATION = 'CALIBRATION',
+  STUDENTS = 'STUDENTS',
+  TEACHER_DASHBOARD = 'TEACHER_DASHBOARD',
 }
 
+// MISSING_ADDEND shows "num1 + ? = num1 + num2" and asks for num2
+export type ArithmeticOperation = 'ADD' | 'SUB' | 'MUL' | 'MISSING_ADDEND';
+
 export interface ArithmeticProblem {
   num1: number;
   num2: number;
+  operation: ArithmeticOperation;
+  // What the student shows on their fingers
   answer: number;
 }
 
-export type NumberType = 'even' | 'odd' | 'prime' | 'fibonacci';
+export type NumberType =
+  | 'even' | 'odd' | 'prime' | 'composite' | 'fibonacci' | 'square' | 'cube' | 'triangular'
+  // These need an `n`: multiples of n, factors of n, and divisible by n (asked with its divisibility rule)
+  | 'multiple' | 'factor' | 'divisible';
 
 export interface NumberPickerProblem {
   numbers: number[];
   type: NumberType;
-  correctAnswer: number;
+  n?: number;
+  // Every number shown that matches `type`
+  answers: number[];
+  // A find-all round lasts until every answer has been picked; otherwise there is exactly one answer
+  findAll: boolean;
+}
+
+export type BinaryOperator = '+' | '−' | '×' | '÷';
+
+// A Math Puzzle question as a tree; see utils/expression.ts for parsing, evaluating and printing it
+export type Expression =
+  | { kind: 'number'; value: number }
+  | { kind: 'binary'; operator: BinaryOperator; left: Expression; right: Expression }
+  | { kind: 'power'; base: Expression; exponent: number }
+  | { kind: 'root'; operand: Expression };
+
+// A known mistake that leads to a particular wrong answer; see utils/misconceptions.ts
+export type Misconception = 'ADD_FOR_MUL' | 'OFF_BY_ONE' | 'DIGIT_REVERSAL' | 'SQUARE_FOR_ROOT' | 'REVERSED_SUBTRACTION';
+
+// A wrong option and the mistake that produces it
+export interface Distractor {
+  value: number;
+  misconception: Misconception;
 }
 
 export interface MathPuzzleProblem {
   question: string;
   options: number[];
   correctAnswer: number;
+  // Unset for multi-step puzzles, which count as mixed operations
+  operation?: PuzzleOperation;
+  // Unset only for lesson questions written as plain text; they get no worked solution
+  expression?: Expression;
+  // The wrong options that come from a known mistake; the rest are just nearby numbers
+  distractors: Distractor[];
+}
+
+export type AngleClass = 'complete' | 'acute' | 'right' | 'obtuse' | 'straight' | 'reflex';
+
+// What an Angle Magic challenge asks for: a size within `tolerance` degrees, or any angle of a class
+export type AngleTarget =
+  | { kind: 'degrees'; degrees: number; tolerance: number }
+  | { kind: 'class'; angleClass: AngleClass };
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export type TriangleSideClass = 'equilateral' | 'isosceles' | 'scalene';
+export type TriangleAngleClass = 'acute' | 'right' | 'obtuse';
+export type QuadrilateralClass = 'square' | 'rectangle' | 'rhombus' | 'parallelogram' | 'trapezium' | 'kite' | 'irregular';
+
+// What a Shape Builder challenge asks for; a triangle target may fix its sides, its angles or both
+export type ShapeTarget =
+  | { kind: 'triangle'; sides?: TriangleSideClass; angles?: TriangleAngleClass }
+  | { kind: 'quadrilateral'; shape: Exclude<QuadrilateralClass, 'irregular'> };
+
+// UI languages: English, Odia and Hindi
+export type Locale = 'en' | 'or' | 'hi';
+
+export type PuzzleOperation = 'ADD' | 'SUB' | 'MUL' | 'DIV' | 'SQUARE' | 'ROOT';
+
+// Everything the problem generators need to pitch a problem at one level
+export interface DifficultyProfile {
+  level: number;
+  label: string;
+  // Operands run from `min` to `max`; answers above 10 are entered digit by digit or as tens and units
+  arithmetic: { min: number; max: number; operations: ArithmeticOperation[]; answerMax: number };
+  // `findAll` is the chance (0-1) that a round is a find-all round; `n` lists the n values to ask about,
+  // otherwise they are chosen to suit the range
+  numberPicker: { min: number; max: number; options: number; types: NumberType[]; findAll: number; n?: number[] };
+  // `factors`, when set, fixes one factor of every product and divisor of every quotient
+  // `steps` is the most operations in one puzzle, as in "3 + 4 × 2" (two steps)
+  mathPuzzle: { operations: PuzzleOperation[]; addMax: number; factorMax: number; factors?: number[]; options: number; steps: number };
+  rightBox: { max: number; count: number; sorts: RightBoxSort[] };
+  // Challenge targets are multiples of `step` degrees
+  angleMagic: { step: number; tolerance: number };
+  // Sides within `sideTolerance` (a fraction of the longer side) count as equal, and angles within
+  // `angleTolerance` degrees as right or parallel
+  shapeBuilder: { sideTolerance: number; angleTolerance: number; quadrilaterals: boolean };
 }
 
 export interface DraggableNumber {
   id: string;
   value: number;
+  // Set for fractions, which show as value/denominator
+  denominator?: number;
   x: number;
   y: number;
+  // Velocity in play-area widths (vx) and heights (vy) per second
+  vx: number;
+  vy: number;
   isDragging: boolean;
+  // Let go by the player and still moving; only a thrown number can land in a bin
+  thrown: boolean;
 }
 
+// What a Right Box bin takes. below, atLeast and multiple compare against the bin's `value`;
+// half takes fractions equal to ½; other takes whatever no other bin in the level does
+export type BinRule = 'even' | 'odd' | 'prime' | 'composite' | 'below' | 'atLeast' | 'multiple' | 'half' | 'other';
+
+export interface RightBoxBin {
+  rule: BinRule;
+  value?: number;
+  // Where the bin sits, as fractions of the play area
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// A set of bins the generator sorts into: even/odd, prime/composite, below/at least a threshold,
+// multiples of a few divisors (plus "none of these"), or fractions equal to ½ and the rest
+export type RightBoxSort = 'parity' | 'primality' | 'size' | 'multiples' | 'halves';
+
+// Every number belongs in at least one of the 2-4 bins
 export interface RightBoxLevel {
-  targetType: 'even' | 'odd';
+  bins: RightBoxBin[];
   numbers: DraggableNumber[];
 }
 
+// One game's part of a lesson pack: a fixed list played in order, or `count` generated problems
+export type LessonSection<P> =
+  | { kind: 'problems'; problems: P[] }
+  | { kind: 'generate'; count: number; profile: DifficultyProfile };
+
+// The problem each game with lesson content plays
+export interface LessonProblems {
+  [GameMode.ARITHMETIC]: ArithmeticProblem;
+  [GameMode.NUMBER_PICKER]: NumberPickerProblem;
+  [GameMode.MATH_PUZZLE]: MathPuzzleProblem;
+  [GameMode.RIGHT_BOX]: RightBoxLevel;
+}
+
+export type LessonSections = { [M in keyof LessonProblems]: LessonSection<LessonProblems[M]> };
+
+export interface LessonPack {
+  title: string;
+  description?: string;
+  games: Partial<LessonSections>;
+}
+
 export type Landmark = {
   x: number;
   y: number;
@@ -50,15 +184,83 @@ export type Landmark = {
 
 export type LandmarkList = Landmark[];
 
+export type FingerName = 'thumb' | 'index' | 'middle' | 'ring' | 'pinky';
+
+export interface FingerStates {
+  extended: Record<FingerName, boolean>;
+  count: number;
+  // Null when the handedness label is unknown
+  palmFacingCamera: boolean | null;
+}
+
+export type Handedness = {
+  index: number;
+  score: number;
+  label: 'Left' | 'Right';
+};
+
 export type Results = {
   multiHandLandmarks: LandmarkList[];
-  multiHandedness: {
-    index: number;
-    score: number;
-    label: 'Left' | 'Right';
-  }[];
+  multiHandedness: Handedness[];
 };
 
+// A single captured frame of hand tracking output; timestamp is ms since the start of the capture.
+export interface RecordedFrame extends Results {
+  timestamp: number;
+}
+
+export interface HandRecording {
+  version: number;
+  createdAt: string;
+  note?: string;
+  frames: RecordedFrame[];
+}
+
+// Per-user tuning captured by the calibration wizard
+export interface Calibration {
+  // Comfortable reach of the index fingertip, in mirrored play-area coordinates (0-1)
+  reach: { minX: number; maxX: number; minY: number; maxY: number };
+  // Pinch thresholds as a fraction of hand size (see getPinchRatio)
+  pinchEnterRatio: number;
+  pinchExitRatio: number;
+}
+
+// One answer a student gave, as stored in their profile
+export interface AttemptRecord {
+  game: GameMode;
+  // Skill id the problem practises, see SKILLS in utils/studentProfiles.ts
+  skill: string;
+  // Human-readable problem and answer, e.g. "3 + 2" and "4"
+  problem: string;
+  answer: string;
+  correct: boolean;
+  // Set when a wrong answer is one a known mistake produces
+  misconception?: Misconception;
+  timeMs: number;
+  // ISO timestamp
+  at: string;
+}
+
+export interface StudentProfile {
+  id: string;
+  name: string;
+  createdAt: string;
+  bestScores: Partial<Record<GameMode, number>>;
+  attempts: AttemptRecord[];
+}
+
+export type SmoothingLevel = 'off' | 'low' | 'high';
+
+export type InputSourceKind = 'camera' | 'pointer' | 'demo' | 'replay';
+
+// Anything that can feed MediaPipe-shaped hand results to the games.
+export interface HandInputSource {
+  kind: InputSourceKind;
+  label: string;
+  start: (onResults: (results: Results) => void, onError?: (error: Error) => void) => void;
+  stop: () => void;
+}
+
 declare global {
   interface Window {
     Hands: any;
@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { Results } from '../types';
+import { HandReading, createDigitEntry, createTensAndUnitsEntry, readHands, readPointerHands } from './answerEntry';
+import { buildSyntheticHand, extendedForCount } from './inputSources';
+
+const hand = (count: number, x = 0.5): HandReading => ({ x, count, thumbsUp: false });
+const THUMBS_UP: HandReading = { x: 0.5, count: 1, thumbsUp: true };
+
+// Feeds the same hands every 100 ms for `ms`, returning the first answer given
+const hold = (entry: { update: (hands: HandReading[], now: number) => number | null }, hands: HandReading[], from: number, ms: number) => {
+    for (let now = from; now <= from + ms; now += 100) {
+        const answer = entry.update(hands, now);
+        if (answer !== null) return answer;
+    }
+    return null;
+};
+
+const results = (...hands: Parameters<typeof buildSyntheticHand>[0][]): Results => ({
+    multiHandLandmarks: hands.map(buildSyntheticHand),
+    multiHandedness: hands.map((h, index) => ({ index, score: 1, label: h.label ?? 'Right' })),
+});
+
+describe('createDigitEntry', () => {
+    it('locks in held digits and answers on a thumbs-up', () => {
+        const entry = createDigitEntry();
+        expect(hold(entry, [hand(4)], 0, 1000)).toBeNull();
+        expect(entry.digits).toEqual([4]);
+        expect(hold(entry, [hand(0)], 2000, 1000)).toBeNull();
+        expect(entry.digits).toEqual([4, 0]);
+        expect(hold(entry, [THUMBS_UP], 4000, 1000)).toBe(40);
+        expect(entry.digits).toEqual([]);
+    });
+
+    it('adds up the fingers of both hands and shows progress while a digit is held', () => {
+        const entry = createDigitEntry();
+        entry.update([hand(5, 0.3), hand(2, 0.7)], 0);
+        entry.update([hand(5, 0.3), hand(2, 0.7)], 500);
+        expect(entry.pending).toEqual({ kind: 'digit', value: 7, progress: 0.5 });
+    });
+
+    it('needs the hands to change before the same digit counts again', () => {
+        const entry = createDigitEntry();
+        hold(entry, [hand(1)], 0, 3000);
+        expect(entry.digits).toEqual([1]);
+        entry.update([], 3100);
+        hold(entry, [hand(1)], 3200, 1000);
+        expect(entry.digits).toEqual([1, 1]);
+    });
+
+    it('ignores ten fingers, digits beyond the limit and a thumbs-up with no digits', () => {
+        const entry = createDigitEntry({ maxDigits: 2 });
+        expect(hold(entry, [THUMBS_UP], 0, 2000)).toBeNull();
+        hold(entry, [hand(5, 0.3), hand(5, 0.7)], 3000, 2000);
+        expect(entry.digits).toEqual([]);
+        hold(entry, [hand(1)], 6000, 1000);
+        hold(entry, [hand(2)], 8000, 1000);
+        hold(entry, [hand(3)], 10000, 1000);
+        expect(entry.digits).toEqual([1, 2]);
+    });
+
+    it('forgets the digits when cleared', () => {
+        const entry = createDigitEntry();
+        hold(entry, [hand(3)], 0, 1000);
+        entry.clear();
+        expect(entry.digits).toEqual([]);
+        expect(entry.pending).toBeNull();
+    });
+});
+
+describe('createTensAndUnitsEntry', () => {
+    it('reads tens on the left hand and units on the right', () => {
+        const entry = createTensAndUnitsEntry();
+        expect(hold(entry, [hand(2, 0.8), hand(4, 0.2)], 0, 1200)).toBe(42);
+    });
+
+    it('waits for two hands held steady', () => {
+        const entry = createTensAndUnitsEntry();
+        expect(hold(entry, [hand(4)], 0, 2000)).toBeNull();
+        entry.update([hand(2, 0.2), hand(4, 0.8)], 3000);
+        entry.update([hand(2, 0.2), hand(3, 0.8)], 3600);
+        expect(entry.update([hand(2, 0.2), hand(3, 0.8)], 4200)).toBeNull();
+        expect(entry.pending?.value).toBe(23);
+        expect(entry.update([hand(2, 0.2), hand(3, 0.8)], 4800)).toBe(23);
+    });
+
+    it('answers once until the hands change', () => {
+        const entry = createTensAndUnitsEntry();
+        expect(hold(entry, [hand(1, 0.2), hand(5, 0.8)], 0, 1200)).toBe(15);
+        expect(hold(entry, [hand(1, 0.2), hand(5, 0.8)], 1300, 3000)).toBeNull();
+    });
+});
+
+describe('readPointerHands', () => {
+    it('reads the Enter key\'s hand as a thumbs-up', () => {
+        const [reading] = readHands(results({ wrist: { x: 0.5, y: 0.7 }, extended: extendedForCount(0), thumbsUp: true }));
+        expect(reading.thumbsUp).toBe(true);
+    });
+
+    it('does not count the aiming fist as a shown 0', () => {
+        expect(readPointerHands(results({ wrist: { x: 0.5, y: 0.7 }, extended: extendedForCount(0) }))).toEqual([]);
+        const entry = createDigitEntry();
+        const idle = readPointerHands(results({ wrist: { x: 0.5, y: 0.7 }, extended: extendedForCount(0) }));
+        expect(hold(entry, idle, 0, 3000)).toBeNull();
+        expect(entry.digits).toEqual([]);
+    });
+
+    it('reads the 0 key\'s ten fingers as the digit 0', () => {
+        const hands = readPointerHands(results(
+            { wrist: { x: 0.5, y: 0.7 }, extended: extendedForCount(5) },
+            { wrist: { x: 0.2, y: 0.8 }, extended: extendedForCount(5), label: 'Left' },
+        ));
+        expect(hands.map(h => h.count)).toEqual([0]);
+    });
+});
@@ -0,0 +1,148 @@
+import { Results } from '../types';
+import { getFingerStates } from './handGestureUtils';
+import { classifyHandPose } from './gestureCommands';
+
+/*
+ * Finger answers above ten. Up to ten, the fingers on both hands are simply added up; beyond that
+ * a student either
+ *   - shows the digits one after another, each held steady until it locks in, then holds a thumbs-up
+ *     to submit (a fist is 0; 1 is shown with a finger, since a lone raised thumb is the submit sign), or
+ *   - shows the tens on the hand on their left and the units on the hand on their right, and holds both
+ *     steady. One hand shows at most 5, so this only works when both digits are 0-5.
+ */
+
+export type AnswerEntryMethod = 'digits' | 'places';
+
+export interface HandReading {
+    // Palm centre, mirrored so 0 is the student's left
+    x: number;
+    count: number;
+    thumbsUp: boolean;
+}
+
+export const readHands = (results: Results): HandReading[] =>
+    (results.multiHandLandmarks ?? []).map((hand, i) => {
+        const label = results.multiHandedness?.[i]?.label;
+        return {
+            x: 1 - (hand[0].x + hand[9].x) / 2,
+            count: getFingerStates(hand, label).count,
+            thumbsUp: classifyHandPose(hand, label) === 'thumbs-up',
+        };
+    });
+
+/**
+ * Hands from the mouse / touch source, which aims with a fist whenever no key is down. A fist there
+ * shows nothing, and the 0 key's ten fingers, never a digit, stand for the digit 0 instead.
+ */
+export const readPointerHands = (results: Results): HandReading[] => {
+    const hands = readHands(results).filter(hand => hand.count > 0 || hand.thumbsUp);
+    return hands.reduce((sum, hand) => sum + hand.count, 0) === 10 ? [{ ...hands[0], count: 0 }] : hands;
+};
+
+export const canShowAsTensAndUnits = (answer: number): boolean =>
+    answer >= 10 && answer < 60 && answer % 10 <= 5;
+
+export interface PendingEntry {
+    kind: 'digit' | 'submit';
+    value: number;
+    progress: number;
+}
+
+export interface DigitEntryOptions {
+    maxDigits?: number;
+    digitHoldMs?: number;
+    submitHoldMs?: number;
+}
+
+/**
+ * Builds a number from digits shown one at a time. A digit locks in after it has been held for
+ * `digitHoldMs`; the hands must change (or drop out of view) before the same digit can be entered
+ * again, so "11" is 1, lower the hand, 1. A thumbs-up held for `submitHoldMs` returns the number.
+ */
+export const createDigitEntry = ({ maxDigits = 2, digitHoldMs = 1000, submitHoldMs = 800 }: DigitEntryOptions = {}) => {
+    let digits: number[] = [];
+    // What the hands show right now, with when it started and whether it has been used
+    let held: { kind: 'digit' | 'submit', value: number, since: number, used: boolean } | null = null;
+    let pending: PendingEntry | null = null;
+
+    return {
+        update: (hands: HandReading[], now: number = performance.now()): number | null => {
+            pending = null;
+            if (hands.length === 0) {
+                held = null;
+                return null;
+            }
+            const submitting = hands.length === 1 && hands[0].thumbsUp;
+            const kind = submitting ? 'submit' : 'digit';
+            const value = submitting ? 0 : hands.reduce((sum, hand) => sum + hand.count, 0);
+            if (!held || held.kind !== kind || held.value !== value) held = { kind, value, since: now, used: false };
+
+            // Ten fingers is not a digit, and a full answer takes no more digits
+            const usable = kind === 'submit' ? digits.length > 0 : value <= 9 && digits.length < maxDigits;
+            if (held.used || !usable) return null;
+
+            const progress = (now - held.since) / (kind === 'submit' ? submitHoldMs : digitHoldMs);
+            if (progress < 1) {
+                pending = { kind, value, progress };
+                return null;
+            }
+            held.used = true;
+            if (kind === 'digit') {
+                digits = [...digits, value];
+                return null;
+            }
+            const answer = Number(digits.join(''));
+            digits = [];
+            return answer;
+        },
+        clear: () => {
+            digits = [];
+            held = null;
+            pending = null;
+        },
+        get digits() {
+            return digits;
+        },
+        get pending() {
+            return pending;
+        },
+    };
+};
+
+/**
+ * Reads tens on the hand on the student's left and units on the other. The reading must stay the
+ * same for `holdMs`, and the hands must change before the same number is returned again.
+ */
+export const createTensAndUnitsEntry = ({ holdMs = 1200 }: { holdMs?: number } = {}) => {
+    let held: { value: number, since: number, used: boolean } | null = null;
+    let pending: PendingEntry | null = null;
+
+    return {
+        update: (hands: HandReading[], now: number = performance.now()): number | null => {
+            pending = null;
+            if (hands.length !== 2) {
+                held = null;
+                return null;
+            }
+            const [tens, units] = [...hands].sort((a, b) => a.x - b.x);
+            const value = tens.count * 10 + units.count;
+            if (!held || held.value !== value) held = { value, since: now, used: false };
+            if (held.used) return null;
+
+            const progress = (now - held.since) / holdMs;
+            if (progress < 1) {
+                pending = { kind: 'submit', value, progress };
+                return null;
+            }
+            held.used = true;
+            return value;
+        },
+        clear: () => {
+            held = null;
+            pending = null;
+        },
+        get pending() {
+            return pending;
+        },
+    };
+};
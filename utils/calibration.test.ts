@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CalibrationStorageError, DEFAULT_CALIBRATION, loadCalibration, loadCalibrations, saveCalibration } from './calibration';
+
+const stubStorage = (stored: string | null, setItem = vi.fn()) => {
+    vi.stubGlobal('localStorage', { getItem: () => stored, setItem });
+    return setItem;
+};
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('calibration storage', () => {
+    it('drops stored entries that are not a whole calibration', () => {
+        stubStorage(JSON.stringify({ asha: DEFAULT_CALIBRATION, ravi: {}, mira: { ...DEFAULT_CALIBRATION, pinchExitRatio: '0.5' } }));
+        expect(loadCalibrations()).toEqual({ asha: DEFAULT_CALIBRATION });
+        expect(loadCalibration('ravi')).toBe(DEFAULT_CALIBRATION);
+    });
+
+    it('ignores stored data that is not a set of calibrations', () => {
+        stubStorage('[1, 2]');
+        expect(loadCalibrations()).toEqual({});
+        stubStorage('{');
+        expect(loadCalibrations()).toEqual({});
+    });
+
+    it('reports a save the device refuses', () => {
+        stubStorage(null, vi.fn(() => {
+            throw new DOMException('Quota exceeded', 'QuotaExceededError');
+        }));
+        expect(() => saveCalibration('asha', DEFAULT_CALIBRATION)).toThrow(CalibrationStorageError);
+    });
+});
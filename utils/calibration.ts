@@ -0,0 +1,117 @@
+import { Calibration } from '../types';
+import { PINCH_ENTER_RATIO, PINCH_EXIT_RATIO } from './handGestureUtils';
+
+export const DEFAULT_CALIBRATION: Calibration = {
+    reach: { minX: 0, maxX: 1, minY: 0, maxY: 1 },
+    pinchEnterRatio: PINCH_ENTER_RATIO,
+    pinchExitRatio: PINCH_EXIT_RATIO,
+};
+
+// A reach box smaller than this is almost certainly a failed capture
+const MIN_REACH_SIZE = 0.15;
+
+const clamp01 = (n: number) => Math.min(1, Math.max(0, n));
+
+/**
+ * Maps a raw MediaPipe point (unmirrored, normalized) to play-area coordinates: mirrored to
+ * match the video, then stretched so the user's comfortable reach box covers the whole area.
+ */
+export const mapToPlayArea = (point: { x: number, y: number }, calibration: Calibration = DEFAULT_CALIBRATION) => {
+    const { minX, maxX, minY, maxY } = calibration.reach;
+    const mirroredX = 1 - point.x;
+    return {
+        x: clamp01((mirroredX - minX) / Math.max(maxX - minX, 1e-6)),
+        y: clamp01((point.y - minY) / Math.max(maxY - minY, 1e-6)),
+    };
+};
+
+export const getPinchThresholds = (calibration: Calibration = DEFAULT_CALIBRATION) => ({
+    enterRatio: calibration.pinchEnterRatio,
+    exitRatio: calibration.pinchExitRatio,
+});
+
+/** Builds a reach box from sampled fingertip positions, padded slightly so the edges stay reachable. */
+export const reachFromSamples = (samples: { x: number, y: number }[], padding: number = 0.03): Calibration['reach'] | null => {
+    if (samples.length === 0) return null;
+    const xs = samples.map(p => p.x);
+    const ys = samples.map(p => p.y);
+    const reach = {
+        minX: clamp01(Math.min(...xs) + padding),
+        maxX: clamp01(Math.max(...xs) - padding),
+        minY: clamp01(Math.min(...ys) + padding),
+        maxY: clamp01(Math.max(...ys) - padding),
+    };
+    if (reach.maxX - reach.minX < MIN_REACH_SIZE || reach.maxY - reach.minY < MIN_REACH_SIZE) return null;
+    return reach;
+};
+
+/**
+ * Places the pinch thresholds between the user's measured open and pinched ratios.
+ * Returns null when the two are too close to tell apart.
+ */
+export const pinchThresholdsFromSamples = (openRatio: number, closedRatio: number) => {
+    const range = openRatio - closedRatio;
+    if (range < 0.15) return null;
+    return {
+        pinchEnterRatio: closedRatio + range * 0.35,
+        pinchExitRatio: closedRatio + range * 0.55,
+    };
+};
+
+// --- Persistence ---
+
+const STORAGE_KEY = 'mathiverse.calibrations';
+
+// Thrown when a calibration cannot be saved, usually because the device's storage is full
+export class CalibrationStorageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'CalibrationStorageError';
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isFiniteNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+const isCalibration = (value: unknown): value is Calibration =>
+    isObject(value) && isObject(value.reach)
+    && [value.reach.minX, value.reach.maxX, value.reach.minY, value.reach.maxY, value.pinchEnterRatio, value.pinchExitRatio].every(isFiniteNumber);
+
+// Entries that are not a whole calibration are dropped, so a damaged one falls back to the default
+export const loadCalibrations = (): Record<string, Calibration> => {
+    let stored: unknown;
+    try {
+        const raw = localStorage.getItem(STORAGE_KEY);
+        stored = raw ? JSON.parse(raw) : {};
+    } catch {
+        return {};
+    }
+    const calibrations: Record<string, Calibration> = {};
+    if (!isObject(stored)) return calibrations;
+    for (const [profileId, calibration] of Object.entries(stored)) {
+        if (isCalibration(calibration)) calibrations[profileId] = calibration;
+    }
+    return calibrations;
+};
+
+export const loadCalibration = (profileId: string): Calibration => loadCalibrations()[profileId] ?? DEFAULT_CALIBRATION;
+
+const write = (all: Record<string, Calibration>) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, JSON.stringify(all));
+    } catch (err) {
+        throw new CalibrationStorageError(`Could not save calibration: ${(err as Error).message}`);
+    }
+};
+
+export const saveCalibration = (profileId: string, calibration: Calibration) => {
+    const all = loadCalibrations();
+    all[profileId] = calibration;
+    write(all);
+};
+
+export const deleteCalibration = (profileId: string) => {
+    const all = loadCalibrations();
+    delete all[profileId];
+    write(all);
+};
@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { AttemptRecord, GameMode, StudentProfile } from '../types';
+import { parseProgressFile, serializeProgress } from './classProgress';
+
+const attempt: AttemptRecord = {
+    game: GameMode.MATH_PUZZLE,
+    skill: 'multiplication',
+    problem: '7 × 8',
+    answer: '15',
+    correct: false,
+    misconception: 'ADD_FOR_MUL',
+    timeMs: 2400,
+    at: '2026-01-01T09:00:00.000Z',
+};
+
+const asha: StudentProfile = { id: 'student-a', name: 'Asha', createdAt: '2026-01-01T00:00:00.000Z', bestScores: { [GameMode.MATH_PUZZLE]: 40 }, attempts: [attempt] };
+
+const file = (students: unknown[]) => JSON.stringify({ format: 'mathiverse-progress', version: 1, exportedAt: '2026-01-02T00:00:00.000Z', students });
+
+describe('parseProgressFile', () => {
+    it('reads back an exported file', () => {
+        expect(parseProgressFile(serializeProgress([asha]))).toEqual([asha]);
+    });
+
+    it('fills in what an older file leaves out and drops unknown scores', () => {
+        const [student] = parseProgressFile(file([{ name: 'Ravi', attempts: [], bestScores: { RIGHT_BOX: 12, CHESS: 3, ARITHMETIC: 'ten' } }]));
+        expect(student).toEqual({ id: 'imported-0', name: 'Ravi', createdAt: new Date(0).toISOString(), bestScores: { RIGHT_BOX: 12 }, attempts: [] });
+    });
+
+    it('rejects files that are not progress files', () => {
+        expect(() => parseProgressFile('{')).toThrow('Not valid JSON');
+        expect(() => parseProgressFile('null')).toThrow('Not a Mathiverse progress file');
+        expect(() => parseProgressFile(JSON.stringify({ format: 'mathiverse-progress', version: 2, students: [] }))).toThrow('Unsupported progress file version 2');
+        for (const version of [0, -1, 1.5, '1']) {
+            expect(() => parseProgressFile(JSON.stringify({ format: 'mathiverse-progress', version, students: [] }))).toThrow(`Unsupported progress file version ${version}`);
+        }
+    });
+
+    it('names the student and attempt that is malformed', () => {
+        expect(() => parseProgressFile(file(['Asha']))).toThrow('Student 1: expected a name and attempts');
+        expect(() => parseProgressFile(file([{ ...asha, attempts: [attempt, { ...attempt, game: 'CHESS' }] }]))).toThrow('Asha: attempt 2 is malformed');
+    });
+});
@@ -0,0 +1,97 @@
+import { AttemptRecord, GameMode, StudentProfile } from '../types';
+import { getSkillMastery, isAttempt, parseBestScores, SkillMastery, SKILLS } from './studentProfiles';
+
+/*
+ * Progress file format (.mprogress.json), version 1
+ *
+ *   {"format":"mathiverse-progress","version":1,"exportedAt":"2024-01-01T10:00:00.000Z","students":[StudentProfile, ...]}
+ *
+ * A file holds one student (exported from the menu) or every student on a device (exported from the
+ * student picker). The teacher dashboard imports any number of them and merges students by name,
+ * because the same child gets a different id on every device.
+ */
+
+export const PROGRESS_FILE_FORMAT = 'mathiverse-progress';
+export const PROGRESS_FILE_VERSION = 1;
+export const PROGRESS_FILE_EXTENSION = '.mprogress.json';
+
+export const serializeProgress = (students: StudentProfile[], exportedAt: Date = new Date()): string =>
+    JSON.stringify({ format: PROGRESS_FILE_FORMAT, version: PROGRESS_FILE_VERSION, exportedAt: exportedAt.toISOString(), students });
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export const parseProgressFile = (text: string): StudentProfile[] => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch {
+        throw new Error('Not valid JSON');
+    }
+    if (!isObject(raw) || raw.format !== PROGRESS_FILE_FORMAT) throw new Error('Not a Mathiverse progress file');
+    if (!Number.isInteger(raw.version) || Number(raw.version) < 1 || Number(raw.version) > PROGRESS_FILE_VERSION) throw new Error(`Unsupported progress file version ${raw.version}`);
+    if (!Array.isArray(raw.students)) throw new Error('"students" must be a list');
+
+    return raw.students.map((s: unknown, i: number): StudentProfile => {
+        if (!isObject(s) || typeof s.name !== 'string' || !Array.isArray(s.attempts)) throw new Error(`Student ${i + 1}: expected a name and attempts`);
+        const badAttempt = s.attempts.findIndex((a: unknown) => !isAttempt(a));
+        if (badAttempt !== -1) throw new Error(`${s.name}: attempt ${badAttempt + 1} is malformed`);
+        return {
+            id: typeof s.id === 'string' ? s.id : `imported-${i}`,
+            name: s.name,
+            createdAt: typeof s.createdAt === 'string' ? s.createdAt : new Date(0).toISOString(),
+            bestScores: parseBestScores(s.bestScores),
+            attempts: s.attempts.filter(isAttempt),
+        };
+    });
+};
+
+const studentKey = (name: string) => name.trim().toLowerCase();
+const attemptKey = (a: AttemptRecord) => `${a.at}|${a.game}|${a.problem}|${a.answer}`;
+
+/** Merges students with the same name, dropping attempts seen in more than one file and keeping the best scores. */
+export const mergeStudents = (students: StudentProfile[]): StudentProfile[] => {
+    const merged = new Map<string, StudentProfile>();
+
+    for (const student of students) {
+        const key = studentKey(student.name);
+        const existing = merged.get(key);
+        if (!existing) {
+            merged.set(key, { ...student, attempts: [...student.attempts] });
+            continue;
+        }
+
+        const seen = new Set(existing.attempts.map(attemptKey));
+        const bestScores = { ...existing.bestScores };
+        for (const [game, score] of Object.entries(student.bestScores) as [GameMode, number][]) {
+            bestScores[game] = Math.max(bestScores[game] ?? 0, score);
+        }
+        merged.set(key, {
+            ...existing,
+            createdAt: existing.createdAt < student.createdAt ? existing.createdAt : student.createdAt,
+            bestScores,
+            attempts: [...existing.attempts, ...student.attempts.filter(a => !seen.has(attemptKey(a)))],
+        });
+    }
+
+    return Array.from(merged.values())
+        .map(s => ({ ...s, attempts: [...s.attempts].sort((a, b) => a.at.localeCompare(b.at)) }))
+        .sort((a, b) => a.name.localeCompare(b.name));
+};
+
+export interface ClassGridRow {
+    student: StudentProfile;
+    skills: Partial<Record<string, SkillMastery>>;
+}
+
+/**
+ * Students by skill, optionally limited to one game. Only skills someone in the class has practised
+ * become columns, in the order of SKILLS.
+ */
+export const buildClassGrid = (students: StudentProfile[], game: GameMode | null = null) => {
+    const rows: ClassGridRow[] = students.map(student => {
+        const attempts = game ? student.attempts.filter(a => a.game === game) : student.attempts;
+        return { student, skills: Object.fromEntries(getSkillMastery(attempts).map(m => [m.skill, m])) };
+    });
+    const skills = Object.keys(SKILLS).filter(skill => rows.some(row => row.skills[skill]));
+    return { skills, rows };
+};
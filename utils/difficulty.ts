@@ -0,0 +1,115 @@
+import { DifficultyProfile } from '../types';
+
+const ALL_OPERATIONS: DifficultyProfile['mathPuzzle']['operations'] = ['ADD', 'SUB', 'MUL', 'DIV', 'SQUARE', 'ROOT'];
+
+// Level 3 matches the ranges the games used before difficulty levels existed
+export const DIFFICULTY_LEVELS: DifficultyProfile[] = [
+    {
+        level: 1,
+        label: 'Starter',
+        arithmetic: { min: 1, max: 2, operations: ['ADD'], answerMax: 10 },
+        numberPicker: { min: 1, max: 10, options: 4, types: ['even', 'odd'], findAll: 0 },
+        mathPuzzle: { operations: ['ADD', 'SUB'], addMax: 10, factorMax: 5, options: 3, steps: 1 },
+        rightBox: { max: 20, count: 4, sorts: ['parity'] },
+        angleMagic: { step: 90, tolerance: 15 },
+        shapeBuilder: { sideTolerance: 0.15, angleTolerance: 12, quadrilaterals: false },
+    },
+    {
+        level: 2,
+        label: 'Easy',
+        arithmetic: { min: 1, max: 3, operations: ['ADD', 'SUB'], answerMax: 10 },
+        numberPicker: { min: 1, max: 15, options: 4, types: ['even', 'odd', 'prime'], findAll: 0 },
+        mathPuzzle: { operations: ['ADD', 'SUB', 'MUL'], addMax: 20, factorMax: 5, options: 4, steps: 1 },
+        rightBox: { max: 30, count: 5, sorts: ['parity', 'size'] },
+        angleMagic: { step: 45, tolerance: 12 },
+        shapeBuilder: { sideTolerance: 0.12, angleTolerance: 10, quadrilaterals: false },
+    },
+    {
+        level: 3,
+        label: 'Medium',
+        arithmetic: { min: 1, max: 5, operations: ['ADD', 'SUB', 'MISSING_ADDEND'], answerMax: 10 },
+        numberPicker: { min: 1, max: 20, options: 5, types: ['even', 'odd', 'prime', 'fibonacci'], findAll: 0 },
+        mathPuzzle: { operations: ALL_OPERATIONS, addMax: 50, factorMax: 13, options: 4, steps: 2 },
+        rightBox: { max: 50, count: 6, sorts: ['parity', 'size', 'primality'] },
+        angleMagic: { step: 15, tolerance: 10 },
+        shapeBuilder: { sideTolerance: 0.1, angleTolerance: 8, quadrilaterals: true },
+    },
+    {
+        level: 4,
+        label: 'Hard',
+        arithmetic: { min: 2, max: 9, operations: ['ADD', 'SUB', 'MUL', 'MISSING_ADDEND'], answerMax: 50 },
+        numberPicker: { min: 1, max: 50, options: 6, types: ['even', 'odd', 'prime', 'fibonacci', 'square', 'multiple', 'factor'], findAll: 0.3 },
+        mathPuzzle: { operations: ALL_OPERATIONS, addMax: 100, factorMax: 15, options: 4, steps: 2 },
+        rightBox: { max: 100, count: 7, sorts: ['parity', 'primality', 'multiples', 'halves'] },
+        angleMagic: { step: 15, tolerance: 7 },
+        shapeBuilder: { sideTolerance: 0.08, angleTolerance: 7, quadrilaterals: true },
+    },
+    {
+        level: 5,
+        label: 'Expert',
+        arithmetic: { min: 3, max: 12, operations: ['ADD', 'SUB', 'MUL', 'MISSING_ADDEND'], answerMax: 99 },
+        numberPicker: { min: 10, max: 100, options: 8, types: ['prime', 'composite', 'fibonacci', 'square', 'cube', 'triangular', 'factor', 'divisible'], findAll: 0.4 },
+        mathPuzzle: { operations: ALL_OPERATIONS, addMax: 200, factorMax: 20, options: 6, steps: 3 },
+        rightBox: { max: 200, count: 8, sorts: ['size', 'primality', 'multiples', 'halves'] },
+        angleMagic: { step: 5, tolerance: 5 },
+        shapeBuilder: { sideTolerance: 0.06, angleTolerance: 5, quadrilaterals: true },
+    },
+];
+
+export const DEFAULT_DIFFICULTY = DIFFICULTY_LEVELS[2];
+
+export const getDifficultyProfile = (level: number): DifficultyProfile => {
+    const clamped = Math.min(DIFFICULTY_LEVELS.length, Math.max(1, Math.round(level)));
+    return DIFFICULTY_LEVELS[clamped - 1];
+};
+
+export interface AttemptSample {
+    correct: boolean;
+    responseMs: number;
+}
+
+export interface AdaptiveDifficultyOptions {
+    startLevel?: number;
+    // When false the level never changes
+    adaptive?: boolean;
+    // Number of recent attempts the decision is based on
+    window?: number;
+    // Answers slower than this (median) hold the level even when accurate
+    targetResponseMs?: number;
+}
+
+/**
+ * Moves the level up after a run of quick, accurate answers and down when accuracy drops.
+ * History is cleared after every change so each level gets a fair trial.
+ */
+export const createAdaptiveDifficulty = ({ startLevel = DEFAULT_DIFFICULTY.level, adaptive = true, window = 5, targetResponseMs = 6000 }: AdaptiveDifficultyOptions = {}) => {
+    let level = getDifficultyProfile(startLevel).level;
+    let history: AttemptSample[] = [];
+
+    return {
+        record: (sample: AttemptSample): number => {
+            if (!adaptive) return level;
+            history = [...history, sample].slice(-window);
+            if (history.length < window) return level;
+
+            const accuracy = history.filter(a => a.correct).length / history.length;
+            const times = history.map(a => a.responseMs).sort((a, b) => a - b);
+            const medianTime = times[Math.floor(times.length / 2)];
+
+            if (accuracy >= 0.8 && medianTime <= targetResponseMs && level < DIFFICULTY_LEVELS.length) {
+                level++;
+                history = [];
+            } else if (accuracy < 0.5 && level > 1) {
+                level--;
+                history = [];
+            }
+            return level;
+        },
+        get level() {
+            return level;
+        },
+        get profile() {
+            return getDifficultyProfile(level);
+        },
+    };
+};
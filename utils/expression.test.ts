@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { getWorkedSteps, parseExpression } from './expression';
+
+const work = (text: string) => getWorkedSteps(parseExpression(text)).map(step => `${step.work} → ${step.result}`);
+
+describe('getWorkedSteps', () => {
+    it('works × before +', () => {
+        expect(work('3 + 4 × 2')).toEqual(['4 × 2 = 8 → 3 + 8', '3 + 8 = 11 → 11']);
+    });
+
+    it('works brackets first, then roots and powers', () => {
+        expect(work('(12 − 4) ÷ 2 + 3²')).toEqual([
+            '12 − 4 = 8 → 8 ÷ 2 + 3²',
+            '3² = 9 → 8 ÷ 2 + 9',
+            '8 ÷ 2 = 4 → 4 + 9',
+            '4 + 9 = 13 → 13',
+        ]);
+        expect(work('√(9 + 7) × 2')).toEqual(['9 + 7 = 16 → √16 × 2', '√16 = 4 → 4 × 2', '4 × 2 = 8 → 8']);
+    });
+
+    it('keeps a bracketed right operand of equal precedence', () => {
+        expect(work('8 − (3 + 2)')).toEqual(['3 + 2 = 5 → 8 − 5', '8 − 5 = 3 → 3']);
+    });
+
+    it('has no steps for a bare number', () => {
+        expect(work('7')).toEqual([]);
+    });
+});
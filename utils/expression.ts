@@ -0,0 +1,294 @@
+import { BinaryOperator, Expression, PuzzleOperation } from '../types';
+
+/*
+ * Math Puzzle expressions. Questions are written with the usual precedence, binary operators
+ * grouping left to right:
+ *
+ *   expr    := term (('+' | '−') term)*
+ *   term    := unary (('×' | '÷') unary)*
+ *   unary   := '√' unary | power
+ *   power   := primary ('²' | '³' | '^' number)?
+ *   primary := number | '(' expr ')'
+ *
+ * so "√49²" is √(49²) and "2 + 3 × 4" is 14. The ASCII forms - x * / are read as − × × ÷.
+ * Only whole numbers are written; a value can still come out fractional (7 ÷ 2), and puzzles
+ * check for that themselves.
+ */
+
+export class ExpressionError extends Error {
+    constructor(message: string, public readonly position?: number) {
+        super(position === undefined ? message : `${message} at character ${position + 1}`);
+        this.name = 'ExpressionError';
+    }
+}
+
+export const numberNode = (value: number): Expression => ({ kind: 'number', value });
+export const binaryNode = (operator: BinaryOperator, left: Expression, right: Expression): Expression => ({ kind: 'binary', operator, left, right });
+export const powerNode = (base: Expression, exponent: number): Expression => ({ kind: 'power', base, exponent });
+export const rootNode = (operand: Expression): Expression => ({ kind: 'root', operand });
+
+// --- Parsing ---
+
+type Token =
+    | { type: 'number', value: number, at: number }
+    | { type: 'operator', value: BinaryOperator, at: number }
+    | { type: 'exponent', value: number, at: number }
+    | { type: '^' | '√' | '(' | ')', at: number };
+
+const OPERATOR_ALIASES: Record<string, BinaryOperator> = {
+    '+': '+', '−': '−', '-': '−', '×': '×', 'x': '×', 'X': '×', '*': '×', '÷': '÷', '/': '÷',
+};
+const SUPERSCRIPT_DIGITS = '⁰¹²³⁴⁵⁶⁷⁸⁹';
+
+const tokenize = (text: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+    while (i < text.length) {
+        const ch = text[i];
+        if (/\s/.test(ch)) {
+            i++;
+        } else if (/[0-9]/.test(ch)) {
+            const start = i;
+            while (i < text.length && /[0-9]/.test(text[i])) i++;
+            tokens.push({ type: 'number', value: Number(text.slice(start, i)), at: start });
+        } else if (SUPERSCRIPT_DIGITS.includes(ch)) {
+            const start = i;
+            let digits = '';
+            while (i < text.length && SUPERSCRIPT_DIGITS.includes(text[i])) digits += SUPERSCRIPT_DIGITS.indexOf(text[i++]);
+            tokens.push({ type: 'exponent', value: Number(digits), at: start });
+        } else if (ch in OPERATOR_ALIASES) {
+            tokens.push({ type: 'operator', value: OPERATOR_ALIASES[ch], at: i++ });
+        } else if (ch === '^' || ch === '√' || ch === '(' || ch === ')') {
+            tokens.push({ type: ch, at: i++ });
+        } else {
+            throw new ExpressionError(`Unexpected "${ch}"`, i);
+        }
+    }
+    return tokens;
+};
+
+export const parseExpression = (text: string): Expression => {
+    const tokens = tokenize(text);
+    let pos = 0;
+    const peek = () => tokens[pos];
+    const where = () => peek()?.at ?? text.length;
+    const isOperator = (...operators: BinaryOperator[]) => {
+        const token = peek();
+        return token?.type === 'operator' && operators.includes(token.value);
+    };
+
+    const parseSum = (): Expression => {
+        let left = parseProduct();
+        while (isOperator('+', '−')) {
+            const operator = (tokens[pos++] as { value: BinaryOperator }).value;
+            left = binaryNode(operator, left, parseProduct());
+        }
+        return left;
+    };
+    const parseProduct = (): Expression => {
+        let left = parseUnary();
+        while (isOperator('×', '÷')) {
+            const operator = (tokens[pos++] as { value: BinaryOperator }).value;
+            left = binaryNode(operator, left, parseUnary());
+        }
+        return left;
+    };
+    const parseUnary = (): Expression => {
+        if (peek()?.type === '√') {
+            pos++;
+            return rootNode(parseUnary());
+        }
+        return parsePower();
+    };
+    const parsePower = (): Expression => {
+        const base = parsePrimary();
+        const token = peek();
+        if (token?.type === 'exponent') {
+            pos++;
+            return powerNode(base, token.value);
+        }
+        if (token?.type === '^') {
+            pos++;
+            const exponent = peek();
+            if (exponent?.type !== 'number') throw new ExpressionError('Expected a number after ^', where());
+            pos++;
+            return powerNode(base, exponent.value);
+        }
+        return base;
+    };
+    const parsePrimary = (): Expression => {
+        const token = peek();
+        if (token?.type === 'number') {
+            pos++;
+            return numberNode(token.value);
+        }
+        if (token?.type === '(') {
+            pos++;
+            const inner = parseSum();
+            if (peek()?.type !== ')') throw new ExpressionError('Expected ")"', where());
+            pos++;
+            return inner;
+        }
+        throw new ExpressionError(token ? 'Expected a number or "("' : 'Unexpected end', where());
+    };
+
+    if (tokens.length === 0) throw new ExpressionError('Empty expression');
+    const expression = parseSum();
+    if (pos < tokens.length) throw new ExpressionError('Unexpected text', where());
+    return expression;
+};
+
+// --- Evaluating ---
+
+const applyOperator = (operator: BinaryOperator, a: number, b: number): number => {
+    switch (operator) {
+        case '+': return a + b;
+        case '−': return a - b;
+        case '×': return a * b;
+        case '÷':
+            if (b === 0) throw new ExpressionError('Division by zero');
+            return a / b;
+    }
+};
+
+export const evaluateExpression = (expression: Expression): number => {
+    switch (expression.kind) {
+        case 'number': return expression.value;
+        case 'binary': return applyOperator(expression.operator, evaluateExpression(expression.left), evaluateExpression(expression.right));
+        case 'power': return evaluateExpression(expression.base) ** expression.exponent;
+        case 'root': {
+            const value = evaluateExpression(expression.operand);
+            if (value < 0) throw new ExpressionError('Square root of a negative number');
+            return Math.sqrt(value);
+        }
+    }
+};
+
+export const countOperations = (expression: Expression): number => {
+    switch (expression.kind) {
+        case 'number': return 0;
+        case 'binary': return 1 + countOperations(expression.left) + countOperations(expression.right);
+        case 'power': return 1 + countOperations(expression.base);
+        case 'root': return 1 + countOperations(expression.operand);
+    }
+};
+
+const OPERATOR_OPERATIONS: Record<BinaryOperator, PuzzleOperation> = { '+': 'ADD', '−': 'SUB', '×': 'MUL', '÷': 'DIV' };
+
+// The operation a one-step expression practises; undefined for a bare number or several steps
+export const getPuzzleOperation = (expression: Expression): PuzzleOperation | undefined => {
+    if (countOperations(expression) !== 1) return undefined;
+    switch (expression.kind) {
+        case 'binary': return OPERATOR_OPERATIONS[expression.operator];
+        case 'power': return 'SQUARE';
+        case 'root': return 'ROOT';
+        default: return undefined;
+    }
+};
+
+// --- Printing ---
+
+const precedence = (expression: Expression): number => {
+    switch (expression.kind) {
+        case 'binary': return expression.operator === '+' || expression.operator === '−' ? 1 : 2;
+        case 'root': return 3;
+        case 'power': return 4;
+        case 'number': return 5;
+    }
+};
+
+const superscript = (n: number) => String(n).split('').map(d => SUPERSCRIPT_DIGITS[Number(d)]).join('');
+
+/**
+ * Which children need brackets when printed. A right operand of equal precedence keeps its
+ * brackets too, so "8 − (3 + 2)" and "8 − 3 + 2" print (and are worked through) as written.
+ */
+const bracketed = (parent: Expression, child: Expression): boolean => {
+    switch (parent.kind) {
+        case 'binary':
+            return child === parent.right ? precedence(child) <= precedence(parent) : precedence(child) < precedence(parent);
+        case 'power': return child.kind !== 'number';
+        case 'root': return precedence(child) < precedence(parent);
+        default: return false;
+    }
+};
+
+export const formatExpression = (expression: Expression): string => {
+    const child = (sub: Expression) => bracketed(expression, sub) ? `(${formatExpression(sub)})` : formatExpression(sub);
+    switch (expression.kind) {
+        case 'number': return String(expression.value);
+        case 'binary': return `${child(expression.left)} ${expression.operator} ${child(expression.right)}`;
+        case 'power': return `${child(expression.base)}${superscript(expression.exponent)}`;
+        case 'root': return `√${child(expression.operand)}`;
+    }
+};
+
+// --- Worked solutions ---
+
+export interface WorkedStep {
+    // The operation done in this step, e.g. "4 × 2 = 8"
+    work: string;
+    // The whole expression afterwards, e.g. "3 + 8"
+    result: string;
+}
+
+type ChildKey = 'left' | 'right' | 'base' | 'operand';
+type Path = ChildKey[];
+
+// A node's children, each with the key it sits under
+const childrenOf = (expression: Expression): [ChildKey, Expression][] => {
+    switch (expression.kind) {
+        case 'number': return [];
+        case 'binary': return [['left', expression.left], ['right', expression.right]];
+        case 'power': return [['base', expression.base]];
+        case 'root': return [['operand', expression.operand]];
+    }
+};
+
+const childAt = (expression: Expression, key: ChildKey): Expression => {
+    const child = childrenOf(expression).find(([k]) => k === key);
+    if (!child) throw new Error(`A ${expression.kind} node has no ${key}`);
+    return child[1];
+};
+
+const withChild = (expression: Expression, key: ChildKey, child: Expression): Expression => {
+    switch (expression.kind) {
+        case 'number': return expression;
+        case 'binary': return key === 'left' ? { ...expression, left: child } : { ...expression, right: child };
+        case 'power': return { ...expression, base: child };
+        case 'root': return { ...expression, operand: child };
+    }
+};
+
+const replaceAt = (expression: Expression, path: Path, replacement: Expression): Expression => {
+    if (path.length === 0) return replacement;
+    const [key, ...rest] = path;
+    return withChild(expression, key, replaceAt(childAt(expression, key), rest, replacement));
+};
+
+/**
+ * One step per operation, in the order a student would work: brackets first (innermost first),
+ * then roots and powers, then × and ÷, then + and −, each from left to right.
+ */
+export const getWorkedSteps = (expression: Expression): WorkedStep[] => {
+    const steps: WorkedStep[] = [];
+    let current = expression;
+
+    while (current.kind !== 'number') {
+        // Operations whose operands are already numbers, left to right; `depth` counts the brackets around each
+        const ready: { path: Path, depth: number, precedence: number }[] = [];
+        const visit = (node: Expression, path: Path, depth: number) => {
+            const children = childrenOf(node);
+            if (children.length > 0 && children.every(([, child]) => child.kind === 'number')) ready.push({ path, depth, precedence: precedence(node) });
+            children.forEach(([key, child]) => visit(child, [...path, key], depth + (bracketed(node, child) ? 1 : 0)));
+        };
+        visit(current, [], 0);
+
+        const { path } = ready.reduce((best, c) => c.depth > best.depth || (c.depth === best.depth && c.precedence > best.precedence) ? c : best);
+        const node = path.reduce(childAt, current);
+        const value = evaluateExpression(node);
+        current = replaceAt(current, path, numberNode(value));
+        steps.push({ work: `${formatExpression(node)} = ${value}`, result: formatExpression(current) });
+    }
+    return steps;
+};
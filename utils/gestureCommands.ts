@@ -0,0 +1,115 @@
+import { Handedness, LandmarkList, Results } from '../types';
+import { getFingerStates, getHandScale } from './handGestureUtils';
+
+export type HandPose = 'open-palm' | 'fist' | 'thumbs-up' | 'other';
+
+// App-wide commands recognized from hand poses and movements
+export type GestureCommand = 'pause' | 'confirm' | 'skip' | 'swipe-left' | 'swipe-right';
+
+// How long each pose must be held (steadily) before it fires its command
+const POSE_HOLD_MS: Partial<Record<HandPose, number>> = {
+    'open-palm': 1500,
+    'fist': 1200,
+    'thumbs-up': 700,
+};
+
+const POSE_COMMANDS: Partial<Record<HandPose, GestureCommand>> = {
+    'open-palm': 'pause',
+    'fist': 'skip',
+    'thumbs-up': 'confirm',
+};
+
+// A held pose may drift this far (normalized) before its timer restarts
+const HOLD_TOLERANCE = 0.08;
+// Horizontal travel within the window that counts as a swipe
+const SWIPE_DISTANCE = 0.25;
+const SWIPE_WINDOW_MS = 500;
+const SWIPE_COOLDOWN_MS = 700;
+
+export const classifyHandPose = (landmarks: LandmarkList, handedness?: Handedness['label']): HandPose => {
+    const { extended, count } = getFingerStates(landmarks, handedness);
+    if (count === 5) return 'open-palm';
+    if (count === 0) return 'fist';
+    if (count === 1 && extended.thumb) {
+        // The thumb must point up, not sideways
+        const thumbMcp = landmarks[2];
+        const thumbTip = landmarks[4];
+        const rise = (thumbMcp.y - thumbTip.y) / Math.max(getHandScale(landmarks), 1e-6);
+        if (rise > 0.5 && Math.abs(thumbTip.x - thumbMcp.x) < thumbMcp.y - thumbTip.y) return 'thumbs-up';
+    }
+    return 'other';
+};
+
+export interface PendingGesture {
+    pose: HandPose;
+    command: GestureCommand;
+    progress: number;
+}
+
+/**
+ * Watches a lone hand for held poses and horizontal swipes. Nothing is recognised while two hands
+ * are in view, since two hands mean an answer (fingers on both hands, or one hand idle while the
+ * other points) or two players. Each held pose fires once and must be released before it can fire
+ * again. Swipe directions are in mirrored screen space, so "swipe-right" is a hand moving to the
+ * right as the player sees it.
+ */
+export const createGestureCommandRecognizer = () => {
+    let held: { pose: HandPose, since: number, x: number, y: number } | null = null;
+    let firedPose: HandPose | null = null;
+    let trail: { time: number, x: number }[] = [];
+    let lastSwipe = -Infinity;
+    let pending: PendingGesture | null = null;
+
+    return {
+        update: (results: Results, now: number = performance.now()): GestureCommand | null => {
+            const hands = results.multiHandLandmarks ?? [];
+            pending = null;
+            if (hands.length !== 1) {
+                held = null;
+                trail = [];
+                // A pose that already fired must still be released, even if a second hand came and went
+                if (hands.length === 0) firedPose = null;
+                return null;
+            }
+            const hand = hands[0];
+
+            const pose = classifyHandPose(hand, results.multiHandedness?.[0]?.label);
+            // Palm centre, mirrored to match the screen
+            const x = 1 - (hand[0].x + hand[9].x) / 2;
+            const y = (hand[0].y + hand[9].y) / 2;
+
+            trail.push({ time: now, x });
+            trail = trail.filter(p => now - p.time <= SWIPE_WINDOW_MS);
+            const travel = x - trail[0].x;
+            if (Math.abs(travel) > SWIPE_DISTANCE && now - lastSwipe > SWIPE_COOLDOWN_MS) {
+                lastSwipe = now;
+                trail = [];
+                held = null;
+                return travel > 0 ? 'swipe-right' : 'swipe-left';
+            }
+
+            if (pose !== firedPose) firedPose = null;
+            const command = POSE_COMMANDS[pose];
+            const holdMs = POSE_HOLD_MS[pose];
+            if (!command || !holdMs || firedPose === pose) {
+                held = null;
+                return null;
+            }
+
+            if (!held || held.pose !== pose || Math.hypot(x - held.x, y - held.y) > HOLD_TOLERANCE) {
+                held = { pose, since: now, x, y };
+            }
+            const progress = (now - held.since) / holdMs;
+            if (progress >= 1) {
+                firedPose = pose;
+                held = null;
+                return command;
+            }
+            pending = { pose, command, progress };
+            return null;
+        },
+        get pending() {
+            return pending;
+        },
+    };
+};
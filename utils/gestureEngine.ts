@@ -0,0 +1,64 @@
+import { LandmarkList } from '../types';
+import { getPinchRatio, PINCH_ENTER_RATIO, PINCH_EXIT_RATIO } from './handGestureUtils';
+
+export type PinchEventType = 'pinch-start' | 'pinch-hold' | 'pinch-release';
+
+export interface PinchEvent {
+    type: PinchEventType;
+    // True when the release was caused by the hand disappearing rather than opening
+    lostTracking?: boolean;
+}
+
+export interface PinchTrackerOptions {
+    enterRatio?: number;
+    exitRatio?: number;
+    // How long a pinching hand may vanish before the pinch is released
+    lostGraceMs?: number;
+}
+
+/**
+ * Turns per-frame landmarks of one hand into pinch-start / pinch-hold / pinch-release events.
+ * Feed it every frame, including frames where the hand is missing (pass null).
+ */
+export const createPinchTracker = ({
+    enterRatio = PINCH_ENTER_RATIO,
+    exitRatio = PINCH_EXIT_RATIO,
+    lostGraceMs = 200,
+}: PinchTrackerOptions = {}) => {
+    let pinching = false;
+    let lostSince: number | null = null;
+
+    return {
+        update: (landmarks: LandmarkList | null | undefined, now: number = performance.now()): PinchEvent | null => {
+            if (!landmarks || landmarks.length === 0) {
+                if (!pinching) return null;
+                if (lostSince === null) lostSince = now;
+                if (now - lostSince < lostGraceMs) return { type: 'pinch-hold' };
+                pinching = false;
+                lostSince = null;
+                return { type: 'pinch-release', lostTracking: true };
+            }
+            lostSince = null;
+
+            const ratio = getPinchRatio(landmarks);
+            if (!pinching && ratio < enterRatio) {
+                pinching = true;
+                return { type: 'pinch-start' };
+            }
+            if (pinching && ratio > exitRatio) {
+                pinching = false;
+                return { type: 'pinch-release' };
+            }
+            return pinching ? { type: 'pinch-hold' } : null;
+        },
+        reset: () => {
+            pinching = false;
+            lostSince = null;
+        },
+        get pinching() {
+            return pinching;
+        },
+    };
+};
+
+export type PinchTracker = ReturnType<typeof createPinchTracker>;
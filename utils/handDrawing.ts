@@ -0,0 +1,62 @@
+import { LandmarkList, Results } from '../types';
+
+// Same topology as MediaPipe's HAND_CONNECTIONS, used when the CDN drawing utils are not loaded.
+const FALLBACK_HAND_CONNECTIONS: [number, number][] = [
+    [0, 1], [1, 2], [2, 3], [3, 4],
+    [0, 5], [5, 6], [6, 7], [7, 8],
+    [5, 9], [9, 10], [10, 11], [11, 12],
+    [9, 13], [13, 14], [14, 15], [15, 16],
+    [13, 17], [0, 17], [17, 18], [18, 19], [19, 20],
+];
+
+export const RIGHT_HAND_COLOR = '#06b6d4'; // Cyan
+export const LEFT_HAND_COLOR = '#d946ef'; // Fuchsia
+
+const drawSkeleton = (ctx: CanvasRenderingContext2D, landmarks: LandmarkList, color: string) => {
+    if (window.drawConnectors && window.drawLandmarks && window.HAND_CONNECTIONS) {
+        window.drawConnectors(ctx, landmarks, window.HAND_CONNECTIONS, { color, lineWidth: 5 });
+        window.drawLandmarks(ctx, landmarks, { color: '#FFFFFF', lineWidth: 2, radius: 5 });
+        return;
+    }
+
+    const w = ctx.canvas.width;
+    const h = ctx.canvas.height;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 5;
+    for (const [a, b] of FALLBACK_HAND_CONNECTIONS) {
+        ctx.beginPath();
+        ctx.moveTo(landmarks[a].x * w, landmarks[a].y * h);
+        ctx.lineTo(landmarks[b].x * w, landmarks[b].y * h);
+        ctx.stroke();
+    }
+    ctx.fillStyle = '#FFFFFF';
+    for (const lm of landmarks) {
+        ctx.beginPath();
+        ctx.arc(lm.x * w, lm.y * h, 5, 0, 2 * Math.PI);
+        ctx.fill();
+    }
+};
+
+/**
+ * Draws every hand in `results` onto the canvas, mirrored to match the flipped video feed.
+ * Uses the MediaPipe drawing utils when available so live and replayed hands look identical.
+ */
+export const drawHandResults = (ctx: CanvasRenderingContext2D, results: Results) => {
+    const canvas = ctx.canvas;
+    ctx.save();
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+
+    // Flip horizontally to match the mirrored video feed
+    ctx.scale(-1, 1);
+    ctx.translate(-canvas.width, 0);
+
+    if (results.multiHandLandmarks && results.multiHandedness) {
+        for (let i = 0; i < results.multiHandLandmarks.length; i++) {
+            const landmarks = results.multiHandLandmarks[i];
+            const classification = results.multiHandedness[i];
+            const isRightHand = classification?.label === 'Right';
+            drawSkeleton(ctx, landmarks, isRightHand ? RIGHT_HAND_COLOR : LEFT_HAND_COLOR);
+        }
+    }
+    ctx.restore();
+};
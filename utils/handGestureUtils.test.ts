@@ -0,0 +1,68 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { LandmarkList } from '../types';
+import { countFingers, getFingerStates, getHandScale, getPinchRatio } from './handGestureUtils';
+import { parseHandRecording } from './handRecording';
+import { buildSyntheticHand, extendedForCount } from './inputSources';
+
+type Pose = { roll?: number, pitch?: number, yaw?: number };
+
+// Turns a hand about its wrist (degrees): roll in the image plane, pitch towards the camera, yaw to the side
+const turn = (hand: LandmarkList, { roll = 0, pitch = 0, yaw = 0 }: Pose): LandmarkList => {
+    const [r, p, y] = [roll, pitch, yaw].map(deg => deg * Math.PI / 180);
+    const wrist = hand[0];
+    return hand.map(point => {
+        let dx = point.x - wrist.x, dy = point.y - wrist.y, dz = point.z - wrist.z;
+        [dx, dy] = [dx * Math.cos(r) - dy * Math.sin(r), dx * Math.sin(r) + dy * Math.cos(r)];
+        [dy, dz] = [dy * Math.cos(p) - dz * Math.sin(p), dy * Math.sin(p) + dz * Math.cos(p)];
+        [dx, dz] = [dx * Math.cos(y) + dz * Math.sin(y), -dx * Math.sin(y) + dz * Math.cos(y)];
+        return { x: wrist.x + dx, y: wrist.y + dy, z: wrist.z + dz };
+    });
+};
+
+const showing = (count: number, label: 'Left' | 'Right' = 'Right') =>
+    buildSyntheticHand({ wrist: { x: 0.5, y: 0.7 }, extended: extendedForCount(count), label });
+
+const POSES: Pose[] = [{ roll: 90 }, { roll: -45 }, { pitch: 50 }, { pitch: -50 }, { yaw: 50 }, { yaw: -50 }, { roll: 30, pitch: 30, yaw: 30 }];
+
+describe('getFingerStates', () => {
+    it('counts 0 to 5 fingers on either hand', () => {
+        for (let count = 0; count <= 5; count++) {
+            expect(countFingers(showing(count), 'Right')).toBe(count);
+            expect(countFingers(showing(count, 'Left'), 'Left')).toBe(count);
+        }
+    });
+
+    it('names the extended fingers in counting order', () => {
+        expect(getFingerStates(showing(2)).extended).toEqual({ thumb: false, index: true, middle: true, ring: false, pinky: false });
+        expect(getFingerStates(showing(5)).extended.thumb).toBe(true);
+    });
+
+    it('counts the same when the hand is rolled, tilted towards the camera or turned sideways', () => {
+        for (const pose of POSES) {
+            for (let count = 0; count <= 5; count++) {
+                expect({ pose, count: countFingers(turn(showing(count), pose), 'Right') }).toEqual({ pose, count });
+            }
+        }
+    });
+
+    it('tells which way the palm faces from the handedness', () => {
+        expect(getFingerStates(showing(5), 'Right').palmFacingCamera).toBe(true);
+        expect(getFingerStates(turn(showing(5), { yaw: 180 }), 'Right').palmFacingCamera).toBe(false);
+        expect(getFingerStates(showing(5)).palmFacingCamera).toBeNull();
+    });
+
+    it('reads the counts from a saved recording', () => {
+        const { frames } = parseHandRecording(readFileSync('utils/fixtures/counting.mhands.jsonl', 'utf8'));
+        const counts = frames.map(frame => countFingers(frame.multiHandLandmarks[0], frame.multiHandedness[0].label));
+        expect(counts).toEqual([0, 1, 2, 3, 4, 5, 0, 1, 2, 3, 4, 5, 0, 1, 2, 3, 4, 5]);
+    });
+});
+
+describe('getHandScale', () => {
+    it('keeps its size when the hand tilts towards the camera', () => {
+        const hand = showing(5);
+        expect(getHandScale(turn(hand, { pitch: 60 }))).toBeCloseTo(getHandScale(hand));
+        expect(getPinchRatio(turn(hand, { pitch: 60, yaw: 30 }))).toBeCloseTo(getPinchRatio(hand));
+    });
+});
@@ -1,45 +1,94 @@
 
-import { LandmarkList } from '../types';
+import { FingerName, FingerStates, Handedness, Landmark, LandmarkList } from '../types';
 
-const FINGER_TIPS = [8, 12, 16, 20];
-const FINGER_PIPS = [6, 10, 14, 18];
 const THUMB_TIP = 4;
-const THUMB_IP = 3;
-
-export const countFingers = (landmarks: LandmarkList): number => {
-    if (!landmarks || landmarks.length === 0) return 0;
-
-    let fingerCount = 0;
-    
-    // Simple vertical check, assumes hand is upright
-    const wristY = landmarks[0].y;
-
-    // Thumb: Check based on x position relative to palm for horizontal extension
-    // This is more robust than a simple y check for the thumb.
-    // Check if thumb tip is to the left of the point between thumb_ip and thumb_mcp (for right hand)
-    const isRightHand = landmarks[THUMB_TIP].x < landmarks[17].x; // A heuristic for right hand
-    if (isRightHand) {
-      if (landmarks[THUMB_TIP].x < landmarks[THUMB_IP].x) fingerCount++;
-    } else { // Left hand
-      if (landmarks[THUMB_TIP].x > landmarks[THUMB_IP].x) fingerCount++;
-    }
+const INDEX_MCP = 5;
+const PINKY_MCP = 17;
+
+// MCP, PIP, DIP, TIP for each finger (CMC, MCP, IP, TIP for the thumb)
+const FINGER_JOINTS: Record<FingerName, number[]> = {
+    thumb: [1, 2, 3, 4],
+    index: [5, 6, 7, 8],
+    middle: [9, 10, 11, 12],
+    ring: [13, 14, 15, 16],
+    pinky: [17, 18, 19, 20],
+};
+
+// Summed bend (degrees) of the two outer joints below which a finger counts as extended
+const FINGER_BEND_LIMIT = 70;
+const THUMB_BEND_LIMIT = 50;
+// How far past the index knuckle, across the palm, the thumb tip must reach (fraction of hand size)
+const THUMB_SPREAD_MIN = 0.3;
+
+type Vec3 = { x: number, y: number, z: number };
+const sub = (a: Landmark, b: Landmark): Vec3 => ({ x: a.x - b.x, y: a.y - b.y, z: a.z - b.z });
+const dot = (a: Vec3, b: Vec3) => a.x * b.x + a.y * b.y + a.z * b.z;
+const length = (a: Vec3) => Math.sqrt(dot(a, a));
+
+// Deviation from straight at joint b, in degrees, using all three axes
+const bendAt = (a: Landmark, b: Landmark, c: Landmark): number => {
+    const v1 = sub(b, a);
+    const v2 = sub(c, b);
+    const denom = length(v1) * length(v2);
+    if (denom === 0) return 0;
+    const cos = Math.min(1, Math.max(-1, dot(v1, v2) / denom));
+    return Math.acos(cos) * (180 / Math.PI);
+};
+
+/**
+ * Reads each finger as extended or curled from 3D joint angles, so tilted and sideways hands
+ * count the same as upright ones. The thumb is judged by how straight it is and whether its tip
+ * reaches out past the index knuckle, measured along the palm's own index-to-pinky axis.
+ *
+ * `handedness` is MediaPipe's label for this hand (from `multiHandedness`); it is only needed to
+ * tell which way the palm faces, since finger extension itself does not depend on it.
+ */
+export const getFingerStates = (landmarks: LandmarkList, handedness?: Handedness['label']): FingerStates => {
+    const extended: Record<FingerName, boolean> = { thumb: false, index: false, middle: false, ring: false, pinky: false };
+    if (!landmarks || landmarks.length < 21) return { extended, count: 0, palmFacingCamera: null };
 
-    // Other 4 fingers
-    for (let i = 0; i < 4; i++) {
-        if (landmarks[FINGER_TIPS[i]].y < landmarks[FINGER_PIPS[i]].y) {
-            fingerCount++;
-        }
+    const wrist = landmarks[0];
+    for (const finger of ['index', 'middle', 'ring', 'pinky'] as FingerName[]) {
+        const [mcp, pip, dip, tip] = FINGER_JOINTS[finger].map(i => landmarks[i]);
+        extended[finger] = bendAt(mcp, pip, dip) + bendAt(pip, dip, tip) < FINGER_BEND_LIMIT;
     }
 
-    return fingerCount;
+    const [cmc, thumbMcp, ip, thumbTip] = FINGER_JOINTS.thumb.map(i => landmarks[i]);
+    const thumbStraight = bendAt(cmc, thumbMcp, ip) + bendAt(thumbMcp, ip, thumbTip) < THUMB_BEND_LIMIT;
+    const across = sub(landmarks[INDEX_MCP], landmarks[PINKY_MCP]);
+    const acrossLength = length(across);
+    const spread = acrossLength > 0 ? dot(sub(thumbTip, landmarks[INDEX_MCP]), across) / acrossLength : 0;
+    extended.thumb = thumbStraight && spread / Math.max(getHandScale(landmarks), 1e-6) > THUMB_SPREAD_MIN;
+
+    // Palm normal from the wrist and the index/pinky knuckles; its sign flips between left and right hands
+    const toIndex = sub(landmarks[INDEX_MCP], wrist);
+    const toPinky = sub(landmarks[PINKY_MCP], wrist);
+    const normalZ = toIndex.x * toPinky.y - toIndex.y * toPinky.x;
+    const palmFacingCamera = handedness ? (handedness === 'Right' ? normalZ > 0 : normalZ < 0) : null;
+
+    const count = Object.values(extended).filter(Boolean).length;
+    return { extended, count, palmFacingCamera };
+};
+
+export const countFingers = (landmarks: LandmarkList, handedness?: Handedness['label']): number => {
+    return getFingerStates(landmarks, handedness).count;
 };
 
+// Pinch thresholds as a fraction of hand size; exit is looser than enter so a held pinch doesn't flicker
+export const PINCH_ENTER_RATIO = 0.35;
+export const PINCH_EXIT_RATIO = 0.5;
+
+// Wrist to middle-finger MCP in 3D, a length that barely changes as the fingers move or the hand tilts
+export const getHandScale = (landmarks: LandmarkList): number => length(sub(landmarks[0], landmarks[9]));
+
+// Thumb-to-index distance relative to hand size, so the same pinch reads the same near or far from the camera, and tilted
+export const getPinchRatio = (landmarks: LandmarkList): number =>
+    length(sub(landmarks[THUMB_TIP], landmarks[8])) / Math.max(getHandScale(landmarks), 1e-6);
+
+// Single-frame check; games should use the pinch tracker in gestureEngine.ts for start/hold/release events
 export const isPinching = (landmarks: LandmarkList): boolean => {
     if (!landmarks || landmarks.length === 0) return false;
-    const thumbTip = landmarks[THUMB_TIP];
-    const indexTip = landmarks[8];
-    const distance = Math.hypot(thumbTip.x - indexTip.x, thumbTip.y - indexTip.y);
-    return distance < 0.05;
+    return getPinchRatio(landmarks) < PINCH_ENTER_RATIO;
 };
 
 export const getIndexFingerTipCoordinates = (landmarks: LandmarkList): { x: number, y: number } | null => {
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { HandRecording } from '../types';
+import { parseHandRecording, serializeHandRecording } from './handRecording';
+
+const hand = (x: number) => Array.from({ length: 21 }, (_, i) => ({ x, y: i / 20, z: 0 }));
+
+const recording: HandRecording = {
+    version: 1,
+    createdAt: '2026-01-01T10:00:00.000Z',
+    note: 'two hands, then none',
+    frames: [
+        {
+            timestamp: 0,
+            multiHandLandmarks: [hand(0.25), hand(0.75)],
+            multiHandedness: [{ index: 0, score: 0.97, label: 'Left' }, { index: 1, score: 0.9, label: 'Right' }],
+        },
+        { timestamp: 33, multiHandLandmarks: [], multiHandedness: [] },
+    ],
+};
+
+const header = (version: unknown) => JSON.stringify({ format: 'mathiverse-hands', version, createdAt: recording.createdAt, frameCount: 0 });
+
+describe('parseHandRecording', () => {
+    it('reads back a saved recording', () => {
+        expect(parseHandRecording(serializeHandRecording(recording))).toEqual(recording);
+    });
+
+    it('reads the older JSON replay files', () => {
+        const { frames } = recording;
+        expect(parseHandRecording(JSON.stringify(frames)).frames).toEqual(frames);
+        expect(parseHandRecording(JSON.stringify({ frames }, null, 2)).frames).toEqual(frames);
+        expect(parseHandRecording(JSON.stringify([{ multiHandLandmarks: [hand(0.5)] }])).frames).toEqual([
+            { timestamp: 0, multiHandLandmarks: [hand(0.5)], multiHandedness: [{ index: 0, score: 0, label: 'Right' }] },
+        ]);
+    });
+
+    it('rejects versions it does not know', () => {
+        expect(parseHandRecording(header(1)).frames).toEqual([]);
+        expect(() => parseHandRecording(header(0))).toThrow('Unsupported recording version 0');
+        expect(() => parseHandRecording(header(2))).toThrow('Unsupported recording version 2');
+        expect(() => parseHandRecording(header('1'))).toThrow('Unsupported recording version 1');
+    });
+
+    it('says which line is malformed', () => {
+        expect(() => parseHandRecording('{"format":"other"}')).toThrow('Not a Mathiverse hand recording');
+        expect(() => parseHandRecording(`${header(1)}\n{"t":0,"hands":[]}\n{"t":`)).toThrow('Line 3: invalid JSON');
+        expect(() => parseHandRecording(`${header(1)}\n{"t":0,"hands":[{"landmarks":[[0,0]]}]}`)).toThrow('Line 2: hand 0 must have 21 landmarks');
+        expect(() => parseHandRecording(JSON.stringify({ frames: [{ multiHandLandmarks: [[{ x: 0 }]] }] }))).toThrow('Frame 1: every hand must have 21 landmarks');
+    });
+});
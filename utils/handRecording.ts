@@ -0,0 +1,185 @@
+import { HandRecording, Handedness, LandmarkList, RecordedFrame, Results } from '../types';
+
+/*
+ * Hand recording file format (.mhands.jsonl), version 1
+ *
+ * JSON Lines, UTF-8. The first line is a header object:
+ *   {"format":"mathiverse-hands","version":1,"createdAt":"2024-01-01T10:00:00.000Z","note":"...","frameCount":120}
+ *
+ * Every following line is one frame as delivered to CameraView:
+ *   {"t":33,"hands":[{"label":"Right","score":0.97,"landmarks":[[x,y,z], ... 21 points]}]}
+ *
+ * - `t` is milliseconds since the first frame.
+ * - `hands` keeps MediaPipe's order, so `hands[i]` pairs multiHandLandmarks[i] with multiHandedness[i].
+ * - Landmark coordinates are MediaPipe's normalized, unmirrored values rounded to 4 decimals.
+ *
+ * Frames with no hands are kept (with an empty `hands` array) so replays preserve tracking loss.
+ * Readers must reject a `version` they do not understand: below 1, or higher than their own.
+ */
+
+export const HAND_RECORDING_FORMAT = 'mathiverse-hands';
+export const HAND_RECORDING_VERSION = 1;
+export const HAND_RECORDING_EXTENSION = '.mhands.jsonl';
+
+const round = (n: number) => Math.round(n * 10000) / 10000;
+
+export const createHandRecorder = () => {
+    let frames: RecordedFrame[] = [];
+    let startTime: number | null = null;
+
+    return {
+        addFrame: (results: Results, now: number = performance.now()) => {
+            if (startTime === null) startTime = now;
+            frames.push({
+                timestamp: Math.round(now - startTime),
+                multiHandLandmarks: (results.multiHandLandmarks ?? []).map(hand => hand.map(lm => ({ ...lm }))),
+                multiHandedness: (results.multiHandedness ?? []).map(h => ({ ...h })),
+            });
+        },
+        finish: (note?: string): HandRecording => {
+            const recording: HandRecording = {
+                version: HAND_RECORDING_VERSION,
+                createdAt: new Date().toISOString(),
+                note,
+                frames,
+            };
+            frames = [];
+            startTime = null;
+            return recording;
+        },
+        get frameCount() {
+            return frames.length;
+        },
+    };
+};
+
+export const serializeHandRecording = (recording: HandRecording): string => {
+    const header = {
+        format: HAND_RECORDING_FORMAT,
+        version: HAND_RECORDING_VERSION,
+        createdAt: recording.createdAt,
+        note: recording.note,
+        frameCount: recording.frames.length,
+    };
+    const lines = [JSON.stringify(header)];
+    for (const frame of recording.frames) {
+        lines.push(JSON.stringify({
+            t: frame.timestamp,
+            hands: frame.multiHandLandmarks.map((landmarks, i) => ({
+                label: frame.multiHandedness[i]?.label ?? 'Right',
+                score: round(frame.multiHandedness[i]?.score ?? 0),
+                landmarks: landmarks.map(lm => [round(lm.x), round(lm.y), round(lm.z)]),
+            })),
+        }));
+    }
+    return lines.join('\n') + '\n';
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isLandmark = (value: unknown): value is { x: number, y: number, z: number } =>
+    isObject(value) && typeof value.x === 'number' && typeof value.y === 'number' && typeof value.z === 'number';
+
+const isPoint = (value: unknown): value is [number, number, number] =>
+    Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number');
+
+const parseHandedness = (raw: unknown, index: number): Handedness => ({
+    index,
+    score: isObject(raw) && typeof raw.score === 'number' ? raw.score : 0,
+    label: isObject(raw) && raw.label === 'Left' ? 'Left' : 'Right',
+});
+
+const parseFrameLine = (line: unknown, lineNumber: number): RecordedFrame => {
+    if (!isObject(line) || typeof line.t !== 'number' || !Array.isArray(line.hands)) {
+        throw new Error(`Line ${lineNumber}: expected a frame with "t" and "hands"`);
+    }
+    const multiHandLandmarks: LandmarkList[] = [];
+    const multiHandedness: Handedness[] = [];
+    line.hands.forEach((hand: unknown, index: number) => {
+        if (!isObject(hand) || !Array.isArray(hand.landmarks) || hand.landmarks.length !== 21 || !hand.landmarks.every(isPoint)) {
+            throw new Error(`Line ${lineNumber}: hand ${index} must have 21 landmarks`);
+        }
+        multiHandLandmarks.push(hand.landmarks.map(([x, y, z]) => ({ x, y, z })));
+        multiHandedness.push(parseHandedness(hand, index));
+    });
+    return { timestamp: line.t, multiHandLandmarks, multiHandedness };
+};
+
+// A frame in MediaPipe's own shape, as saved by the first replay files
+const parseResultsFrame = (frame: unknown, index: number): RecordedFrame => {
+    const hands = isObject(frame) && Array.isArray(frame.multiHandLandmarks) ? frame.multiHandLandmarks : [];
+    if (!hands.every(hand => Array.isArray(hand) && hand.length === 21 && hand.every(isLandmark))) {
+        throw new Error(`Frame ${index + 1}: every hand must have 21 landmarks`);
+    }
+    const handedness = isObject(frame) && Array.isArray(frame.multiHandedness) ? frame.multiHandedness : [];
+    return {
+        timestamp: isObject(frame) && typeof frame.timestamp === 'number' ? frame.timestamp : index * 33,
+        multiHandLandmarks: hands.map(hand => hand.map(({ x, y, z }: LandmarkList[number]) => ({ x, y, z }))),
+        multiHandedness: hands.map((_, i) => parseHandedness(handedness[i], i)),
+    };
+};
+
+/**
+ * Parses a recording file. Also accepts the JSON replay files from before the recording format: a
+ * list of MediaPipe-shaped frames (`{ timestamp, multiHandLandmarks, multiHandedness }`), bare or
+ * as `{ "frames": [...] }`, which hand-written fixtures use too.
+ */
+export const parseHandRecording = (text: string): HandRecording => {
+    const trimmed = text.trim();
+    // An older replay file is one JSON document; a recording has one per line, so it does not parse whole
+    let document: unknown;
+    try {
+        document = JSON.parse(trimmed);
+    } catch {
+        document = null;
+    }
+    const legacyFrames = Array.isArray(document) ? document : isObject(document) && Array.isArray(document.frames) ? document.frames : null;
+    if (legacyFrames) {
+        return {
+            version: HAND_RECORDING_VERSION,
+            createdAt: new Date().toISOString(),
+            frames: legacyFrames.map(parseResultsFrame),
+        };
+    }
+
+    const lines = trimmed.split('\n').filter(l => l.trim().length > 0);
+    if (lines.length === 0) throw new Error('Recording is empty');
+
+    const parseLine = (index: number): unknown => {
+        try {
+            return JSON.parse(lines[index]);
+        } catch {
+            throw new Error(`Line ${index + 1}: invalid JSON`);
+        }
+    };
+
+    const header = parseLine(0);
+    if (!isObject(header) || header.format !== HAND_RECORDING_FORMAT) {
+        throw new Error('Not a Mathiverse hand recording');
+    }
+    if (typeof header.version !== 'number' || !Number.isInteger(header.version) || header.version < 1 || header.version > HAND_RECORDING_VERSION) {
+        throw new Error(`Unsupported recording version ${header.version}`);
+    }
+
+    const frames: RecordedFrame[] = [];
+    for (let i = 1; i < lines.length; i++) {
+        frames.push(parseFrameLine(parseLine(i), i + 1));
+    }
+
+    return {
+        version: header.version,
+        createdAt: typeof header.createdAt === 'string' ? header.createdAt : new Date().toISOString(),
+        note: typeof header.note === 'string' ? header.note : undefined,
+        frames,
+    };
+};
+
+export const downloadHandRecording = (recording: HandRecording, name: string = `hands-${recording.createdAt.replace(/[:.]/g, '-')}`) => {
+    const blob = new Blob([serializeHandRecording(recording)], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = name.endsWith(HAND_RECORDING_EXTENSION) ? name : `${name}${HAND_RECORDING_EXTENSION}`;
+    a.click();
+    URL.revokeObjectURL(url);
+};
@@ -0,0 +1,931 @@
+import { Locale } from '../types';
+
+/*
+ * Message catalogs, one per locale. English is the reference: its keys define MessageKey, and the
+ * other catalogs must translate every one of them. Messages may contain {name} placeholders;
+ * numbers passed for them are written in the locale's own digits.
+ */
+
+export const LOCALES: { code: Locale, name: string }[] = [
+    { code: 'en', name: 'English' },
+    { code: 'or', name: 'ଓଡ଼ିଆ' },
+    { code: 'hi', name: 'हिन्दी' },
+];
+
+const en = {
+    'language.label': 'Language',
+
+    'common.menu': 'Menu',
+    'common.skip': 'Skip',
+    'common.pause': 'Pause',
+    'common.back': 'Back',
+    'common.score': 'Score: {score}',
+    'common.correct': 'Correct!',
+    'common.wrong': 'Wrong!',
+    'common.tryAgain': 'Try Again!',
+    'common.awesome': 'Awesome!',
+    'common.save': 'Save',
+    'common.clear': 'Clear',
+    'common.close': 'Close',
+    'common.view': 'View',
+    'common.export': 'Export',
+    'common.import': 'Import',
+    'common.on': 'On',
+    'common.off': 'Off',
+    'common.seconds': '{seconds} s',
+    'common.freePlay': 'Free play',
+    'common.challenge': 'Challenge',
+    'common.hold': 'Hold it!',
+    'common.secondsLeft': '{seconds} s left',
+    'common.points': '+{points} points!',
+    'common.timeUp': 'Time\'s up!',
+
+    'players.solo': '1 Player',
+    'players.versus': '2 Players',
+    'players.wins': '{player} wins!',
+    'players.draw': 'It\'s a draw!',
+    'player.Left': 'Pink',
+    'player.Right': 'Cyan',
+
+    'game.ARITHMETIC': 'Arithmetic Challenge',
+    'game.NUMBER_PICKER': 'Number Hunt',
+    'game.MATH_PUZZLE': 'Math Puzzle',
+    'game.RIGHT_BOX': 'Right Box Sort',
+    'game.ANGLE_MAGIC': 'Angle Magic',
+    'game.SHAPE_BUILDER': 'Shape Builder',
+    'game.CALIBRATION': 'Calibration',
+
+    'difficulty.badge': 'Level {level} · {label}',
+    'difficulty.badgeAdaptive': 'Level {level} · {label} (adaptive)',
+    'difficulty.level1': 'Starter',
+    'difficulty.level2': 'Easy',
+    'difficulty.level3': 'Medium',
+    'difficulty.level4': 'Hard',
+    'difficulty.level5': 'Expert',
+    'challenge.badge': '📅 Daily Challenge {date}',
+    'challenge.toggle': '📅 Daily Challenge {date}: {state}',
+
+    'lesson.complete': 'Lesson complete!',
+    'lesson.allDone': '{title}: all {total} done',
+
+    'gesture.pause': '✋ Hold open palm',
+    'gesture.confirm': '👍 Thumbs up',
+    'gesture.skip': '✊ Hold fist',
+    'gesture.swipe-left': '👈 Swipe',
+    'gesture.swipe-right': '👉 Swipe',
+    'gesture.pauseHint': '{gesture}: pause',
+    'gesture.skipHint': '{gesture}: skip',
+    'gesture.targetsHint': 'Rest a fingertip on Menu or Skip in the camera view to choose it',
+    'gesture.menuTargetHint': 'Rest a fingertip on Menu in the camera view to leave',
+    'paused.title': 'Paused',
+    'paused.hint': '{confirm} to resume · {pause} again for the menu',
+    'paused.resume': 'Resume',
+
+    'input.camera': 'Camera',
+    'input.pointer': 'Mouse / Touch',
+    'input.demo': 'Demo',
+    'input.replay': 'Replay',
+    'input.demoHands': 'Demo Hands',
+    'input.replayNamed': 'Replay: {name}',
+    'input.loadRecording': 'Load Recording...',
+    'camera.unavailable': 'Camera unavailable',
+    'camera.usePointer': 'Play with Mouse / Touch',
+    'camera.starting': 'Starting {source}...',
+    'camera.initializing': 'Initializing Camera...',
+    'camera.pointerHelp': 'Move to aim · hold click or Space to pinch · keys 1-9 (0 = 10) show fingers · Enter shows a thumbs-up',
+    'camera.recordTitle': 'Record hand tracking for bug reports and replays',
+    'camera.record': 'Rec',
+    'camera.stop': 'Stop',
+    'viewer.title': 'Recording Viewer',
+    'viewer.play': 'Play',
+    'viewer.position': '{frame}/{total} · {seconds} s',
+    'viewer.source': 'Source: {note}',
+    'viewer.noHands': 'No hands in this frame',
+    'viewer.fingers': 'fingers {count}',
+    'viewer.pinching': ', pinching',
+    'hand.Left': 'Left',
+    'hand.Right': 'Right',
+    'finger.thumb': 'thumb',
+    'finger.index': 'index',
+    'finger.middle': 'middle',
+    'finger.ring': 'ring',
+    'finger.pinky': 'pinky',
+
+    'arithmetic.notQuite': 'Not quite! That\'s {count}.',
+    'arithmetic.method.digits': 'Digit by digit',
+    'arithmetic.method.places': 'Tens | Units',
+    'arithmetic.help.digits': 'Show each digit and hold it, then hold a thumbs-up to answer. A fist is 0.',
+    'arithmetic.help.places': 'Tens on your left hand, units on your right. Hold still to answer.',
+    'arithmetic.help.keys': 'Press each digit\'s key (0 is zero) until it locks in, then press Enter to answer.',
+    'arithmetic.digitsOnly': 'One hand cannot show this answer\'s digits: show them one by one.',
+    'arithmetic.yourAnswer': 'Your answer:',
+    'arithmetic.holdDigit': 'Hold {digit}…',
+    'arithmetic.submitting': 'Answering {answer}…',
+    'numberPicker.prompt': 'Pinch the {type} number!',
+    'numberPicker.prompt.multiple': 'Pinch the multiple of {n}!',
+    'numberPicker.prompt.factor': 'Pinch the factor of {n}!',
+    'numberPicker.prompt.divisible': 'Pinch the number divisible by {n}!',
+    'numberPicker.findAll': 'Pinch every {type} number!',
+    'numberPicker.findAll.multiple': 'Pinch every multiple of {n}!',
+    'numberPicker.findAll.factor': 'Pinch every factor of {n}!',
+    'numberPicker.findAll.divisible': 'Pinch every number divisible by {n}!',
+    'numberPicker.found': '{found} of {total} found',
+    'numberPicker.rule.2': 'The last digit is 0, 2, 4, 6 or 8.',
+    'numberPicker.rule.3': 'The digits add up to a multiple of 3.',
+    'numberPicker.rule.4': 'The last two digits make a multiple of 4.',
+    'numberPicker.rule.5': 'The last digit is 0 or 5.',
+    'numberPicker.rule.6': 'It is even and its digits add up to a multiple of 3.',
+    'numberPicker.rule.9': 'The digits add up to a multiple of 9.',
+    'numberPicker.rule.10': 'The last digit is 0.',
+    'numberType.even': 'even',
+    'numberType.odd': 'odd',
+    'numberType.prime': 'prime',
+    'numberType.fibonacci': 'Fibonacci',
+    'numberType.composite': 'composite',
+    'numberType.square': 'square',
+    'numberType.cube': 'cube',
+    'numberType.triangular': 'triangular',
+    'numberType.multiple': 'multiple',
+    'numberType.factor': 'factor',
+    'numberType.divisible': 'divisible',
+    'puzzle.workedSolution': 'How to work it out:',
+    'puzzle.next': 'Next problem',
+
+    'rightBox.prompt': 'Sort each number into the right box!',
+    'rightBox.wrongBox': 'Wrong Box!',
+    'rightBox.belongsIn': '{number} belongs in "{bin}"',
+    'rightBox.bin.even': 'Even',
+    'rightBox.bin.odd': 'Odd',
+    'rightBox.bin.prime': 'Prime',
+    'rightBox.bin.composite': 'Composite',
+    'rightBox.bin.below': 'Less than {value}',
+    'rightBox.bin.atLeast': '{value} or more',
+    'rightBox.bin.multiple': 'Multiples of {value}',
+    'rightBox.bin.half': 'Equal to ½',
+    'rightBox.bin.other': 'None of these',
+    'angle.prompt': 'Point your fingers to make the angle!',
+    'angle.showHands': 'Show me your hands!',
+    'angle.acute': 'Acute angle',
+    'angle.right': 'Right angle',
+    'angle.obtuse': 'Obtuse angle',
+    'angle.straight': 'Straight angle',
+    'angle.reflex': 'Reflex angle',
+    'angle.complete': 'Complete angle',
+    'angle.makeDegrees': 'Make {degrees}!',
+    'angle.makeClass': 'Make this angle: {angle}',
+    'angle.tolerance': 'within ±{tolerance}°',
+
+    'shape.prompt': 'Hold up the fingers you want as corners!',
+    'shape.showFingers': 'Show at least three fingertips!',
+    'shape.make': 'Make this shape: {shape}',
+    'shape.perimeter': 'Perimeter: {value} units',
+    'shape.area': 'Area: {value} square units',
+    'shape.triangle': '{kind} triangle',
+    'shape.sides.equilateral': 'equilateral',
+    'shape.sides.isosceles': 'isosceles',
+    'shape.sides.scalene': 'scalene',
+    'shape.angles.acute': 'acute',
+    'shape.angles.right': 'right',
+    'shape.angles.obtuse': 'obtuse',
+    'shape.quad.square': 'square',
+    'shape.quad.rectangle': 'rectangle',
+    'shape.quad.rhombus': 'rhombus',
+    'shape.quad.parallelogram': 'parallelogram',
+    'shape.quad.trapezium': 'trapezium',
+    'shape.quad.kite': 'kite',
+    'shape.quad.irregular': 'quadrilateral',
+    'shape.polygon': 'polygon with {count} sides',
+
+    'calibration.reach': 'Point with your index finger and trace the edges you can reach comfortably.',
+    'calibration.open': 'Hold your hand open, thumb and index finger apart.',
+    'calibration.pinch': 'Now pinch your thumb and index finger together and hold.',
+    'calibration.tooSmall': 'That area was too small. Try moving your finger further.',
+    'calibration.noDifference': 'Open and pinched looked the same. Let\'s try again.',
+    'calibration.done': 'All set!',
+    'calibration.summary': 'Reach {width}% × {height}% of the frame · pinch at {enter}, release at {exit}',
+    'calibration.for': 'For {name}',
+    'calibration.playerName': 'Player name',
+    'calibration.redo': 'Redo',
+
+    'menu.tagline': 'An AI-powered math playground. Use your hands to interact with numbers and solve challenges in a whole new way!',
+    'menu.chooseGame': '{left} / {right} to choose a game',
+    'menu.startGame': '{confirm} to start',
+    'settings.input': 'Input:',
+    'settings.smoothing': 'Smoothing:',
+    'smoothing.off': 'Off',
+    'smoothing.low': 'Low',
+    'smoothing.high': 'High',
+    'settings.selectBy': 'Select by:',
+    'settings.pinch': 'Pinch',
+    'settings.pinchOrHold': 'Pinch or Hold Still',
+    'settings.calibration': 'Calibration:',
+    'settings.calibrate': 'Calibrate',
+    'settings.difficulty': 'Difficulty:',
+    'settings.adaptive': 'Adaptive',
+    'settings.lesson': 'Lesson:',
+    'settings.loadLesson': 'Load Lesson Pack...',
+    'error.recording': 'Could not load recording: {message}',
+    'error.lesson': 'Could not load lesson pack: {message}',
+    'error.storage': 'Progress could not be saved on this device, which may be out of storage. Export the session report to keep this session\'s attempts.',
+
+    'students.who': 'Who is playing?',
+    'students.deleteConfirm': 'Delete {name} and all their progress?',
+    'students.delete': 'Delete {name}',
+    'students.newName': 'New student name',
+    'students.add': 'Add',
+    'students.nameTaken': 'That name is already on this device.',
+    'students.guest': 'Play as guest (progress is not saved)',
+    'students.exportAll': 'Export all students\' progress',
+    'students.teacherDashboard': 'Teacher dashboard',
+    'progress.guest': 'Playing as guest',
+    'progress.choose': 'Choose student',
+    'progress.export': 'Export progress',
+    'progress.switch': 'Switch student',
+    'progress.none': 'No games played yet.',
+    'progress.bestScores': 'Best scores',
+    'progress.skills': 'Skills',
+    'progress.attempts': '{count} attempts',
+    'mastery.learning': 'Learning',
+    'mastery.practising': 'Practising',
+    'mastery.mastered': 'Mastered',
+    'report.label': 'Report:',
+    'report.session': 'This session',
+    'report.all': 'All time',
+    'report.csv': 'CSV',
+    'report.printable': 'Printable report',
+
+    'dashboard.title': 'Teacher Dashboard',
+    'dashboard.back': 'Students',
+    'dashboard.import': 'Import progress files...',
+    'dashboard.allGames': 'All games',
+    'dashboard.summary': '{students} students from {files} files',
+    'dashboard.help': 'Export progress on each device (student picker → "Export all students\' progress") and import the {extension} files here.',
+    'dashboard.student': 'Student',
+    'dashboard.legend': 'Cells show accuracy over the last 10 attempts at each skill. Click a cell or name for the attempt timeline.',
+    'dashboard.time': 'Time',
+    'dashboard.game': 'Game',
+    'dashboard.problem': 'Problem',
+    'dashboard.answer': 'Answer',
+    'dashboard.response': 'Response',
+
+    'skill.addition': 'Addition',
+    'skill.subtraction': 'Subtraction',
+    'skill.multiplication': 'Multiplication',
+    'skill.division': 'Division',
+    'skill.squares': 'Squares',
+    'skill.roots': 'Square roots',
+    'skill.mixed': 'Mixed operations',
+    'skill.missing-addend': 'Missing addends',
+    'skill.even': 'Even numbers',
+    'skill.odd': 'Odd numbers',
+    'skill.prime': 'Prime numbers',
+    'skill.fibonacci': 'Fibonacci numbers',
+    'skill.composite': 'Composite numbers',
+    'skill.perfect-square': 'Perfect squares',
+    'skill.cube': 'Cube numbers',
+    'skill.triangular': 'Triangular numbers',
+    'skill.multiple': 'Multiples',
+    'skill.factor': 'Factors',
+    'skill.divisible': 'Divisibility rules',
+    'skill.comparing': 'Comparing numbers',
+    'skill.equivalent-fractions': 'Equivalent fractions',
+    'skill.angle-acute': 'Acute angles',
+    'skill.angle-right': 'Right angles',
+    'skill.angle-obtuse': 'Obtuse angles',
+    'skill.angle-straight': 'Straight angles',
+    'skill.angle-reflex': 'Reflex angles',
+    'skill.angle-complete': 'Complete angles',
+    'skill.triangles': 'Triangles',
+    'skill.quadrilaterals': 'Quadrilaterals',
+};
+
+export type MessageKey = keyof typeof en;
+
+type Catalog = Record<MessageKey, string>;
+
+const or: Catalog = {
+    'language.label': 'ଭାଷା',
+
+    'common.menu': 'ମେନୁ',
+    'common.skip': 'ଛାଡ଼',
+    'common.pause': 'ବିରତି',
+    'common.back': 'ପଛକୁ',
+    'common.score': 'ସ୍କୋର: {score}',
+    'common.correct': 'ଠିକ୍!',
+    'common.wrong': 'ଭୁଲ୍!',
+    'common.tryAgain': 'ପୁଣି ଚେଷ୍ଟା କର!',
+    'common.awesome': 'ବହୁତ ଭଲ!',
+    'common.save': 'ସେଭ୍ କର',
+    'common.clear': 'ହଟାଅ',
+    'common.close': 'ବନ୍ଦ କର',
+    'common.view': 'ଦେଖ',
+    'common.export': 'ଏକ୍ସପୋର୍ଟ',
+    'common.import': 'ଇମ୍ପୋର୍ଟ',
+    'common.on': 'ଚାଲୁ',
+    'common.off': 'ବନ୍ଦ',
+    'common.seconds': '{seconds} ସେ',
+    'common.freePlay': 'ମୁକ୍ତ ଖେଳ',
+    'common.challenge': 'ଚ୍ୟାଲେଞ୍ଜ',
+    'common.hold': 'ଧରି ରଖ!',
+    'common.secondsLeft': '{seconds} ସେ ବାକି',
+    'common.points': '+{points} ପଏଣ୍ଟ!',
+    'common.timeUp': 'ସମୟ ସରିଗଲା!',
+
+    'players.solo': '୧ ଜଣ ଖେଳାଳି',
+    'players.versus': '୨ ଜଣ ଖେଳାଳି',
+    'players.wins': '{player} ଜିତିଲା!',
+    'players.draw': 'ଡ୍ର ହେଲା!',
+    'player.Left': 'ଗୋଲାପୀ',
+    'player.Right': 'ଆକାଶୀ',
+
+    'game.ARITHMETIC': 'ଗଣିତ ଚ୍ୟାଲେଞ୍ଜ',
+    'game.NUMBER_PICKER': 'ସଂଖ୍ୟା ଖୋଜ',
+    'game.MATH_PUZZLE': 'ଗଣିତ ପଜଲ୍',
+    'game.RIGHT_BOX': 'ଠିକ୍ ବାକ୍ସ',
+    'game.ANGLE_MAGIC': 'କୋଣ ଯାଦୁ',
+    'game.SHAPE_BUILDER': 'ଆକାର ନିର୍ମାଣ',
+    'game.CALIBRATION': 'କ୍ୟାଲିବ୍ରେସନ୍',
+
+    'difficulty.badge': 'ସ୍ତର {level} · {label}',
+    'difficulty.badgeAdaptive': 'ସ୍ତର {level} · {label} (ସ୍ୱୟଂଚାଳିତ)',
+    'difficulty.level1': 'ଆରମ୍ଭ',
+    'difficulty.level2': 'ସହଜ',
+    'difficulty.level3': 'ମଧ୍ୟମ',
+    'difficulty.level4': 'କଠିନ',
+    'difficulty.level5': 'ବିଶେଷଜ୍ଞ',
+    'challenge.badge': '📅 ଦୈନିକ ଚ୍ୟାଲେଞ୍ଜ {date}',
+    'challenge.toggle': '📅 ଦୈନିକ ଚ୍ୟାଲେଞ୍ଜ {date}: {state}',
+
+    'lesson.complete': 'ପାଠ ସମ୍ପୂର୍ଣ୍ଣ!',
+    'lesson.allDone': '{title}: ସମସ୍ତ {total}ଟି ସରିଲା',
+
+    'gesture.pause': '✋ ଖୋଲା ପାପୁଲି ଧରି ରଖ',
+    'gesture.confirm': '👍 ବୁଢ଼ା ଆଙ୍ଗୁଠି ଉପରକୁ',
+    'gesture.skip': '✊ ମୁଠା ଧରି ରଖ',
+    'gesture.swipe-left': '👈 ସ୍ୱାଇପ୍',
+    'gesture.swipe-right': '👉 ସ୍ୱାଇପ୍',
+    'gesture.pauseHint': '{gesture}: ବିରତି',
+    'gesture.skipHint': '{gesture}: ଛାଡ଼',
+    'gesture.targetsHint': 'ବାଛିବା ପାଇଁ କ୍ୟାମେରା ଦୃଶ୍ୟରେ ମେନୁ କିମ୍ବା ଛାଡ଼ ଉପରେ ଆଙ୍ଗୁଠି ଟିପ ରଖ',
+    'gesture.menuTargetHint': 'ବାହାରିବା ପାଇଁ କ୍ୟାମେରା ଦୃଶ୍ୟରେ ମେନୁ ଉପରେ ଆଙ୍ଗୁଠି ଟିପ ରଖ',
+    'paused.title': 'ବିରତି',
+    'paused.hint': 'ପୁଣି ଆରମ୍ଭ ପାଇଁ {confirm} · ମେନୁ ପାଇଁ ପୁଣି {pause}',
+    'paused.resume': 'ପୁଣି ଆରମ୍ଭ',
+
+    'input.camera': 'କ୍ୟାମେରା',
+    'input.pointer': 'ମାଉସ୍ / ଟଚ୍',
+    'input.demo': 'ଡେମୋ',
+    'input.replay': 'ରିପ୍ଲେ',
+    'input.demoHands': 'ଡେମୋ ହାତ',
+    'input.replayNamed': 'ରିପ୍ଲେ: {name}',
+    'input.loadRecording': 'ରେକର୍ଡିଂ ଲୋଡ୍ କର...',
+    'camera.unavailable': 'କ୍ୟାମେରା ଉପଲବ୍ଧ ନାହିଁ',
+    'camera.usePointer': 'ମାଉସ୍ / ଟଚ୍ ସହ ଖେଳ',
+    'camera.starting': '{source} ଆରମ୍ଭ ହେଉଛି...',
+    'camera.initializing': 'କ୍ୟାମେରା ଆରମ୍ଭ ହେଉଛି...',
+    'camera.pointerHelp': 'ଲକ୍ଷ୍ୟ ପାଇଁ ଘୁଞ୍ଚାଅ · ପିଞ୍ଚ ପାଇଁ କ୍ଲିକ୍ ବା Space ଧରି ରଖ · 1-9 କି (0 = 10) ଆଙ୍ଗୁଠି ଦେଖାଏ · Enter ଥମ୍ସ-ଅପ୍ ଦେଖାଏ',
+    'camera.recordTitle': 'ତ୍ରୁଟି ରିପୋର୍ଟ ଓ ରିପ୍ଲେ ପାଇଁ ହାତ ଟ୍ରାକିଂ ରେକର୍ଡ କର',
+    'camera.record': 'ରେକର୍ଡ',
+    'camera.stop': 'ବନ୍ଦ',
+    'viewer.title': 'ରେକର୍ଡିଂ ଦର୍ଶକ',
+    'viewer.play': 'ଚଲାଅ',
+    'viewer.position': '{frame}/{total} · {seconds} ସେ',
+    'viewer.source': 'ଉତ୍ସ: {note}',
+    'viewer.noHands': 'ଏହି ଫ୍ରେମରେ କୌଣସି ହାତ ନାହିଁ',
+    'viewer.fingers': 'ଆଙ୍ଗୁଠି {count}',
+    'viewer.pinching': ', ପିଞ୍ଚ କରୁଛି',
+    'hand.Left': 'ବାମ',
+    'hand.Right': 'ଡାହାଣ',
+    'finger.thumb': 'ବୁଢ଼ା ଆଙ୍ଗୁଠି',
+    'finger.index': 'ତର୍ଜନୀ',
+    'finger.middle': 'ମଧ୍ୟମା',
+    'finger.ring': 'ଅନାମିକା',
+    'finger.pinky': 'କନିଷ୍ଠା',
+
+    'arithmetic.notQuite': 'ଠିକ୍ ନୁହେଁ! ତାହା {count}।',
+    'arithmetic.method.digits': 'ଅଙ୍କ ପରେ ଅଙ୍କ',
+    'arithmetic.method.places': 'ଦଶକ | ଏକକ',
+    'arithmetic.help.digits': 'ପ୍ରତ୍ୟେକ ଅଙ୍କ ଦେଖାଇ ଧରି ରଖ, ତା\'ପରେ ଉତ୍ତର ଦେବାକୁ ଥମ୍ସ-ଅପ୍ ଧରି ରଖ। ମୁଠା ହେଉଛି 0।',
+    'arithmetic.help.places': 'ବାମ ହାତରେ ଦଶକ, ଡାହାଣ ହାତରେ ଏକକ। ଉତ୍ତର ଦେବାକୁ ସ୍ଥିର ରଖ।',
+    'arithmetic.help.keys': 'ପ୍ରତ୍ୟେକ ଅଙ୍କର କି ଦବାଅ (0 ହେଉଛି ଶୂନ) ଯେପର୍ଯ୍ୟନ୍ତ ତାହା ଲକ୍ ନ ହୁଏ, ତା\'ପରେ ଉତ୍ତର ଦେବାକୁ Enter ଦବାଅ।',
+    'arithmetic.digitsOnly': 'ଗୋଟିଏ ହାତରେ ଏହି ଉତ୍ତରର ଅଙ୍କ ଦେଖାଯାଇପାରିବ ନାହିଁ: ଗୋଟି ଗୋଟି କରି ଦେଖାଅ।',
+    'arithmetic.yourAnswer': 'ତୁମ ଉତ୍ତର:',
+    'arithmetic.holdDigit': '{digit} ଧରି ରଖ…',
+    'arithmetic.submitting': '{answer} ଉତ୍ତର ଦେଉଛ…',
+    'numberPicker.prompt': '{type} ସଂଖ୍ୟାକୁ ପିଞ୍ଚ କର!',
+    'numberPicker.prompt.multiple': '{n} ର ଗୁଣିତକକୁ ପିଞ୍ଚ କର!',
+    'numberPicker.prompt.factor': '{n} ର ଗୁଣନୀୟକକୁ ପିଞ୍ଚ କର!',
+    'numberPicker.prompt.divisible': '{n} ଦ୍ୱାରା ବିଭାଜ୍ୟ ସଂଖ୍ୟାକୁ ପିଞ୍ଚ କର!',
+    'numberPicker.findAll': 'ସବୁ {type} ସଂଖ୍ୟାକୁ ପିଞ୍ଚ କର!',
+    'numberPicker.findAll.multiple': '{n} ର ସବୁ ଗୁଣିତକକୁ ପିଞ୍ଚ କର!',
+    'numberPicker.findAll.factor': '{n} ର ସବୁ ଗୁଣନୀୟକକୁ ପିଞ୍ଚ କର!',
+    'numberPicker.findAll.divisible': '{n} ଦ୍ୱାରା ବିଭାଜ୍ୟ ସବୁ ସଂଖ୍ୟାକୁ ପିଞ୍ଚ କର!',
+    'numberPicker.found': '{total} ମଧ୍ୟରୁ {found} ମିଳିଲା',
+    'numberPicker.rule.2': 'ଶେଷ ଅଙ୍କ 0, 2, 4, 6 କିମ୍ବା 8।',
+    'numberPicker.rule.3': 'ଅଙ୍କଗୁଡ଼ିକର ଯୋଗଫଳ 3 ର ଗୁଣିତକ।',
+    'numberPicker.rule.4': 'ଶେଷ ଦୁଇ ଅଙ୍କରେ ଗଠିତ ସଂଖ୍ୟା 4 ର ଗୁଣିତକ।',
+    'numberPicker.rule.5': 'ଶେଷ ଅଙ୍କ 0 କିମ୍ବା 5।',
+    'numberPicker.rule.6': 'ସଂଖ୍ୟାଟି ଯୁଗ୍ମ ଏବଂ ଅଙ୍କଗୁଡ଼ିକର ଯୋଗଫଳ 3 ର ଗୁଣିତକ।',
+    'numberPicker.rule.9': 'ଅଙ୍କଗୁଡ଼ିକର ଯୋଗଫଳ 9 ର ଗୁଣିତକ।',
+    'numberPicker.rule.10': 'ଶେଷ ଅଙ୍କ 0।',
+    'numberType.even': 'ଯୁଗ୍ମ',
+    'numberType.odd': 'ଅଯୁଗ୍ମ',
+    'numberType.prime': 'ମୌଳିକ',
+    'numberType.fibonacci': 'ଫିବୋନାଚି',
+    'numberType.composite': 'ଯୌଗିକ',
+    'numberType.square': 'ବର୍ଗ',
+    'numberType.cube': 'ଘନ',
+    'numberType.triangular': 'ତ୍ରିଭୁଜାକାର',
+    'numberType.multiple': 'ଗୁଣିତକ',
+    'numberType.factor': 'ଗୁଣନୀୟକ',
+    'numberType.divisible': 'ବିଭାଜ୍ୟ',
+    'puzzle.workedSolution': 'କିପରି ସମାଧାନ କରିବା:',
+    'puzzle.next': 'ପରବର୍ତ୍ତୀ ପ୍ରଶ୍ନ',
+
+    'rightBox.prompt': 'ପ୍ରତ୍ୟେକ ସଂଖ୍ୟାକୁ ଠିକ୍ ବାକ୍ସରେ ରଖ!',
+    'rightBox.wrongBox': 'ଭୁଲ୍ ବାକ୍ସ!',
+    'rightBox.belongsIn': '{number} "{bin}" ବାକ୍ସରେ ଯିବ',
+    'rightBox.bin.even': 'ଯୁଗ୍ମ',
+    'rightBox.bin.odd': 'ଅଯୁଗ୍ମ',
+    'rightBox.bin.prime': 'ମୌଳିକ',
+    'rightBox.bin.composite': 'ଯୌଗିକ',
+    'rightBox.bin.below': '{value} ରୁ କମ୍',
+    'rightBox.bin.atLeast': '{value} କିମ୍ବା ଅଧିକ',
+    'rightBox.bin.multiple': '{value} ର ଗୁଣିତକ',
+    'rightBox.bin.half': '½ ସହ ସମାନ',
+    'rightBox.bin.other': 'ଏଥିରୁ କୌଣସିଟି ନୁହେଁ',
+    'angle.prompt': 'କୋଣ ତିଆରି କରିବାକୁ ଆଙ୍ଗୁଠି ଦେଖାଅ!',
+    'angle.showHands': 'ତୁମ ହାତ ଦେଖାଅ!',
+    'angle.acute': 'ସୂକ୍ଷ୍ମ କୋଣ',
+    'angle.right': 'ସମକୋଣ',
+    'angle.obtuse': 'ସ୍ଥୂଳ କୋଣ',
+    'angle.straight': 'ସରଳ କୋଣ',
+    'angle.reflex': 'ପ୍ରବୃଦ୍ଧ କୋଣ',
+    'angle.complete': 'ପୂର୍ଣ୍ଣ କୋଣ',
+    'angle.makeDegrees': '{degrees} ତିଆରି କର!',
+    'angle.makeClass': 'ଏହି କୋଣ ତିଆରି କର: {angle}',
+    'angle.tolerance': '±{tolerance}° ଭିତରେ',
+
+    'shape.prompt': 'ଯେଉଁ ଆଙ୍ଗୁଠିଗୁଡ଼ିକୁ କୋଣ କରିବାକୁ ଚାହଁ ସେଗୁଡ଼ିକୁ ଉଠାଅ!',
+    'shape.showFingers': 'ଅତି କମରେ ତିନୋଟି ଆଙ୍ଗୁଠି ଦେଖାଅ!',
+    'shape.make': 'ଏହି ଆକାର ତିଆରି କର: {shape}',
+    'shape.perimeter': 'ପରିସୀମା: {value} ଏକକ',
+    'shape.area': 'କ୍ଷେତ୍ରଫଳ: {value} ବର୍ଗ ଏକକ',
+    'shape.triangle': '{kind} ତ୍ରିଭୁଜ',
+    'shape.sides.equilateral': 'ସମବାହୁ',
+    'shape.sides.isosceles': 'ସମଦ୍ୱିବାହୁ',
+    'shape.sides.scalene': 'ବିଷମବାହୁ',
+    'shape.angles.acute': 'ସୂକ୍ଷ୍ମକୋଣୀ',
+    'shape.angles.right': 'ସମକୋଣୀ',
+    'shape.angles.obtuse': 'ସ୍ଥୂଳକୋଣୀ',
+    'shape.quad.square': 'ବର୍ଗ',
+    'shape.quad.rectangle': 'ଆୟତ',
+    'shape.quad.rhombus': 'ରମ୍ବସ',
+    'shape.quad.parallelogram': 'ସାମାନ୍ତରିକ',
+    'shape.quad.trapezium': 'ଟ୍ରାପିଜିୟମ୍',
+    'shape.quad.kite': 'କାଇଟ୍',
+    'shape.quad.irregular': 'ଚତୁର୍ଭୁଜ',
+    'shape.polygon': '{count} ବାହୁ ବିଶିଷ୍ଟ ବହୁଭୁଜ',
+
+    'calibration.reach': 'ତର୍ଜନୀରେ ଦେଖାଇ ଯେତେ ଦୂର ସହଜରେ ପହଞ୍ଚିପାରୁଛ ସେହି ଧାରଗୁଡ଼ିକ ଆଙ୍କ।',
+    'calibration.open': 'ହାତ ଖୋଲା ରଖ, ବୁଢ଼ା ଆଙ୍ଗୁଠି ଓ ତର୍ଜନୀ ଅଲଗା।',
+    'calibration.pinch': 'ଏବେ ବୁଢ଼ା ଆଙ୍ଗୁଠି ଓ ତର୍ଜନୀକୁ ଯୋଡ଼ି ଧରି ରଖ।',
+    'calibration.tooSmall': 'ସେହି ଜାଗା ବହୁତ ଛୋଟ ଥିଲା। ଆଙ୍ଗୁଠି ଆହୁରି ଦୂରକୁ ଘୁଞ୍ଚାଅ।',
+    'calibration.noDifference': 'ଖୋଲା ଓ ପିଞ୍ଚ ଏକା ପରି ଦେଖାଗଲା। ପୁଣି ଚେଷ୍ଟା କରିବା।',
+    'calibration.done': 'ସବୁ ପ୍ରସ୍ତୁତ!',
+    'calibration.summary': 'ପହଞ୍ଚ: ଫ୍ରେମର {width}% × {height}% · ପିଞ୍ଚ {enter}ରେ, ଛାଡ଼ {exit}ରେ',
+    'calibration.for': '{name} ପାଇଁ',
+    'calibration.playerName': 'ଖେଳାଳିଙ୍କ ନାମ',
+    'calibration.redo': 'ପୁଣି କର',
+
+    'menu.tagline': 'AI ଚାଳିତ ଗଣିତ ଖେଳପଡ଼ିଆ। ହାତ ବ୍ୟବହାର କରି ସଂଖ୍ୟା ସହ ଖେଳ ଏବଂ ନୂଆ ଉପାୟରେ ଚ୍ୟାଲେଞ୍ଜ ସମାଧାନ କର!',
+    'menu.chooseGame': 'ଖେଳ ବାଛିବା ପାଇଁ {left} / {right}',
+    'menu.startGame': 'ଆରମ୍ଭ କରିବା ପାଇଁ {confirm}',
+    'settings.input': 'ଇନପୁଟ୍:',
+    'settings.smoothing': 'ସ୍ମୁଥିଂ:',
+    'smoothing.off': 'ବନ୍ଦ',
+    'smoothing.low': 'କମ୍',
+    'smoothing.high': 'ଅଧିକ',
+    'settings.selectBy': 'ବାଛିବା ଉପାୟ:',
+    'settings.pinch': 'ପିଞ୍ଚ',
+    'settings.pinchOrHold': 'ପିଞ୍ଚ ବା ସ୍ଥିର ରଖ',
+    'settings.calibration': 'କ୍ୟାଲିବ୍ରେସନ୍:',
+    'settings.calibrate': 'କ୍ୟାଲିବ୍ରେଟ୍ କର',
+    'settings.difficulty': 'କାଠିନ୍ୟ:',
+    'settings.adaptive': 'ସ୍ୱୟଂଚାଳିତ',
+    'settings.lesson': 'ପାଠ:',
+    'settings.loadLesson': 'ପାଠ ପ୍ୟାକ୍ ଲୋଡ୍ କର...',
+    'error.recording': 'ରେକର୍ଡିଂ ଲୋଡ୍ ହେଲା ନାହିଁ: {message}',
+    'error.lesson': 'ପାଠ ପ୍ୟାକ୍ ଲୋଡ୍ ହେଲା ନାହିଁ: {message}',
+    'error.storage': 'ଏହି ଡିଭାଇସରେ ପ୍ରଗତି ସେଭ୍ ହେଲା ନାହିଁ, ହୁଏତ ଷ୍ଟୋରେଜ୍ ପୂରି ଯାଇଛି। ଏହି ସେସନର ଉତ୍ତରଗୁଡ଼ିକ ରଖିବା ପାଇଁ ସେସନ ରିପୋର୍ଟ ଏକ୍ସପୋର୍ଟ କର।',
+
+    'students.who': 'କିଏ ଖେଳୁଛି?',
+    'students.deleteConfirm': '{name} ଏବଂ ତାଙ୍କର ସମସ୍ତ ପ୍ରଗତି ହଟାଇବେ?',
+    'students.delete': '{name}ଙ୍କୁ ହଟାଅ',
+    'students.newName': 'ନୂଆ ଛାତ୍ରଙ୍କ ନାମ',
+    'students.add': 'ଯୋଡ଼',
+    'students.nameTaken': 'ଏହି ନାମ ଏହି ଡିଭାଇସରେ ପୂର୍ବରୁ ଅଛି।',
+    'students.guest': 'ଅତିଥି ଭାବେ ଖେଳ (ପ୍ରଗତି ସେଭ୍ ହେବ ନାହିଁ)',
+    'students.exportAll': 'ସମସ୍ତ ଛାତ୍ରଙ୍କ ପ୍ରଗତି ଏକ୍ସପୋର୍ଟ କର',
+    'students.teacherDashboard': 'ଶିକ୍ଷକ ଡ୍ୟାସବୋର୍ଡ',
+    'progress.guest': 'ଅତିଥି ଭାବେ ଖେଳୁଛ',
+    'progress.choose': 'ଛାତ୍ର ବାଛ',
+    'progress.export': 'ପ୍ରଗତି ଏକ୍ସପୋର୍ଟ କର',
+    'progress.switch': 'ଛାତ୍ର ବଦଳାଅ',
+    'progress.none': 'ଏପର୍ଯ୍ୟନ୍ତ କୌଣସି ଖେଳ ଖେଳା ହୋଇନାହିଁ।',
+    'progress.bestScores': 'ସର୍ବୋତ୍ତମ ସ୍କୋର',
+    'progress.skills': 'ଦକ୍ଷତା',
+    'progress.attempts': '{count}ଟି ପ୍ରୟାସ',
+    'mastery.learning': 'ଶିଖୁଛି',
+    'mastery.practising': 'ଅଭ୍ୟାସ କରୁଛି',
+    'mastery.mastered': 'ଆୟତ୍ତ',
+    'report.label': 'ରିପୋର୍ଟ:',
+    'report.session': 'ଏହି ସେସନ୍',
+    'report.all': 'ସବୁ ସମୟ',
+    'report.csv': 'CSV',
+    'report.printable': 'ପ୍ରିଣ୍ଟ ଯୋଗ୍ୟ ରିପୋର୍ଟ',
+
+    'dashboard.title': 'ଶିକ୍ଷକ ଡ୍ୟାସବୋର୍ଡ',
+    'dashboard.back': 'ଛାତ୍ରଛାତ୍ରୀ',
+    'dashboard.import': 'ପ୍ରଗତି ଫାଇଲ୍ ଇମ୍ପୋର୍ଟ କର...',
+    'dashboard.allGames': 'ସମସ୍ତ ଖେଳ',
+    'dashboard.summary': '{files}ଟି ଫାଇଲରୁ {students} ଜଣ ଛାତ୍ର',
+    'dashboard.help': 'ପ୍ରତ୍ୟେକ ଡିଭାଇସରେ ପ୍ରଗତି ଏକ୍ସପୋର୍ଟ କର (ଛାତ୍ର ବାଛିବା ସ୍କ୍ରିନ୍ → "ସମସ୍ତ ଛାତ୍ରଙ୍କ ପ୍ରଗତି ଏକ୍ସପୋର୍ଟ କର") ଏବଂ {extension} ଫାଇଲଗୁଡ଼ିକ ଏଠାରେ ଇମ୍ପୋର୍ଟ କର।',
+    'dashboard.student': 'ଛାତ୍ର',
+    'dashboard.legend': 'ପ୍ରତ୍ୟେକ ଘରେ ସେହି ଦକ୍ଷତାର ଶେଷ ୧୦ଟି ପ୍ରୟାସର ସଠିକତା ଦେଖାଯାଏ। ପ୍ରୟାସ ସମୟରେଖା ପାଇଁ ଘର ବା ନାମ ଉପରେ କ୍ଲିକ୍ କର।',
+    'dashboard.time': 'ସମୟ',
+    'dashboard.game': 'ଖେଳ',
+    'dashboard.problem': 'ପ୍ରଶ୍ନ',
+    'dashboard.answer': 'ଉତ୍ତର',
+    'dashboard.response': 'ପ୍ରତିକ୍ରିୟା',
+
+    'skill.addition': 'ଯୋଗ',
+    'skill.subtraction': 'ବିୟୋଗ',
+    'skill.multiplication': 'ଗୁଣନ',
+    'skill.division': 'ହରଣ',
+    'skill.squares': 'ବର୍ଗ',
+    'skill.roots': 'ବର୍ଗମୂଳ',
+    'skill.mixed': 'ମିଶ୍ରିତ ପ୍ରକ୍ରିୟା',
+    'skill.missing-addend': 'ଅଜଣା ଯୋଗାଂଶ',
+    'skill.even': 'ଯୁଗ୍ମ ସଂଖ୍ୟା',
+    'skill.odd': 'ଅଯୁଗ୍ମ ସଂଖ୍ୟା',
+    'skill.prime': 'ମୌଳିକ ସଂଖ୍ୟା',
+    'skill.fibonacci': 'ଫିବୋନାଚି ସଂଖ୍ୟା',
+    'skill.composite': 'ଯୌଗିକ ସଂଖ୍ୟା',
+    'skill.perfect-square': 'ପୂର୍ଣ୍ଣ ବର୍ଗ',
+    'skill.cube': 'ଘନ ସଂଖ୍ୟା',
+    'skill.triangular': 'ତ୍ରିଭୁଜାକାର ସଂଖ୍ୟା',
+    'skill.multiple': 'ଗୁଣିତକ',
+    'skill.factor': 'ଗୁଣନୀୟକ',
+    'skill.divisible': 'ବିଭାଜ୍ୟତା ନିୟମ',
+    'skill.comparing': 'ସଂଖ୍ୟା ତୁଳନା',
+    'skill.equivalent-fractions': 'ସମତୁଲ୍ୟ ଭଗ୍ନାଂଶ',
+    'skill.angle-acute': 'ସୂକ୍ଷ୍ମ କୋଣ',
+    'skill.angle-right': 'ସମକୋଣ',
+    'skill.angle-obtuse': 'ସ୍ଥୂଳ କୋଣ',
+    'skill.angle-straight': 'ସରଳ କୋଣ',
+    'skill.angle-reflex': 'ପ୍ରବୃଦ୍ଧ କୋଣ',
+    'skill.angle-complete': 'ପୂର୍ଣ୍ଣ କୋଣ',
+    'skill.triangles': 'ତ୍ରିଭୁଜ',
+    'skill.quadrilaterals': 'ଚତୁର୍ଭୁଜ',
+};
+
+const hi: Catalog = {
+    'language.label': 'भाषा',
+
+    'common.menu': 'मेन्यू',
+    'common.skip': 'छोड़ें',
+    'common.pause': 'रोकें',
+    'common.back': 'वापस',
+    'common.score': 'स्कोर: {score}',
+    'common.correct': 'सही!',
+    'common.wrong': 'गलत!',
+    'common.tryAgain': 'फिर से कोशिश करो!',
+    'common.awesome': 'शानदार!',
+    'common.save': 'सहेजें',
+    'common.clear': 'हटाएँ',
+    'common.close': 'बंद करें',
+    'common.view': 'देखें',
+    'common.export': 'एक्सपोर्ट',
+    'common.import': 'इम्पोर्ट',
+    'common.on': 'चालू',
+    'common.off': 'बंद',
+    'common.seconds': '{seconds} से.',
+    'common.freePlay': 'मुक्त खेल',
+    'common.challenge': 'चुनौती',
+    'common.hold': 'रोके रखो!',
+    'common.secondsLeft': '{seconds} से. बाकी',
+    'common.points': '+{points} अंक!',
+    'common.timeUp': 'समय समाप्त!',
+
+    'players.solo': '१ खिलाड़ी',
+    'players.versus': '२ खिलाड़ी',
+    'players.wins': '{player} जीता!',
+    'players.draw': 'मुकाबला बराबर रहा!',
+    'player.Left': 'गुलाबी',
+    'player.Right': 'आसमानी',
+
+    'game.ARITHMETIC': 'अंकगणित चुनौती',
+    'game.NUMBER_PICKER': 'संख्या खोज',
+    'game.MATH_PUZZLE': 'गणित पहेली',
+    'game.RIGHT_BOX': 'सही डिब्बा',
+    'game.ANGLE_MAGIC': 'कोण जादू',
+    'game.SHAPE_BUILDER': 'आकृति निर्माता',
+    'game.CALIBRATION': 'कैलिब्रेशन',
+
+    'difficulty.badge': 'स्तर {level} · {label}',
+    'difficulty.badgeAdaptive': 'स्तर {level} · {label} (अनुकूली)',
+    'difficulty.level1': 'शुरुआत',
+    'difficulty.level2': 'आसान',
+    'difficulty.level3': 'मध्यम',
+    'difficulty.level4': 'कठिन',
+    'difficulty.level5': 'विशेषज्ञ',
+    'challenge.badge': '📅 दैनिक चुनौती {date}',
+    'challenge.toggle': '📅 दैनिक चुनौती {date}: {state}',
+
+    'lesson.complete': 'पाठ पूरा!',
+    'lesson.allDone': '{title}: सभी {total} पूरे',
+
+    'gesture.pause': '✋ खुली हथेली रोके रखो',
+    'gesture.confirm': '👍 अंगूठा ऊपर',
+    'gesture.skip': '✊ मुट्ठी रोके रखो',
+    'gesture.swipe-left': '👈 स्वाइप',
+    'gesture.swipe-right': '👉 स्वाइप',
+    'gesture.pauseHint': '{gesture}: रोकें',
+    'gesture.skipHint': '{gesture}: छोड़ें',
+    'gesture.targetsHint': 'चुनने के लिए कैमरा दृश्य में मेन्यू या छोड़ें पर उंगली का सिरा रखो',
+    'gesture.menuTargetHint': 'बाहर जाने के लिए कैमरा दृश्य में मेन्यू पर उंगली का सिरा रखो',
+    'paused.title': 'रुका हुआ',
+    'paused.hint': 'जारी रखने के लिए {confirm} · मेन्यू के लिए फिर से {pause}',
+    'paused.resume': 'जारी रखें',
+
+    'input.camera': 'कैमरा',
+    'input.pointer': 'माउस / टच',
+    'input.demo': 'डेमो',
+    'input.replay': 'रीप्ले',
+    'input.demoHands': 'डेमो हाथ',
+    'input.replayNamed': 'रीप्ले: {name}',
+    'input.loadRecording': 'रिकॉर्डिंग लोड करें...',
+    'camera.unavailable': 'कैमरा उपलब्ध नहीं है',
+    'camera.usePointer': 'माउस / टच से खेलें',
+    'camera.starting': '{source} शुरू हो रहा है...',
+    'camera.initializing': 'कैमरा शुरू हो रहा है...',
+    'camera.pointerHelp': 'निशाना लगाने के लिए घुमाएँ · पिंच के लिए क्लिक या Space दबाए रखें · 1-9 कुंजियाँ (0 = 10) उँगलियाँ दिखाती हैं · Enter अंगूठा ऊपर दिखाता है',
+    'camera.recordTitle': 'बग रिपोर्ट और रीप्ले के लिए हाथ की ट्रैकिंग रिकॉर्ड करें',
+    'camera.record': 'रिकॉर्ड',
+    'camera.stop': 'रोकें',
+    'viewer.title': 'रिकॉर्डिंग व्यूअर',
+    'viewer.play': 'चलाएँ',
+    'viewer.position': '{frame}/{total} · {seconds} से.',
+    'viewer.source': 'स्रोत: {note}',
+    'viewer.noHands': 'इस फ़्रेम में कोई हाथ नहीं',
+    'viewer.fingers': 'उँगलियाँ {count}',
+    'viewer.pinching': ', पिंच कर रहा है',
+    'hand.Left': 'बायाँ',
+    'hand.Right': 'दायाँ',
+    'finger.thumb': 'अंगूठा',
+    'finger.index': 'तर्जनी',
+    'finger.middle': 'मध्यमा',
+    'finger.ring': 'अनामिका',
+    'finger.pinky': 'कनिष्ठा',
+
+    'arithmetic.notQuite': 'सही नहीं! यह {count} है।',
+    'arithmetic.method.digits': 'एक-एक अंक',
+    'arithmetic.method.places': 'दहाई | इकाई',
+    'arithmetic.help.digits': 'हर अंक दिखाकर रोके रखो, फिर उत्तर देने के लिए अंगूठा ऊपर करके रोके रखो। मुट्ठी 0 है।',
+    'arithmetic.help.places': 'बाएँ हाथ पर दहाई, दाएँ हाथ पर इकाई। उत्तर देने के लिए स्थिर रखो।',
+    'arithmetic.help.keys': 'हर अंक की कुंजी दबाओ (0 यानी शून्य) जब तक वह पक्का न हो जाए, फिर उत्तर देने के लिए Enter दबाओ।',
+    'arithmetic.digitsOnly': 'एक हाथ पर इस उत्तर के अंक नहीं दिख सकते: एक-एक करके दिखाओ।',
+    'arithmetic.yourAnswer': 'तुम्हारा उत्तर:',
+    'arithmetic.holdDigit': '{digit} रोके रखो…',
+    'arithmetic.submitting': '{answer} उत्तर दे रहे हो…',
+    'numberPicker.prompt': '{type} संख्या को पिंच करो!',
+    'numberPicker.prompt.multiple': '{n} के गुणज को पिंच करो!',
+    'numberPicker.prompt.factor': '{n} के गुणनखंड को पिंच करो!',
+    'numberPicker.prompt.divisible': '{n} से विभाज्य संख्या को पिंच करो!',
+    'numberPicker.findAll': 'सभी {type} संख्याओं को पिंच करो!',
+    'numberPicker.findAll.multiple': '{n} के सभी गुणजों को पिंच करो!',
+    'numberPicker.findAll.factor': '{n} के सभी गुणनखंडों को पिंच करो!',
+    'numberPicker.findAll.divisible': '{n} से विभाज्य सभी संख्याओं को पिंच करो!',
+    'numberPicker.found': '{total} में से {found} मिले',
+    'numberPicker.rule.2': 'अंतिम अंक 0, 2, 4, 6 या 8 है।',
+    'numberPicker.rule.3': 'अंकों का योग 3 का गुणज है।',
+    'numberPicker.rule.4': 'अंतिम दो अंकों से बनी संख्या 4 का गुणज है।',
+    'numberPicker.rule.5': 'अंतिम अंक 0 या 5 है।',
+    'numberPicker.rule.6': 'संख्या सम है और अंकों का योग 3 का गुणज है।',
+    'numberPicker.rule.9': 'अंकों का योग 9 का गुणज है।',
+    'numberPicker.rule.10': 'अंतिम अंक 0 है।',
+    'numberType.even': 'सम',
+    'numberType.odd': 'विषम',
+    'numberType.prime': 'अभाज्य',
+    'numberType.fibonacci': 'फिबोनाची',
+    'numberType.composite': 'भाज्य',
+    'numberType.square': 'वर्ग',
+    'numberType.cube': 'घन',
+    'numberType.triangular': 'त्रिकोणीय',
+    'numberType.multiple': 'गुणज',
+    'numberType.factor': 'गुणनखंड',
+    'numberType.divisible': 'विभाज्य',
+    'puzzle.workedSolution': 'ऐसे हल करो:',
+    'puzzle.next': 'अगला सवाल',
+
+    'rightBox.prompt': 'हर संख्या को सही डिब्बे में रखो!',
+    'rightBox.wrongBox': 'गलत डिब्बा!',
+    'rightBox.belongsIn': '{number} "{bin}" डिब्बे में जाएगा',
+    'rightBox.bin.even': 'सम',
+    'rightBox.bin.odd': 'विषम',
+    'rightBox.bin.prime': 'अभाज्य',
+    'rightBox.bin.composite': 'भाज्य',
+    'rightBox.bin.below': '{value} से कम',
+    'rightBox.bin.atLeast': '{value} या अधिक',
+    'rightBox.bin.multiple': '{value} के गुणज',
+    'rightBox.bin.half': '½ के बराबर',
+    'rightBox.bin.other': 'इनमें से कोई नहीं',
+    'angle.prompt': 'कोण बनाने के लिए उँगलियाँ दिखाओ!',
+    'angle.showHands': 'अपने हाथ दिखाओ!',
+    'angle.acute': 'न्यून कोण',
+    'angle.right': 'समकोण',
+    'angle.obtuse': 'अधिक कोण',
+    'angle.straight': 'ऋजु कोण',
+    'angle.reflex': 'प्रतिवर्ती कोण',
+    'angle.complete': 'पूर्ण कोण',
+    'angle.makeDegrees': '{degrees} बनाओ!',
+    'angle.makeClass': 'यह कोण बनाओ: {angle}',
+    'angle.tolerance': '±{tolerance}° के भीतर',
+
+    'shape.prompt': 'जिन उँगलियों को कोने बनाना है, उन्हें उठाओ!',
+    'shape.showFingers': 'कम से कम तीन उँगलियाँ दिखाओ!',
+    'shape.make': 'यह आकृति बनाओ: {shape}',
+    'shape.perimeter': 'परिमाप: {value} इकाई',
+    'shape.area': 'क्षेत्रफल: {value} वर्ग इकाई',
+    'shape.triangle': '{kind} त्रिभुज',
+    'shape.sides.equilateral': 'समबाहु',
+    'shape.sides.isosceles': 'समद्विबाहु',
+    'shape.sides.scalene': 'विषमबाहु',
+    'shape.angles.acute': 'न्यूनकोण',
+    'shape.angles.right': 'समकोण',
+    'shape.angles.obtuse': 'अधिककोण',
+    'shape.quad.square': 'वर्ग',
+    'shape.quad.rectangle': 'आयत',
+    'shape.quad.rhombus': 'समचतुर्भुज',
+    'shape.quad.parallelogram': 'समांतर चतुर्भुज',
+    'shape.quad.trapezium': 'समलंब चतुर्भुज',
+    'shape.quad.kite': 'पतंग',
+    'shape.quad.irregular': 'चतुर्भुज',
+    'shape.polygon': '{count} भुजाओं वाला बहुभुज',
+
+    'calibration.reach': 'तर्जनी से इशारा करो और जहाँ तक आराम से पहुँच सको उन किनारों पर घुमाओ।',
+    'calibration.open': 'हाथ खुला रखो, अंगूठा और तर्जनी अलग।',
+    'calibration.pinch': 'अब अंगूठे और तर्जनी को मिलाकर पिंच करो और रोके रखो।',
+    'calibration.tooSmall': 'वह जगह बहुत छोटी थी। उँगली को और दूर ले जाओ।',
+    'calibration.noDifference': 'खुला और पिंच एक जैसे दिखे। फिर से कोशिश करते हैं।',
+    'calibration.done': 'सब तैयार!',
+    'calibration.summary': 'पहुँच: फ़्रेम का {width}% × {height}% · पिंच {enter} पर, छोड़ना {exit} पर',
+    'calibration.for': '{name} के लिए',
+    'calibration.playerName': 'खिलाड़ी का नाम',
+    'calibration.redo': 'फिर से करें',
+
+    'menu.tagline': 'AI से चलने वाला गणित का खेल का मैदान। अपने हाथों से संख्याओं के साथ खेलो और चुनौतियों को एक नए तरीके से हल करो!',
+    'menu.chooseGame': 'खेल चुनने के लिए {left} / {right}',
+    'menu.startGame': 'शुरू करने के लिए {confirm}',
+    'settings.input': 'इनपुट:',
+    'settings.smoothing': 'स्मूदिंग:',
+    'smoothing.off': 'बंद',
+    'smoothing.low': 'कम',
+    'smoothing.high': 'अधिक',
+    'settings.selectBy': 'चुनने का तरीका:',
+    'settings.pinch': 'पिंच',
+    'settings.pinchOrHold': 'पिंच या स्थिर रखें',
+    'settings.calibration': 'कैलिब्रेशन:',
+    'settings.calibrate': 'कैलिब्रेट करें',
+    'settings.difficulty': 'कठिनाई:',
+    'settings.adaptive': 'अनुकूली',
+    'settings.lesson': 'पाठ:',
+    'settings.loadLesson': 'पाठ पैक लोड करें...',
+    'error.recording': 'रिकॉर्डिंग लोड नहीं हो सकी: {message}',
+    'error.lesson': 'पाठ पैक लोड नहीं हो सका: {message}',
+    'error.storage': 'इस डिवाइस पर प्रगति सेव नहीं हो सकी, शायद स्टोरेज भर गया है। इस सत्र के उत्तर रखने के लिए सत्र रिपोर्ट एक्सपोर्ट करें।',
+
+    'students.who': 'कौन खेल रहा है?',
+    'students.deleteConfirm': '{name} और उनकी सारी प्रगति हटाएँ?',
+    'students.delete': '{name} को हटाएँ',
+    'students.newName': 'नए विद्यार्थी का नाम',
+    'students.add': 'जोड़ें',
+    'students.nameTaken': 'यह नाम इस डिवाइस पर पहले से है।',
+    'students.guest': 'मेहमान के रूप में खेलें (प्रगति सहेजी नहीं जाएगी)',
+    'students.exportAll': 'सभी विद्यार्थियों की प्रगति एक्सपोर्ट करें',
+    'students.teacherDashboard': 'शिक्षक डैशबोर्ड',
+    'progress.guest': 'मेहमान के रूप में खेल रहे हैं',
+    'progress.choose': 'विद्यार्थी चुनें',
+    'progress.export': 'प्रगति एक्सपोर्ट करें',
+    'progress.switch': 'विद्यार्थी बदलें',
+    'progress.none': 'अभी तक कोई खेल नहीं खेला।',
+    'progress.bestScores': 'सर्वश्रेष्ठ स्कोर',
+    'progress.skills': 'कौशल',
+    'progress.attempts': '{count} प्रयास',
+    'mastery.learning': 'सीख रहे हैं',
+    'mastery.practising': 'अभ्यास कर रहे हैं',
+    'mastery.mastered': 'महारत',
+    'report.label': 'रिपोर्ट:',
+    'report.session': 'यह सत्र',
+    'report.all': 'सारा समय',
+    'report.csv': 'CSV',
+    'report.printable': 'प्रिंट करने योग्य रिपोर्ट',
+
+    'dashboard.title': 'शिक्षक डैशबोर्ड',
+    'dashboard.back': 'विद्यार्थी',
+    'dashboard.import': 'प्रगति फ़ाइलें इम्पोर्ट करें...',
+    'dashboard.allGames': 'सभी खेल',
+    'dashboard.summary': '{files} फ़ाइलों से {students} विद्यार्थी',
+    'dashboard.help': 'हर डिवाइस पर प्रगति एक्सपोर्ट करें (विद्यार्थी चुनने की स्क्रीन → "सभी विद्यार्थियों की प्रगति एक्सपोर्ट करें") और {extension} फ़ाइलें यहाँ इम्पोर्ट करें।',
+    'dashboard.student': 'विद्यार्थी',
+    'dashboard.legend': 'हर खाने में उस कौशल के पिछले १० प्रयासों की सटीकता दिखती है। प्रयासों की समयरेखा के लिए खाने या नाम पर क्लिक करें।',
+    'dashboard.time': 'समय',
+    'dashboard.game': 'खेल',
+    'dashboard.problem': 'प्रश्न',
+    'dashboard.answer': 'उत्तर',
+    'dashboard.response': 'प्रतिक्रिया',
+
+    'skill.addition': 'जोड़',
+    'skill.subtraction': 'घटाव',
+    'skill.multiplication': 'गुणा',
+    'skill.division': 'भाग',
+    'skill.squares': 'वर्ग',
+    'skill.roots': 'वर्गमूल',
+    'skill.mixed': 'मिश्रित संक्रियाएँ',
+    'skill.missing-addend': 'लुप्त योज्य',
+    'skill.even': 'सम संख्याएँ',
+    'skill.odd': 'विषम संख्याएँ',
+    'skill.prime': 'अभाज्य संख्याएँ',
+    'skill.fibonacci': 'फिबोनाची संख्याएँ',
+    'skill.composite': 'भाज्य संख्याएँ',
+    'skill.perfect-square': 'पूर्ण वर्ग',
+    'skill.cube': 'घन संख्याएँ',
+    'skill.triangular': 'त्रिकोणीय संख्याएँ',
+    'skill.multiple': 'गुणज',
+    'skill.factor': 'गुणनखंड',
+    'skill.divisible': 'विभाज्यता के नियम',
+    'skill.comparing': 'संख्याओं की तुलना',
+    'skill.equivalent-fractions': 'तुल्य भिन्न',
+    'skill.angle-acute': 'न्यून कोण',
+    'skill.angle-right': 'समकोण',
+    'skill.angle-obtuse': 'अधिक कोण',
+    'skill.angle-straight': 'ऋजु कोण',
+    'skill.angle-reflex': 'प्रतिवर्ती कोण',
+    'skill.angle-complete': 'पूर्ण कोण',
+    'skill.triangles': 'त्रिभुज',
+    'skill.quadrilaterals': 'चतुर्भुज',
+};
+
+const CATALOGS: Record<Locale, Catalog> = { en, or, hi };
+
+// --- Numerals ---
+
+// Code point of each locale's digit zero; the other digits follow it
+const DIGIT_ZERO: Record<Locale, number> = { en: 0x30, or: 0x0B66, hi: 0x0966 };
+
+/** Writes every ASCII digit in `text` in the locale's numeral system, leaving signs, symbols and letters alone. */
+export const localizeDigits = (text: string | number, locale: Locale): string =>
+    String(text).replace(/[0-9]/g, digit => String.fromCharCode(DIGIT_ZERO[locale] + Number(digit)));
+
+// --- Messages ---
+
+export type MessageParams = Record<string, string | number>;
+
+/** Splits a template around its {name} placeholders, putting each param's value in place of its placeholder. */
+export const interpolate = <T>(template: string, params: Record<string, T>): (string | T)[] =>
+    template.split(/\{(\w+)\}/).map((part, i) => i % 2 === 0 ? part : part in params ? params[part] : `{${part}}`);
+
+export const isMessageKey = (key: string): key is MessageKey => key in en;
+
+export const translate = (locale: Locale, key: MessageKey, params: MessageParams = {}): string => {
+    const formatted = Object.fromEntries(Object.entries(params).map(([name, value]) =>
+        [name, typeof value === 'number' ? localizeDigits(value, locale) : value]));
+    return interpolate(CATALOGS[locale][key], formatted).join('');
+};
+
+// --- Persistence ---
+
+const STORAGE_KEY = 'mathiverse.locale';
+
+const isLocale = (value: unknown): value is Locale => LOCALES.some(l => l.code === value);
+
+// The saved choice, else the browser's language when we have it, else English
+export const loadLocale = (): Locale => {
+    try {
+        const saved = localStorage.getItem(STORAGE_KEY);
+        if (isLocale(saved)) return saved;
+    } catch {
+        // Storage can be unavailable in private windows
+    }
+    const browser = typeof navigator !== 'undefined' ? navigator.language.slice(0, 2) : 'en';
+    return isLocale(browser) ? browser : 'en';
+};
+
+export const saveLocale = (locale: Locale) => {
+    try {
+        localStorage.setItem(STORAGE_KEY, locale);
+    } catch {
+        // The choice then lasts only until the page is closed
+    }
+};
@@ -0,0 +1,318 @@
+import { HandInputSource, Handedness, Landmark, LandmarkList, RecordedFrame, Results } from '../types';
+
+// --- Live MediaPipe ---
+
+export const createCameraSource = (video: HTMLVideoElement): HandInputSource => {
+    let hands: any = null;
+    let camera: any = null;
+
+    return {
+        kind: 'camera',
+        label: 'Camera',
+        start: (onResults, onError) => {
+            if (!window.Hands || !window.Camera) {
+                onError?.(new Error('Hand tracking scripts failed to load'));
+                return;
+            }
+            hands = new window.Hands({
+                locateFile: (file: string) => `https://cdn.jsdelivr.net/npm/@mediapipe/hands/${file}`,
+            });
+
+            hands.setOptions({
+                maxNumHands: 2, // Detect two hands
+                modelComplexity: 1,
+                minDetectionConfidence: 0.5,
+                minTrackingConfidence: 0.5,
+            });
+
+            hands.onResults(onResults);
+
+            camera = new window.Camera(video, {
+                onFrame: async () => {
+                    await hands.send({ image: video });
+                },
+                width: 640,
+                height: 480,
+            });
+            Promise.resolve(camera.start()).catch((err: unknown) => {
+                onError?.(err instanceof Error ? err : new Error(String(err)));
+            });
+        },
+        stop: () => {
+            camera?.stop();
+            hands?.close();
+        },
+    };
+};
+
+// --- Recorded replay ---
+
+export const createReplaySource = (
+    frames: RecordedFrame[],
+    { loop = true, speed = 1 }: { loop?: boolean, speed?: number } = {}
+): HandInputSource => {
+    let timer: ReturnType<typeof setTimeout> | null = null;
+
+    return {
+        kind: 'replay',
+        label: 'Replay',
+        start: (onResults) => {
+            if (frames.length === 0) return;
+            let index = 0;
+
+            const emit = () => {
+                const frame = frames[index];
+                onResults({ multiHandLandmarks: frame.multiHandLandmarks, multiHandedness: frame.multiHandedness });
+
+                index++;
+                if (index >= frames.length) {
+                    if (!loop) return;
+                    index = 0;
+                }
+                // Wrap-around waits one typical frame instead of the whole recording length
+                const delay = index === 0 ? 33 : frames[index].timestamp - frame.timestamp;
+                timer = setTimeout(emit, Math.max(0, delay) / speed);
+            };
+            emit();
+        },
+        stop: () => {
+            if (timer) clearTimeout(timer);
+            timer = null;
+        },
+    };
+};
+
+// --- Mouse, touch and keyboard fallback ---
+
+// How long a number key keeps "showing" fingers after it is released
+const KEY_COUNT_HOLD_MS = 1200;
+
+/**
+ * Turns pointer and keyboard input into synthetic hands so the games work without a camera:
+ * the pointer drives the index fingertip, pressing (mouse down, touch or Space) pinches,
+ * number keys 1-9 (0 for ten) show that many fingers, spilling over onto a second hand above five,
+ * and Enter shows a thumbs-up. With no key down the aiming hand is a fist.
+ */
+export const createPointerSource = (surface: HTMLElement): HandInputSource => {
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let pointer: { x: number, y: number } | null = null;
+    let pointerDown = false;
+    let spaceDown = false;
+    let keyCount: { count: number, thumbsUp: boolean, heldKey: string | null, releasedAt: number } | null = null;
+
+    const toPlayArea = (e: PointerEvent) => {
+        const rect = surface.getBoundingClientRect();
+        const x = (e.clientX - rect.left) / rect.width;
+        const y = (e.clientY - rect.top) / rect.height;
+        return x >= 0 && x <= 1 && y >= 0 && y <= 1 ? { x, y } : null;
+    };
+
+    const onPointerMove = (e: PointerEvent) => {
+        pointer = toPlayArea(e);
+    };
+    const onPointerDown = (e: PointerEvent) => {
+        pointer = toPlayArea(e);
+        if (pointer) pointerDown = true;
+    };
+    const onPointerUp = (e: PointerEvent) => {
+        pointerDown = false;
+        // Touch pointers vanish when the finger lifts
+        if (e.pointerType === 'touch') pointer = null;
+    };
+    const onKeyDown = (e: KeyboardEvent) => {
+        if (e.key === ' ') {
+            spaceDown = true;
+            e.preventDefault();
+        } else if (/^[0-9]$/.test(e.key)) {
+            keyCount = { count: e.key === '0' ? 10 : Number(e.key), thumbsUp: false, heldKey: e.key, releasedAt: 0 };
+        } else if (e.key === 'Enter') {
+            keyCount = { count: 0, thumbsUp: true, heldKey: e.key, releasedAt: 0 };
+        }
+    };
+    const onKeyUp = (e: KeyboardEvent) => {
+        if (e.key === ' ') spaceDown = false;
+        if (keyCount && keyCount.heldKey === e.key) {
+            keyCount = { ...keyCount, heldKey: null, releasedAt: performance.now() };
+        }
+    };
+
+    // What the keys show: a finger count, or a thumbs-up
+    const currentKeys = () => {
+        if (keyCount && keyCount.heldKey === null && performance.now() - keyCount.releasedAt > KEY_COUNT_HOLD_MS) keyCount = null;
+        return keyCount ?? { count: 0, thumbsUp: false };
+    };
+
+    const frame = (): Results => {
+        const { count, thumbsUp } = currentKeys();
+        if (!pointer && count === 0 && !thumbsUp) return { multiHandLandmarks: [], multiHandedness: [] };
+
+        // Keyboard-only players get a hand in the middle of the play area.
+        // Mirror back into camera space: the games flip x to match the mirrored video.
+        const position = pointer ?? { x: 0.5, y: 0.5 };
+        const tip = { x: 1 - position.x, y: position.y };
+        const primary = moveIndexTipTo(buildSyntheticHand({
+            wrist: { x: 0, y: 0 },
+            extended: extendedForCount(Math.min(5, count)),
+            thumbsUp,
+            pinch: pointerDown || spaceDown,
+        }), tip);
+
+        const multiHandLandmarks = [primary];
+        const multiHandedness: Handedness[] = [{ index: 0, score: 1, label: 'Right' }];
+        if (count > 5) {
+            multiHandLandmarks.push(buildSyntheticHand({
+                wrist: { x: tip.x > 0.5 ? tip.x - 0.3 : tip.x + 0.3, y: Math.min(0.95, tip.y + 0.2) },
+                extended: extendedForCount(count - 5),
+                label: 'Left',
+            }));
+            multiHandedness.push({ index: 1, score: 1, label: 'Left' });
+        }
+        return { multiHandLandmarks, multiHandedness };
+    };
+
+    return {
+        kind: 'pointer',
+        label: 'Mouse / Touch',
+        start: (onResults) => {
+            window.addEventListener('pointermove', onPointerMove);
+            window.addEventListener('pointerdown', onPointerDown);
+            window.addEventListener('pointerup', onPointerUp);
+            window.addEventListener('pointercancel', onPointerUp);
+            window.addEventListener('keydown', onKeyDown);
+            window.addEventListener('keyup', onKeyUp);
+            timer = setInterval(() => onResults(frame()), 1000 / 30);
+        },
+        stop: () => {
+            if (timer) clearInterval(timer);
+            timer = null;
+            window.removeEventListener('pointermove', onPointerMove);
+            window.removeEventListener('pointerdown', onPointerDown);
+            window.removeEventListener('pointerup', onPointerUp);
+            window.removeEventListener('pointercancel', onPointerUp);
+            window.removeEventListener('keydown', onKeyDown);
+            window.removeEventListener('keyup', onKeyUp);
+        },
+    };
+};
+
+// --- Scripted generator ---
+
+export const createScriptedSource = (
+    script: (timeMs: number) => Results,
+    { fps = 30, label = 'Scripted' }: { fps?: number, label?: string } = {}
+): HandInputSource => {
+    let timer: ReturnType<typeof setInterval> | null = null;
+
+    return {
+        kind: 'demo',
+        label,
+        start: (onResults) => {
+            const startTime = performance.now();
+            timer = setInterval(() => onResults(script(performance.now() - startTime)), 1000 / fps);
+        },
+        stop: () => {
+            if (timer) clearInterval(timer);
+            timer = null;
+        },
+    };
+};
+
+// --- Synthetic hands ---
+
+export interface SyntheticHandOptions {
+    wrist: { x: number, y: number };
+    // Thumb, index, middle, ring, pinky
+    extended?: boolean[];
+    // Thumb raised straight up, as in a thumbs-up, instead of pointing out to the side
+    thumbsUp?: boolean;
+    pinch?: boolean;
+    scale?: number;
+    label?: Handedness['label'];
+}
+
+// Joint offsets from the wrist for an upright right hand, in units of hand length.
+const THUMB_OFFSETS = { cmc: [-0.2, -0.15], mcp: [-0.35, -0.3], ip: [-0.45, -0.4], extended: [-0.55, -0.5], curled: [-0.35, -0.2] };
+const THUMB_UP_OFFSETS = { ip: [-0.35, -0.55], tip: [-0.35, -0.8] };
+const FINGER_BASE_X = [-0.15, 0, 0.125, 0.25];
+const FINGER_EXTENDED_Y = [-0.5, -0.7, -0.85, -1];
+const FINGER_CURLED_Y = [-0.5, -0.65, -0.55, -0.5];
+
+/** Builds a plausible 21-point MediaPipe hand, used by the demo source and for tests without a camera. */
+export const buildSyntheticHand = ({ wrist, extended = [true, true, true, true, true], thumbsUp = false, pinch = false, scale = 0.2, label = 'Right' }: SyntheticHandOptions): LandmarkList => {
+    const mirror = label === 'Right' ? 1 : -1;
+    const at = (dx: number, dy: number, dz = 0): Landmark => ({ x: wrist.x + dx * scale * mirror, y: wrist.y + dy * scale, z: dz * scale });
+
+    const landmarks: LandmarkList = [at(0, 0)];
+
+    const thumbIp = thumbsUp ? THUMB_UP_OFFSETS.ip : THUMB_OFFSETS.ip;
+    const thumbTip = thumbsUp ? THUMB_UP_OFFSETS.tip : extended[0] ? THUMB_OFFSETS.extended : THUMB_OFFSETS.curled;
+    landmarks.push(at(THUMB_OFFSETS.cmc[0], THUMB_OFFSETS.cmc[1]));
+    landmarks.push(at(THUMB_OFFSETS.mcp[0], THUMB_OFFSETS.mcp[1]));
+    landmarks.push(at(thumbIp[0], thumbIp[1]));
+    landmarks.push(at(thumbTip[0], thumbTip[1]));
+
+    for (let f = 0; f < 4; f++) {
+        const ys = extended[f + 1] ? FINGER_EXTENDED_Y : FINGER_CURLED_Y;
+        for (let j = 0; j < 4; j++) {
+            // Curled fingers fold towards the camera
+            const z = extended[f + 1] ? 0 : -0.1 * j;
+            landmarks.push(at(FINGER_BASE_X[f], ys[j], z));
+        }
+    }
+
+    if (pinch) {
+        // Bring the thumb tip onto the index tip
+        const indexTip = landmarks[8];
+        landmarks[4] = { x: indexTip.x + 0.005, y: indexTip.y + 0.005, z: indexTip.z };
+    }
+
+    return landmarks;
+};
+
+// Translates a hand so its index fingertip (landmark 8) sits at `tip`
+export const moveIndexTipTo = (landmarks: LandmarkList, tip: { x: number, y: number }): LandmarkList => {
+    const dx = tip.x - landmarks[8].x;
+    const dy = tip.y - landmarks[8].y;
+    return landmarks.map(lm => ({ ...lm, x: lm.x + dx, y: lm.y + dy }));
+};
+
+// Thumb, index, middle, ring, pinky flags for showing `count` fingers the way children usually count
+export const extendedForCount = (count: number): boolean[] => {
+    const order = [1, 2, 3, 4, 0];
+    const extended = [false, false, false, false, false];
+    for (let i = 0; i < Math.min(5, Math.max(0, count)); i++) extended[order[i]] = true;
+    return extended;
+};
+
+/**
+ * Demo script: the right hand wanders across the frame showing 1-5 fingers and pinching
+ * every few seconds, while the left hand slowly counts on the other side of the frame.
+ */
+export const demoHandScript = (timeMs: number): Results => {
+    const t = timeMs / 1000;
+    const pinch = t % 3 > 2.4;
+    const rightCount = Math.floor(t / 2) % 5 + 1;
+    const leftCount = Math.floor(t / 5) % 6;
+
+    const right = buildSyntheticHand({
+        wrist: { x: 0.35 + 0.2 * Math.sin(t * 0.5), y: 0.75 + 0.1 * Math.sin(t * 0.8) },
+        extended: pinch ? extendedForCount(1) : extendedForCount(rightCount),
+        pinch,
+        label: 'Right',
+    });
+    const left = buildSyntheticHand({
+        wrist: { x: 0.8, y: 0.8 },
+        extended: extendedForCount(leftCount),
+        label: 'Left',
+    });
+
+    return {
+        multiHandLandmarks: [right, left],
+        multiHandedness: [
+            { index: 0, score: 0.99, label: 'Right' },
+            { index: 1, score: 0.99, label: 'Left' },
+        ],
+    };
+};
+
+export const createDemoSource = (): HandInputSource => createScriptedSource(demoHandScript, { label: 'Demo' });
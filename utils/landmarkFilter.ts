@@ -0,0 +1,99 @@
+import { LandmarkList, Results, SmoothingLevel } from '../types';
+
+export interface OneEuroOptions {
+    // Cutoff frequency (Hz) when still; lower removes more jitter
+    minCutoff: number;
+    // How quickly the cutoff rises with speed; higher reduces lag on fast moves
+    beta: number;
+    // Cutoff used to smooth the speed estimate itself
+    dCutoff: number;
+}
+
+export const SMOOTHING_PRESETS: Record<Exclude<SmoothingLevel, 'off'>, OneEuroOptions> = {
+    low: { minCutoff: 1.5, beta: 3, dCutoff: 1 },
+    high: { minCutoff: 0.6, beta: 2, dCutoff: 1 },
+};
+
+const smoothingFactor = (cutoff: number, dtSeconds: number) => {
+    const r = 2 * Math.PI * cutoff * dtSeconds;
+    return r / (r + 1);
+};
+
+/** One Euro filter (Casiez et al.): an adaptive low-pass that is smooth when slow and responsive when fast. */
+export const createOneEuroFilter = ({ minCutoff, beta, dCutoff }: OneEuroOptions) => {
+    let prevValue: number | null = null;
+    let prevDerivative = 0;
+    let prevTime = 0;
+
+    return {
+        filter: (value: number, timeMs: number): number => {
+            if (prevValue === null) {
+                prevValue = value;
+                prevTime = timeMs;
+                return value;
+            }
+            const dt = Math.max(1e-3, (timeMs - prevTime) / 1000);
+            const derivative = (value - prevValue) / dt;
+            const aD = smoothingFactor(dCutoff, dt);
+            prevDerivative = aD * derivative + (1 - aD) * prevDerivative;
+
+            const cutoff = minCutoff + beta * Math.abs(prevDerivative);
+            const a = smoothingFactor(cutoff, dt);
+            prevValue = a * value + (1 - a) * prevValue;
+            prevTime = timeMs;
+            return prevValue;
+        },
+        reset: () => {
+            prevValue = null;
+            prevDerivative = 0;
+        },
+    };
+};
+
+type OneEuroFilter = ReturnType<typeof createOneEuroFilter>;
+
+/**
+ * Smooths every landmark of every hand with its own One Euro filters. Hands are matched across
+ * frames by handedness label (falling back to position in the list), and a hand's filters are
+ * dropped as soon as it is no longer tracked so it does not glide in from a stale position.
+ */
+export const createLandmarkSmoother = (options: OneEuroOptions) => {
+    const hands = new Map<string, OneEuroFilter[]>();
+
+    const filtersFor = (key: string, size: number) => {
+        let filters = hands.get(key);
+        if (!filters) {
+            filters = Array.from({ length: size * 3 }, () => createOneEuroFilter(options));
+            hands.set(key, filters);
+        }
+        return filters;
+    };
+
+    return {
+        smooth: (results: Results, timeMs: number = performance.now()): Results => {
+            const landmarkLists = results.multiHandLandmarks ?? [];
+            const seen = new Set<string>();
+
+            const multiHandLandmarks: LandmarkList[] = landmarkLists.map((landmarks, i) => {
+                const label = results.multiHandedness?.[i]?.label;
+                // Two hands with the same label (a misclassification) fall back to list position
+                const key = label && !seen.has(label) ? label : `#${i}`;
+                seen.add(key);
+                const filters = filtersFor(key, landmarks.length);
+                return landmarks.map((lm, j) => ({
+                    ...lm,
+                    x: filters[j * 3].filter(lm.x, timeMs),
+                    y: filters[j * 3 + 1].filter(lm.y, timeMs),
+                    z: filters[j * 3 + 2].filter(lm.z, timeMs),
+                }));
+            });
+
+            for (const key of Array.from(hands.keys())) {
+                if (!seen.has(key)) hands.delete(key);
+            }
+
+            return { ...results, multiHandLandmarks };
+        },
+        reset: () => hands.clear(),
+    };
+};
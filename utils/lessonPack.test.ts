@@ -0,0 +1,71 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { GameMode } from '../types';
+import { LessonPackError, parseLessonPack, validateLessonPack } from './lessonPack';
+
+const pack = (games: Record<string, unknown>) => ({ format: 'mathiverse-lesson', version: 1, title: 'Test', games });
+
+const issues = (raw: unknown): string[] => {
+    try {
+        validateLessonPack(raw);
+    } catch (err) {
+        if (err instanceof LessonPackError) return err.issues;
+        throw err;
+    }
+    return [];
+};
+
+const puzzleOperation = (question: string, correctAnswer: number) => {
+    const { games } = validateLessonPack(pack({ MATH_PUZZLE: { problems: [{ question, correctAnswer }] } }));
+    const section = games[GameMode.MATH_PUZZLE]!;
+    return section.kind === 'problems' ? section.problems[0].operation : undefined;
+};
+
+describe('validateLessonPack', () => {
+    it('guesses the operation of a plain-text question', () => {
+        expect(puzzleOperation('Three boxes of 7 pencils: 3 x 7 pencils', 21)).toBe('MUL');
+        expect(puzzleOperation('What is x if 4 + x = 9?', 5)).toBe('ADD');
+        expect(puzzleOperation('Max has 9 apples and gives away 4. How many are left? 9 - 4', 5)).toBe('SUB');
+        expect(puzzleOperation('Half of 18', 9)).toBeUndefined();
+    });
+
+    it('accepts the example pack', () => {
+        const { title, games } = parseLessonPack(readFileSync('public/lessons/times-tables-and-primes.json', 'utf8'));
+        expect(title).toBe('7-times table and primes');
+        expect(Object.keys(games).sort()).toEqual(['ARITHMETIC', 'MATH_PUZZLE', 'NUMBER_PICKER', 'RIGHT_BOX']);
+    });
+
+    it('lists every issue with where it is', () => {
+        expect(issues({ format: 'mathiverse-lesson', version: 1, title: 3, description: [], games: {
+            ARITHMETIC: { problems: [{ num1: 2, num2: 3, operation: 'POW' }] },
+            NUMBER_PICKER: { problems: [{ type: 'even', n: 2, numbers: [1, 2] }, { type: 'prime', numbers: [4, 6], findAll: 'yes' }] },
+            MATH_PUZZLE: { generate: { count: 0, level: 9 } },
+        } })).toEqual([
+            'title: expected text',
+            'description: expected text',
+            'games.ARITHMETIC.problems[0].operation: expected one of ADD, SUB, MUL, MISSING_ADDEND',
+            'games.NUMBER_PICKER.problems[0].n: only multiple, factor, divisible take an n',
+            'games.NUMBER_PICKER.problems[1].findAll: expected true or false',
+            'games.MATH_PUZZLE.generate.count: expected a whole number from 1 to 500',
+            'games.MATH_PUZZLE.generate.level: expected a whole number from 1 to 5',
+        ]);
+    });
+
+    it('rejects versions that are not a whole number from 1 up', () => {
+        for (const version of [0, -1, 1.5, 2, '1']) {
+            expect(issues({ ...pack({ MATH_PUZZLE: { generate: { count: 5 } } }), version })).toEqual([`version: unsupported version ${version}`]);
+        }
+    });
+
+    it('checks where a Right Box bin is placed', () => {
+        const rightBox = (bins: unknown[]) => issues(pack({ RIGHT_BOX: { problems: [{ bins, numbers: [1, 2] }] } }));
+        const odd = { rule: 'odd', x: 0, y: 0, width: 0.3, height: 0.3 };
+        expect(rightBox([odd, { rule: 'even', x: 0.5, y: 0.5, width: 0.3, height: 0.3 }])).toEqual([]);
+        expect(rightBox([odd, { rule: 'even', x: 0.5, y: '0.5', width: 0.3, height: 0.3 }])).toEqual([
+            'games.RIGHT_BOX.problems[0].bins[1]: x, y, width, height must be fractions of the play area from 0 to 1',
+        ]);
+        expect(rightBox([odd, { rule: 'even', x: 0.8, y: 0.5, width: 0.3, height: 0.3 }])).toEqual([
+            'games.RIGHT_BOX.problems[0].bins[1]: must be at least 0.1 wide and high and fit inside the play area',
+        ]);
+    });
+});
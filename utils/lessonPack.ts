@@ -0,0 +1,479 @@
+import { ArithmeticOperation, ArithmeticProblem, BinRule, DifficultyProfile, DraggableNumber, Expression, GameMode, LessonPack, LessonProblems, LessonSection, LessonSections, MathPuzzleProblem, NumberPickerProblem, NumberType, PuzzleOperation, RightBoxBin, RightBoxLevel, RightBoxSort } from '../types';
+import { getDifficultyProfile, DEFAULT_DIFFICULTY } from './difficulty';
+import { evaluateExpression, formatExpression, getPuzzleOperation, parseExpression } from './expression';
+import { ARITHMETIC_ANSWER_MAX, NUMBER_TYPES_WITH_N, buildRightBoxLevel, canAskNumberType, formatSortItem, generateAnswerOptions, getArithmeticAnswer, getMatchingBins, layoutBins, matchesNumberType } from './mathHelpers';
+import { findMisconceptions } from './misconceptions';
+
+/*
+ * Lesson pack file format (JSON), version 1. The JSON Schema is public/lessons/lesson-pack.schema.json.
+ *
+ *   {
+ *     "format": "mathiverse-lesson",
+ *     "version": 1,
+ *     "title": "Times tables",
+ *     "description": "optional",
+ *     "games": { "<GameMode>": <section>, ... }
+ *   }
+ *
+ * Games left out of `games` keep their random generators. A section is either
+ *   { "problems": [...] }                         played once, in order
+ *   { "generate": { "count": 10, "level": 2, ...overrides } }
+ * where the overrides replace fields of that game's difficulty profile (see DifficultyProfile).
+ *
+ * Problems per game:
+ *   ARITHMETIC     { "num1": 8, "num2": 3, "operation": "SUB" }  answer is 1-99; `operation` (ADD, SUB, MUL or
+ *                  MISSING_ADDEND, which asks for num2 in "num1 + ? = sum") defaults to ADD
+ *   NUMBER_PICKER  { "type": "prime", "numbers": [4, 7, 9, 15] }  exactly one number must match `type`, or
+ *                  with "findAll": true at least one, and every match must be picked. The types multiple,
+ *                  factor and divisible need an "n": { "type": "multiple", "n": 7, "numbers": [...] }
+ *   MATH_PUZZLE    { "question": "(12 − 4) ÷ 2", "correctAnswer": 4, "options": [3, 4, 6, 8] }
+ *                  `options` is optional and generated around the answer when left out. A question that
+ *                  parses as an expression (see expression.ts) must equal `correctAnswer`; any other text
+ *                  is shown as written, without a worked solution
+ *   RIGHT_BOX      { "bins": [{ "rule": "multiple", "value": 3 }, { "rule": "other" }], "numbers": [3, 5, 9, 10] }
+ *                  2-4 bins, each with a `rule` (even, odd, prime, composite, below, atLeast and multiple
+ *                  with a `value`, half for fractions equal to ½, or other for whatever no other bin takes)
+ *                  and optionally its place as x, y, width and height fractions of the play area (on every
+ *                  bin or none). `numbers` are whole numbers or fractions such as "3/6"; each must fit a
+ *                  bin. The older { "targetType": "even", "numbers": [...] } is an even bin on the right
+ *                  and an odd one on the left
+ *
+ * Generate overrides per game:
+ *   ARITHMETIC     min, max, operations, answerMax
+ *   NUMBER_PICKER  min, max, options, types, findAll (chance 0-1 of a find-all round), n
+ *   MATH_PUZZLE    operations, addMax, factorMax, factors, options, steps
+ *   RIGHT_BOX      max, numbers (how many numbers each level scatters), sorts (parity, primality, size,
+ *                  multiples, halves)
+ */
+
+export const LESSON_PACK_FORMAT = 'mathiverse-lesson';
+export const LESSON_PACK_VERSION = 1;
+
+// Every problem found in a lesson file, with a path to where it is, e.g. `games.MATH_PUZZLE.problems[2].options`
+export class LessonPackError extends Error {
+    constructor(public readonly issues: string[]) {
+        super(`Invalid lesson pack:\n${issues.slice(0, 10).join('\n')}${issues.length > 10 ? `\n…and ${issues.length - 10} more` : ''}`);
+        this.name = 'LessonPackError';
+    }
+}
+
+const NUMBER_TYPES: NumberType[] = ['even', 'odd', 'prime', 'composite', 'fibonacci', 'square', 'cube', 'triangular', 'multiple', 'factor', 'divisible'];
+const PUZZLE_OPERATIONS: PuzzleOperation[] = ['ADD', 'SUB', 'MUL', 'DIV', 'SQUARE', 'ROOT'];
+const ARITHMETIC_OPERATIONS: ArithmeticOperation[] = ['ADD', 'SUB', 'MUL', 'MISSING_ADDEND'];
+const BIN_RULES: BinRule[] = ['even', 'odd', 'prime', 'composite', 'below', 'atLeast', 'multiple', 'half', 'other'];
+const BIN_RULES_WITH_VALUE: BinRule[] = ['below', 'atLeast', 'multiple'];
+const RIGHT_BOX_SORTS: RightBoxSort[] = ['parity', 'primality', 'size', 'multiples', 'halves'];
+
+type Issues = string[];
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const checkInt = (issues: Issues, value: unknown, path: string, min: number, max = Number.MAX_SAFE_INTEGER): value is number => {
+    if (typeof value !== 'number' || !Number.isInteger(value) || value < min || value > max) {
+        issues.push(`${path}: expected a whole number from ${min}${max < Number.MAX_SAFE_INTEGER ? ` to ${max}` : ''}`);
+        return false;
+    }
+    return true;
+};
+
+const checkIntList = (issues: Issues, value: unknown, path: string, min: number, minLength = 1): value is number[] => {
+    if (!Array.isArray(value) || value.length < minLength) {
+        issues.push(`${path}: expected a list of at least ${minLength} numbers`);
+        return false;
+    }
+    const before = issues.length;
+    value.forEach((v, i) => checkInt(issues, v, `${path}[${i}]`, min));
+    if (issues.length === before && new Set(value).size !== value.length) issues.push(`${path}: numbers must not repeat`);
+    return issues.length === before;
+};
+
+const checkChoices = <T extends string>(issues: Issues, value: unknown, path: string, allowed: T[]): value is T[] => {
+    if (!Array.isArray(value) || value.length === 0 || value.some(v => !allowed.includes(v))) {
+        issues.push(`${path}: expected a list drawn from ${allowed.join(', ')}`);
+        return false;
+    }
+    return true;
+};
+
+// Narrows a value to one of a fixed set of names
+const isOneOf = <T extends string>(value: unknown, allowed: readonly T[]): value is T => (allowed as readonly unknown[]).includes(value);
+
+const checkNoExtraKeys = (issues: Issues, value: Record<string, unknown>, path: string, allowed: string[]) => {
+    for (const key of Object.keys(value)) {
+        if (!allowed.includes(key)) issues.push(`${path}.${key}: unknown field`);
+    }
+};
+
+// --- Problems ---
+
+const parseArithmetic = (issues: Issues, raw: Record<string, unknown>, path: string): ArithmeticProblem | null => {
+    checkNoExtraKeys(issues, raw, path, ['num1', 'num2', 'operation']);
+    const operation = raw.operation ?? 'ADD';
+    if (!isOneOf(operation, ARITHMETIC_OPERATIONS)) {
+        issues.push(`${path}.operation: expected one of ${ARITHMETIC_OPERATIONS.join(', ')}`);
+        return null;
+    }
+    if (!checkInt(issues, raw.num1, `${path}.num1`, 0) || !checkInt(issues, raw.num2, `${path}.num2`, 0)) return null;
+    const answer = getArithmeticAnswer(operation, raw.num1, raw.num2);
+    if (answer < 1 || answer > ARITHMETIC_ANSWER_MAX) {
+        issues.push(`${path}: answer ${answer} cannot be shown on fingers (1-${ARITHMETIC_ANSWER_MAX})`);
+        return null;
+    }
+    return { num1: raw.num1, num2: raw.num2, operation, answer };
+};
+
+const parseNumberPicker = (issues: Issues, raw: Record<string, unknown>, path: string): NumberPickerProblem | null => {
+    checkNoExtraKeys(issues, raw, path, ['type', 'n', 'numbers', 'findAll']);
+    const { type } = raw;
+    if (!isOneOf(type, NUMBER_TYPES)) {
+        issues.push(`${path}.type: expected one of ${NUMBER_TYPES.join(', ')}`);
+        return null;
+    }
+    let n: number | undefined;
+    if (NUMBER_TYPES_WITH_N.includes(type)) {
+        if (!checkInt(issues, raw.n, `${path}.n`, 2)) return null;
+        n = raw.n;
+    } else if (raw.n !== undefined) {
+        issues.push(`${path}.n: only ${NUMBER_TYPES_WITH_N.join(', ')} take an n`);
+        return null;
+    }
+    const findAll = raw.findAll ?? false;
+    if (typeof findAll !== 'boolean') {
+        issues.push(`${path}.findAll: expected true or false`);
+        return null;
+    }
+    const { numbers } = raw;
+    if (!checkIntList(issues, numbers, `${path}.numbers`, 0, 2)) return null;
+    const answers = numbers.filter(v => matchesNumberType(v, type, n));
+    if (findAll ? answers.length === 0 : answers.length !== 1) {
+        issues.push(`${path}.numbers: ${findAll ? 'at least' : 'exactly'} one number must be ${type}${n ? ` ${n}` : ''}, found ${answers.length}`);
+        return null;
+    }
+    return { type, n, numbers, answers, findAll };
+};
+
+// Best guess at what a plain-text question practises, for progress tracking
+const OPERATION_SYMBOLS: [RegExp, PuzzleOperation][] = [
+    [/√/, 'ROOT'], [/²/, 'SQUARE'], [/\d\s*[x×*]\s*\d/, 'MUL'], [/[÷/]/, 'DIV'], [/[-−]/, 'SUB'], [/\+/, 'ADD'],
+];
+const guessOperation = (question: string): PuzzleOperation | undefined => OPERATION_SYMBOLS.find(([pattern]) => pattern.test(question))?.[1];
+
+const parseMathPuzzle = (issues: Issues, raw: Record<string, unknown>, path: string): MathPuzzleProblem | null => {
+    checkNoExtraKeys(issues, raw, path, ['question', 'correctAnswer', 'options']);
+    if (typeof raw.question !== 'string' || raw.question.trim() === '') {
+        issues.push(`${path}.question: expected text`);
+        return null;
+    }
+    if (!checkInt(issues, raw.correctAnswer, `${path}.correctAnswer`, 0)) return null;
+
+    let expression: Expression | undefined;
+    try {
+        expression = parseExpression(raw.question);
+    } catch {
+        // Not an expression, e.g. "Half of 18"
+    }
+    if (expression) {
+        let value: number;
+        try {
+            value = evaluateExpression(expression);
+        } catch (e) {
+            issues.push(`${path}.question: ${(e as Error).message}`);
+            return null;
+        }
+        if (value !== raw.correctAnswer) {
+            issues.push(`${path}.correctAnswer: ${raw.question} is ${value}, not ${raw.correctAnswer}`);
+            return null;
+        }
+    }
+    const question = expression ? formatExpression(expression) : raw.question;
+    const operation = expression ? getPuzzleOperation(expression) : guessOperation(raw.question);
+
+    if (raw.options === undefined) {
+        return { question, correctAnswer: raw.correctAnswer, ...generateAnswerOptions(raw.correctAnswer, DEFAULT_DIFFICULTY.mathPuzzle.options, Math.random, expression), operation, expression };
+    }
+    const { options } = raw;
+    if (!checkIntList(issues, options, `${path}.options`, 0, 2)) return null;
+    if (!options.includes(raw.correctAnswer)) {
+        issues.push(`${path}.options: must include the correct answer ${raw.correctAnswer}`);
+        return null;
+    }
+    const distractors = findMisconceptions(raw.correctAnswer, expression).filter(d => options.includes(d.value));
+    return { question, correctAnswer: raw.correctAnswer, options, distractors, operation, expression };
+};
+
+const BIN_PLACE_FIELDS = ['x', 'y', 'width', 'height'] as const;
+
+const isFraction = (value: unknown): value is number => typeof value === 'number' && value >= 0 && value <= 1;
+
+// A bin with its place, or only its rule when the level leaves placing to the default layout
+const parseBin = (issues: Issues, raw: unknown, path: string): RightBoxBin | Pick<RightBoxBin, 'rule' | 'value'> | null => {
+    if (!isObject(raw)) {
+        issues.push(`${path}: expected an object`);
+        return null;
+    }
+    checkNoExtraKeys(issues, raw, path, ['rule', 'value', ...BIN_PLACE_FIELDS]);
+    const { rule } = raw;
+    if (!isOneOf(rule, BIN_RULES)) {
+        issues.push(`${path}.rule: expected one of ${BIN_RULES.join(', ')}`);
+        return null;
+    }
+    let value: number | undefined;
+    if (BIN_RULES_WITH_VALUE.includes(rule)) {
+        if (!checkInt(issues, raw.value, `${path}.value`, 1)) return null;
+        value = raw.value;
+    } else if (raw.value !== undefined) {
+        issues.push(`${path}.value: only ${BIN_RULES_WITH_VALUE.join(', ')} take a value`);
+        return null;
+    }
+    const spec = { rule, value };
+
+    const given = BIN_PLACE_FIELDS.filter(key => raw[key] !== undefined);
+    if (given.length === 0) return spec;
+    if (given.length < BIN_PLACE_FIELDS.length) {
+        issues.push(`${path}: give all of ${BIN_PLACE_FIELDS.join(', ')} or none`);
+        return null;
+    }
+    const { x, y, width, height } = raw;
+    if (!isFraction(x) || !isFraction(y) || !isFraction(width) || !isFraction(height)) {
+        issues.push(`${path}: ${BIN_PLACE_FIELDS.join(', ')} must be fractions of the play area from 0 to 1`);
+        return null;
+    }
+    if (width < 0.1 || height < 0.1 || x + width > 1 || y + height > 1) {
+        issues.push(`${path}: must be at least 0.1 wide and high and fit inside the play area`);
+        return null;
+    }
+    return { ...spec, x, y, width, height };
+};
+
+// A whole number, or a fraction written "3/6"
+const parseSortItem = (issues: Issues, raw: unknown, path: string): Pick<DraggableNumber, 'value' | 'denominator'> | null => {
+    if (typeof raw === 'number' && Number.isInteger(raw) && raw >= 0) return { value: raw };
+    const fraction = typeof raw === 'string' ? /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(raw) : null;
+    if (fraction && Number(fraction[2]) > 0) return { value: Number(fraction[1]), denominator: Number(fraction[2]) };
+    issues.push(`${path}: expected a whole number or a fraction such as "3/6"`);
+    return null;
+};
+
+const overlaps = (a: RightBoxBin, b: RightBoxBin) =>
+    a.x < b.x + b.width && b.x < a.x + a.width && a.y < b.y + b.height && b.y < a.y + a.height;
+
+const parseRightBox = (issues: Issues, raw: Record<string, unknown>, path: string): RightBoxLevel | null => {
+    // The original one-box format: the target type's bin on the right, as the box always was
+    if (raw.targetType !== undefined) {
+        checkNoExtraKeys(issues, raw, path, ['targetType', 'numbers']);
+        if (raw.targetType !== 'even' && raw.targetType !== 'odd') {
+            issues.push(`${path}.targetType: expected even or odd`);
+            return null;
+        }
+        if (!checkIntList(issues, raw.numbers, `${path}.numbers`, 0)) return null;
+        const other = raw.targetType === 'even' ? 'odd' : 'even';
+        return buildRightBoxLevel(layoutBins([{ rule: other }, { rule: raw.targetType }]), raw.numbers.map((value: number) => ({ value })));
+    }
+
+    checkNoExtraKeys(issues, raw, path, ['bins', 'numbers']);
+    if (!Array.isArray(raw.bins) || raw.bins.length < 2 || raw.bins.length > 4) {
+        issues.push(`${path}.bins: expected a list of 2 to 4 bins`);
+        return null;
+    }
+    const specs = raw.bins.map((bin: unknown, i: number) => parseBin(issues, bin, `${path}.bins[${i}]`));
+    if (specs.includes(null)) return null;
+    const placed = specs.filter((spec: object) => 'x' in spec).length;
+    if (placed !== 0 && placed !== specs.length) {
+        issues.push(`${path}.bins: place every bin or none`);
+        return null;
+    }
+    const bins = placed > 0 ? specs as RightBoxBin[] : layoutBins(specs);
+    bins.forEach((bin, i) => {
+        const j = bins.findIndex((other, k) => k > i && overlaps(bin, other));
+        if (j !== -1) issues.push(`${path}.bins[${i}]: overlaps bins[${j}]`);
+    });
+    if (bins.filter(bin => bin.rule === 'other').length > 1) issues.push(`${path}.bins: only one bin may be "other"`);
+
+    if (!Array.isArray(raw.numbers) || raw.numbers.length === 0) {
+        issues.push(`${path}.numbers: expected a non-empty list`);
+        return null;
+    }
+    const items = raw.numbers.map((item: unknown, i: number) => parseSortItem(issues, item, `${path}.numbers[${i}]`));
+    if (items.includes(null)) return null;
+    const texts = items.map(formatSortItem);
+    if (new Set(texts).size !== texts.length) issues.push(`${path}.numbers: numbers must not repeat`);
+    texts.forEach((text: string, i: number) => {
+        if (getMatchingBins(bins, items[i]).length === 0) issues.push(`${path}.numbers[${i}]: ${text} fits no bin`);
+    });
+    return buildRightBoxLevel(bins, items);
+};
+
+// --- Generator overrides ---
+
+const GENERATE_FIELDS: Record<LessonGameMode, string[]> = {
+    [GameMode.ARITHMETIC]: ['min', 'max', 'operations', 'answerMax'],
+    [GameMode.NUMBER_PICKER]: ['min', 'max', 'options', 'types', 'findAll', 'n'],
+    [GameMode.MATH_PUZZLE]: ['operations', 'addMax', 'factorMax', 'factors', 'options', 'steps'],
+    [GameMode.RIGHT_BOX]: ['max', 'numbers', 'sorts'],
+};
+
+const parseGenerate = (issues: Issues, mode: LessonGameMode, raw: Record<string, unknown>, path: string): LessonSection<never> | null => {
+    const before = issues.length;
+    checkNoExtraKeys(issues, raw, path, ['count', 'level', ...GENERATE_FIELDS[mode]]);
+    const count = checkInt(issues, raw.count, `${path}.count`, 1, 500) ? raw.count : 0;
+    const level = raw.level !== undefined && checkInt(issues, raw.level, `${path}.level`, 1, 5) ? raw.level : DEFAULT_DIFFICULTY.level;
+
+    const base = getDifficultyProfile(level);
+    const profile: DifficultyProfile = {
+        ...base,
+        label: 'Lesson',
+        arithmetic: { ...base.arithmetic },
+        numberPicker: { ...base.numberPicker },
+        mathPuzzle: { ...base.mathPuzzle },
+        rightBox: { ...base.rightBox },
+    };
+
+    switch (mode) {
+        case GameMode.ARITHMETIC:
+            if (raw.min !== undefined && checkInt(issues, raw.min, `${path}.min`, 0, 12)) profile.arithmetic.min = raw.min;
+            if (raw.max !== undefined && checkInt(issues, raw.max, `${path}.max`, 1, 12)) profile.arithmetic.max = raw.max;
+            if (raw.operations !== undefined && checkChoices(issues, raw.operations, `${path}.operations`, ARITHMETIC_OPERATIONS)) profile.arithmetic.operations = raw.operations;
+            if (raw.answerMax !== undefined && checkInt(issues, raw.answerMax, `${path}.answerMax`, 2, ARITHMETIC_ANSWER_MAX)) profile.arithmetic.answerMax = raw.answerMax;
+            if (profile.arithmetic.min > profile.arithmetic.max) issues.push(`${path}: min must not be above max`);
+            break;
+        case GameMode.NUMBER_PICKER:
+            if (raw.min !== undefined && checkInt(issues, raw.min, `${path}.min`, 0, 1000)) profile.numberPicker.min = raw.min;
+            if (raw.max !== undefined && checkInt(issues, raw.max, `${path}.max`, 10, 1000)) profile.numberPicker.max = raw.max;
+            if (raw.options !== undefined && checkInt(issues, raw.options, `${path}.options`, 2, 10)) profile.numberPicker.options = raw.options;
+            if (raw.types !== undefined && checkChoices(issues, raw.types, `${path}.types`, NUMBER_TYPES)) profile.numberPicker.types = raw.types;
+            if (raw.findAll !== undefined) {
+                if (typeof raw.findAll === 'number' && raw.findAll >= 0 && raw.findAll <= 1) profile.numberPicker.findAll = raw.findAll;
+                else issues.push(`${path}.findAll: expected a chance from 0 to 1`);
+            }
+            if (raw.n !== undefined && checkIntList(issues, raw.n, `${path}.n`, 2)) profile.numberPicker.n = raw.n;
+            if (profile.numberPicker.min > profile.numberPicker.max) {
+                issues.push(`${path}: min must not be above max`);
+                break;
+            }
+            // Every round needs one matching number and enough non-matching ones to fill the rest
+            for (const type of profile.numberPicker.types) {
+                if (!canAskNumberType(type, profile.numberPicker)) {
+                    issues.push(`${path}: ${profile.numberPicker.min}-${profile.numberPicker.max} has too few ${type} or non-${type} numbers for ${profile.numberPicker.options} options`);
+                }
+            }
+            break;
+        case GameMode.MATH_PUZZLE:
+            if (raw.operations !== undefined && checkChoices(issues, raw.operations, `${path}.operations`, PUZZLE_OPERATIONS)) profile.mathPuzzle.operations = raw.operations;
+            if (raw.addMax !== undefined && checkInt(issues, raw.addMax, `${path}.addMax`, 1, 10000)) profile.mathPuzzle.addMax = raw.addMax;
+            if (raw.factorMax !== undefined && checkInt(issues, raw.factorMax, `${path}.factorMax`, 4, 100)) profile.mathPuzzle.factorMax = raw.factorMax;
+            if (raw.factors !== undefined && checkIntList(issues, raw.factors, `${path}.factors`, 2)) profile.mathPuzzle.factors = raw.factors;
+            if (raw.options !== undefined && checkInt(issues, raw.options, `${path}.options`, 2, 8)) profile.mathPuzzle.options = raw.options;
+            if (raw.steps !== undefined && checkInt(issues, raw.steps, `${path}.steps`, 1, 4)) profile.mathPuzzle.steps = raw.steps;
+            break;
+        case GameMode.RIGHT_BOX:
+            if (raw.max !== undefined && checkInt(issues, raw.max, `${path}.max`, 10, 1000)) profile.rightBox.max = raw.max;
+            if (raw.numbers !== undefined && checkInt(issues, raw.numbers, `${path}.numbers`, 1, 12)) profile.rightBox.count = raw.numbers;
+            if (raw.sorts !== undefined && checkChoices(issues, raw.sorts, `${path}.sorts`, RIGHT_BOX_SORTS)) profile.rightBox.sorts = raw.sorts;
+            if (profile.rightBox.count > profile.rightBox.max) issues.push(`${path}: numbers must not be above max`);
+            break;
+    }
+
+    return issues.length === before ? { kind: 'generate', count, profile } : null;
+};
+
+// --- Pack ---
+
+export type LessonGameMode = keyof LessonProblems;
+
+type ProblemParser<P> = (issues: Issues, raw: Record<string, unknown>, path: string) => P | null;
+
+const parseSection = <P>(issues: Issues, mode: LessonGameMode, raw: unknown, path: string, parseProblem: ProblemParser<P>): LessonSection<P> | null => {
+    if (!isObject(raw) || (raw.problems === undefined) === (raw.generate === undefined)) {
+        issues.push(`${path}: expected an object with either "problems" or "generate"`);
+        return null;
+    }
+    checkNoExtraKeys(issues, raw, path, ['problems', 'generate']);
+
+    if (raw.generate !== undefined) {
+        if (!isObject(raw.generate)) {
+            issues.push(`${path}.generate: expected an object`);
+            return null;
+        }
+        return parseGenerate(issues, mode, raw.generate, `${path}.generate`);
+    }
+
+    if (!Array.isArray(raw.problems) || raw.problems.length === 0) {
+        issues.push(`${path}.problems: expected a non-empty list`);
+        return null;
+    }
+    const problems = raw.problems.map((problem: unknown, i: number) => {
+        const problemPath = `${path}.problems[${i}]`;
+        if (!isObject(problem)) {
+            issues.push(`${problemPath}: expected an object`);
+            return null;
+        }
+        return parseProblem(issues, problem, problemPath);
+    });
+    const parsed = problems.filter((problem): problem is P => problem !== null);
+    return parsed.length === problems.length ? { kind: 'problems', problems: parsed } : null;
+};
+
+// One entry per game, so each section is typed for the game it belongs to
+const SECTION_PARSERS: { [M in LessonGameMode]: (issues: Issues, raw: unknown, path: string) => LessonSections[M] | null } = {
+    [GameMode.ARITHMETIC]: (issues, raw, path) => parseSection(issues, GameMode.ARITHMETIC, raw, path, parseArithmetic),
+    [GameMode.NUMBER_PICKER]: (issues, raw, path) => parseSection(issues, GameMode.NUMBER_PICKER, raw, path, parseNumberPicker),
+    [GameMode.MATH_PUZZLE]: (issues, raw, path) => parseSection(issues, GameMode.MATH_PUZZLE, raw, path, parseMathPuzzle),
+    [GameMode.RIGHT_BOX]: (issues, raw, path) => parseSection(issues, GameMode.RIGHT_BOX, raw, path, parseRightBox),
+};
+
+const isLessonGameMode = (key: string): key is LessonGameMode => key in SECTION_PARSERS;
+
+// Generic in the game so that its section lands under its own key
+const addSection = <M extends LessonGameMode>(issues: Issues, games: LessonPack['games'], mode: M, raw: unknown) => {
+    const section = SECTION_PARSERS[mode](issues, raw, `games.${mode}`);
+    if (section) games[mode] = section;
+};
+
+/** Validates a lesson pack object, collecting every issue before throwing a LessonPackError. */
+export const validateLessonPack = (raw: unknown): LessonPack => {
+    const issues: Issues = [];
+    if (!isObject(raw)) throw new LessonPackError(['expected a JSON object']);
+
+    if (raw.format !== LESSON_PACK_FORMAT) issues.push(`format: expected "${LESSON_PACK_FORMAT}"`);
+    if (!Number.isInteger(raw.version) || Number(raw.version) < 1 || Number(raw.version) > LESSON_PACK_VERSION) issues.push(`version: unsupported version ${raw.version}`);
+    const title = typeof raw.title === 'string' ? raw.title : '';
+    if (title.trim() === '') issues.push('title: expected text');
+    const description = typeof raw.description === 'string' ? raw.description : undefined;
+    if (raw.description !== undefined && description === undefined) issues.push('description: expected text');
+    checkNoExtraKeys(issues, raw, '', ['$schema', 'format', 'version', 'title', 'description', 'games']);
+
+    const games: LessonPack['games'] = {};
+    if (!isObject(raw.games) || Object.keys(raw.games).length === 0) {
+        issues.push('games: expected at least one game');
+    } else {
+        for (const [key, section] of Object.entries(raw.games)) {
+            if (!isLessonGameMode(key)) {
+                issues.push(`games.${key}: not a game with problems (use ${Object.keys(SECTION_PARSERS).join(', ')})`);
+                continue;
+            }
+            addSection(issues, games, key, section);
+        }
+    }
+
+    if (issues.length > 0) throw new LessonPackError(issues);
+    return { title, description, games };
+};
+
+export const parseLessonPack = (text: string): LessonPack => {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (err) {
+        throw new LessonPackError([`not valid JSON (${(err as Error).message})`]);
+    }
+    return validateLessonPack(raw);
+};
+
+export const loadLessonPackFromUrl = async (url: string): Promise<LessonPack> => {
+    const response = await fetch(url);
+    if (!response.ok) throw new Error(`Could not fetch lesson pack (HTTP ${response.status})`);
+    return parseLessonPack(await response.text());
+};
+
+export const lessonSectionLength = (section: LessonSection<unknown>): number =>
+    section.kind === 'problems' ? section.problems.length : section.count;
@@ -0,0 +1,120 @@
+import { describe, expect, it } from 'vitest';
+import { Point } from '../types';
+import { classifyQuadrilateral, classifyTriangle, getPolygonInteriorAngles, orderPolygonVertices, shapeMatchesTarget } from './mathHelpers';
+
+// Level 3's tolerances: sides within 10% of each other, angles within 8°
+const TOLERANCES = { sideTolerance: 0.1, angleTolerance: 8, quadrilaterals: true };
+
+// Two arms of the given lengths from the origin, `degrees` apart
+const triangle = (degrees: number, arm1: number, arm2: number): Point[] => {
+    const radians = degrees * Math.PI / 180;
+    return [{ x: 0, y: 0 }, { x: arm1, y: 0 }, { x: arm2 * Math.cos(radians), y: -arm2 * Math.sin(radians) }];
+};
+
+// A parallelogram with sides of `width` and `height`, leaning `lean` degrees off upright
+const parallelogram = (width: number, height: number, lean: number): Point[] => {
+    const radians = lean * Math.PI / 180;
+    const dx = height * Math.sin(radians);
+    const dy = height * Math.cos(radians);
+    return [{ x: 0, y: 0 }, { x: width, y: 0 }, { x: width + dx, y: dy }, { x: dx, y: dy }];
+};
+
+const SQUARE: Point[] = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 10, y: 10 }, { x: 0, y: 10 }];
+const RHOMBUS = parallelogram(10, 10, 30);
+const TRAPEZIUM: Point[] = [{ x: 0, y: 0 }, { x: 10, y: 0 }, { x: 7, y: 5 }, { x: 3, y: 5 }];
+const KITE: Point[] = [{ x: 0, y: -3 }, { x: 4, y: 0 }, { x: 0, y: 8 }, { x: -4, y: 0 }];
+// An arrowhead, with a reflex angle at (3, 5)
+const DART: Point[] = [{ x: 0, y: 0 }, { x: 10, y: 5 }, { x: 0, y: 10 }, { x: 3, y: 5 }];
+
+const sum = (values: number[]) => values.reduce((total, v) => total + v, 0);
+
+describe('classifyTriangle', () => {
+    it('names a right isosceles triangle', () => {
+        expect(classifyTriangle(triangle(90, 10, 10), TOLERANCES)).toEqual({ sides: 'isosceles', angles: 'right' });
+    });
+
+    it('names equilateral, acute and obtuse scalene triangles', () => {
+        expect(classifyTriangle(triangle(60, 10, 10), TOLERANCES)).toEqual({ sides: 'equilateral', angles: 'acute' });
+        expect(classifyTriangle(triangle(60, 10, 15), TOLERANCES)).toEqual({ sides: 'scalene', angles: 'acute' });
+        expect(classifyTriangle(triangle(130, 10, 16), TOLERANCES)).toEqual({ sides: 'scalene', angles: 'obtuse' });
+    });
+
+    it('counts sides as equal up to the side tolerance', () => {
+        // Legs 100 and 91 differ by 9%, legs 100 and 89 by 11%
+        expect(classifyTriangle(triangle(90, 100, 91), TOLERANCES).sides).toBe('isosceles');
+        expect(classifyTriangle(triangle(90, 100, 89), TOLERANCES).sides).toBe('scalene');
+    });
+
+    it('counts an angle as right up to the angle tolerance', () => {
+        expect(classifyTriangle(triangle(97.5, 10, 14), TOLERANCES).angles).toBe('right');
+        expect(classifyTriangle(triangle(82.5, 10, 14), TOLERANCES).angles).toBe('right');
+        expect(classifyTriangle(triangle(98.5, 10, 14), TOLERANCES).angles).toBe('obtuse');
+        expect(classifyTriangle(triangle(81.5, 10, 14), TOLERANCES).angles).toBe('acute');
+    });
+});
+
+describe('classifyQuadrilateral', () => {
+    it('tells a square from a rhombus', () => {
+        expect(classifyQuadrilateral(SQUARE, TOLERANCES)).toBe('square');
+        expect(classifyQuadrilateral(RHOMBUS, TOLERANCES)).toBe('rhombus');
+    });
+
+    it('names rectangles, parallelograms, trapeziums and kites', () => {
+        expect(classifyQuadrilateral(parallelogram(16, 10, 0), TOLERANCES)).toBe('rectangle');
+        expect(classifyQuadrilateral(parallelogram(16, 10, 30), TOLERANCES)).toBe('parallelogram');
+        expect(classifyQuadrilateral(TRAPEZIUM, TOLERANCES)).toBe('trapezium');
+        expect(classifyQuadrilateral(KITE, TOLERANCES)).toBe('kite');
+    });
+
+    it('counts corners as right up to the angle tolerance', () => {
+        expect(classifyQuadrilateral(parallelogram(16, 10, 7.5), TOLERANCES)).toBe('rectangle');
+        expect(classifyQuadrilateral(parallelogram(16, 10, 8.5), TOLERANCES)).toBe('parallelogram');
+        expect(classifyQuadrilateral(parallelogram(10, 10, 7.5), TOLERANCES)).toBe('square');
+        expect(classifyQuadrilateral(parallelogram(10, 10, 8.5), TOLERANCES)).toBe('rhombus');
+    });
+
+    it('names the same shape whichever corner it starts from or way it runs', () => {
+        const reversed = [...KITE].reverse();
+        expect(classifyQuadrilateral(reversed, TOLERANCES)).toBe('kite');
+        expect(classifyQuadrilateral([...reversed.slice(1), reversed[0]], TOLERANCES)).toBe('kite');
+        expect(classifyQuadrilateral(orderPolygonVertices([SQUARE[2], SQUARE[0], SQUARE[3], SQUARE[1]]), TOLERANCES)).toBe('square');
+    });
+});
+
+describe('getPolygonInteriorAngles', () => {
+    it('gives the corners of a convex polygon', () => {
+        getPolygonInteriorAngles(SQUARE).forEach(angle => expect(angle).toBeCloseTo(90));
+        expect(getPolygonInteriorAngles(triangle(50, 10, 10))[0]).toBeCloseTo(50);
+    });
+
+    it('gives a reflex angle at a concave vertex in either order', () => {
+        for (const vertices of [DART, [...DART].reverse()]) {
+            const angles = getPolygonInteriorAngles(vertices);
+            expect(sum(angles)).toBeCloseTo(360);
+            expect(angles.filter(angle => angle > 180)).toHaveLength(1);
+            expect(angles[vertices.indexOf(DART[3])]).toBeGreaterThan(180);
+        }
+    });
+});
+
+describe('shapeMatchesTarget', () => {
+    it('accepts special cases of the target shape', () => {
+        expect(shapeMatchesTarget(SQUARE, { kind: 'quadrilateral', shape: 'rectangle' }, TOLERANCES)).toBe(true);
+        expect(shapeMatchesTarget(SQUARE, { kind: 'quadrilateral', shape: 'rhombus' }, TOLERANCES)).toBe(true);
+        expect(shapeMatchesTarget(RHOMBUS, { kind: 'quadrilateral', shape: 'kite' }, TOLERANCES)).toBe(true);
+        expect(shapeMatchesTarget(triangle(60, 10, 10), { kind: 'triangle', sides: 'isosceles' }, TOLERANCES)).toBe(true);
+    });
+
+    it('rejects the general shape for a special target', () => {
+        expect(shapeMatchesTarget(RHOMBUS, { kind: 'quadrilateral', shape: 'square' }, TOLERANCES)).toBe(false);
+        expect(shapeMatchesTarget(KITE, { kind: 'quadrilateral', shape: 'rhombus' }, TOLERANCES)).toBe(false);
+        expect(shapeMatchesTarget(SQUARE, { kind: 'quadrilateral', shape: 'trapezium' }, TOLERANCES)).toBe(false);
+    });
+
+    it('needs every part of a triangle target and the right number of corners', () => {
+        expect(shapeMatchesTarget(triangle(90, 10, 10), { kind: 'triangle', sides: 'isosceles', angles: 'right' }, TOLERANCES)).toBe(true);
+        expect(shapeMatchesTarget(triangle(90, 10, 13), { kind: 'triangle', sides: 'isosceles', angles: 'right' }, TOLERANCES)).toBe(false);
+        expect(shapeMatchesTarget(SQUARE, { kind: 'triangle', angles: 'right' }, TOLERANCES)).toBe(false);
+        expect(shapeMatchesTarget(triangle(90, 10, 10), { kind: 'quadrilateral', shape: 'square' }, TOLERANCES)).toBe(false);
+    });
+});
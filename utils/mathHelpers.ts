@@ -1,10 +1,41 @@
 
-import { ArithmeticProblem, NumberPickerProblem, NumberType, MathPuzzleProblem, RightBoxLevel, DraggableNumber } from '../types';
+import { AngleClass, AngleTarget, ArithmeticOperation, ArithmeticProblem, NumberPickerProblem, NumberType, MathPuzzleProblem, RightBoxBin, RightBoxLevel, RightBoxSort, DraggableNumber, DifficultyProfile, Distractor, Expression, Point, PuzzleOperation, QuadrilateralClass, ShapeTarget, TriangleAngleClass, TriangleSideClass } from '../types';
+import { DEFAULT_DIFFICULTY } from './difficulty';
+import { Rng, randomInt, pickOne, shuffle } from './random';
+import { binaryNode, countOperations, evaluateExpression, formatExpression, getPuzzleOperation, numberNode, powerNode, rootNode } from './expression';
+import { findMisconceptions } from './misconceptions';
+import { scatterPoints } from './rightBoxPhysics';
 
-export const generateArithmeticProblem = (): ArithmeticProblem => {
-  const num1 = Math.floor(Math.random() * 5) + 1;
-  const num2 = Math.floor(Math.random() * 5) + 1;
-  return { num1, num2, answer: num1 + num2 };
+// Every generator takes an optional `rng`; pass a seeded one for a reproducible sequence.
+
+// Finger answers go up to two digits
+export const ARITHMETIC_ANSWER_MAX = 99;
+
+export const getArithmeticAnswer = (operation: ArithmeticOperation, num1: number, num2: number): number => {
+  switch (operation) {
+    case 'ADD': return num1 + num2;
+    case 'SUB': return num1 - num2;
+    case 'MUL': return num1 * num2;
+    case 'MISSING_ADDEND': return num2;
+  }
+};
+
+export const generateArithmeticProblem = (profile: DifficultyProfile = DEFAULT_DIFFICULTY, rng: Rng = Math.random): ArithmeticProblem => {
+  const { min, max, operations, answerMax } = profile.arithmetic;
+  const operation = pickOne(rng, operations);
+  // The second operand is capped so the result stays within answerMax; the answer itself is never 0
+  const secondUpTo = (limit: number, low = min) => randomInt(rng, low, Math.max(low, Math.min(max, limit)));
+
+  if (operation === 'SUB') {
+    const answer = randomInt(rng, Math.max(min, 1), max);
+    const num2 = secondUpTo(answerMax - answer);
+    return { num1: answer + num2, num2, operation, answer };
+  }
+  const num1 = randomInt(rng, Math.max(min, 1), max);
+  const num2 = operation === 'MUL' ? secondUpTo(Math.floor(answerMax / num1))
+    : operation === 'MISSING_ADDEND' ? secondUpTo(answerMax - num1, Math.max(min, 1))
+    : secondUpTo(answerMax - num1);
+  return { num1, num2, operation, answer: getArithmeticAnswer(operation, num1, num2) };
 };
 
 const isEven = (n: number): boolean => n % 2 === 0;
@@ -16,141 +47,339 @@ const isPrime = (num: number): boolean => {
   }
   return true;
 };
+const isPerfectSquare = (x: number) => {
+    const s = Math.round(Math.sqrt(x));
+    return s * s === x;
+};
 const isFibonacci = (n: number): boolean => {
     if (n < 0) return false;
-    const isPerfectSquare = (x: number) => {
-        const s = Math.sqrt(x);
-        return (s * s === x);
-    };
     return isPerfectSquare(5 * n * n + 4) || isPerfectSquare(5 * n * n - 4);
 };
+const isCube = (n: number): boolean => Math.round(Math.cbrt(n)) ** 3 === n;
+// 1, 3, 6, 10, ...: n is triangular when 8n + 1 is a perfect square
+const isTriangular = (n: number): boolean => n > 0 && isPerfectSquare(8 * n + 1);
 
-const numberCheckers: Record<NumberType, (n: number) => boolean> = {
+// Types that need an n never match without one (n % NaN is NaN)
+const numberCheckers: Record<NumberType, (value: number, n: number) => boolean> = {
     even: isEven,
     odd: isOdd,
     prime: isPrime,
+    composite: value => value > 1 && !isPrime(value),
     fibonacci: isFibonacci,
+    square: value => value > 0 && isPerfectSquare(value),
+    cube: value => value > 0 && isCube(value),
+    triangular: isTriangular,
+    multiple: (value, n) => value > 0 && value % n === 0,
+    factor: (value, n) => value > 0 && n % value === 0,
+    divisible: (value, n) => value % n === 0,
 };
 
-export const generateNumberPickerProblem = (type: NumberType): NumberPickerProblem => {
-    const numbers = new Set<number>();
-    let correctAnswer = -1;
+export const NUMBER_TYPES_WITH_N: NumberType[] = ['multiple', 'factor', 'divisible'];
+// Divisors that have a rule a student can check by looking at the digits
+export const DIVISIBILITY_RULES = [2, 3, 4, 5, 6, 9, 10];
 
-    // Find a correct answer
-    while (correctAnswer === -1) {
-        const potentialAnswer = Math.floor(Math.random() * 20) + 1;
-        if (numberCheckers[type](potentialAnswer)) {
-            correctAnswer = potentialAnswer;
-            numbers.add(correctAnswer);
-        }
-    }
+export const matchesNumberType = (value: number, type: NumberType, n?: number): boolean => numberCheckers[type](value, n ?? NaN);
+
+type NumberPickerSettings = DifficultyProfile['numberPicker'];
+
+interface NumberPickerRound {
+    n?: number;
+    matching: number[];
+    others: number[];
+    // How many answers a round may have: one, or several for find-all
+    answerCounts: number[];
+}
+
+// The ways a round of `type` can be laid out in the range, one per usable n
+const numberPickerRounds = (type: NumberType, { min, max, options, n }: NumberPickerSettings, findAll: boolean): NumberPickerRound[] => {
+    const values = Array.from({ length: max - min + 1 }, (_, i) => min + i);
+    // Factors are asked of composite numbers just past the range, so no round is as easy as "a factor of 35: 35"
+    const defaultNs = type === 'multiple' ? Array.from({ length: 11 }, (_, i) => i + 2)
+        : type === 'divisible' ? DIVISIBILITY_RULES
+        : Array.from({ length: max }, (_, i) => max + 1 + i).filter(v => !isPrime(v));
+    const ns: (number | undefined)[] = NUMBER_TYPES_WITH_N.includes(type) ? n ?? defaultNs : [undefined];
+
+    return ns.map(n => {
+        const matching = values.filter(v => matchesNumberType(v, type, n));
+        const others = values.filter(v => !matchesNumberType(v, type, n));
+        // Find-all rounds ask for at least two numbers and at most half of those shown
+        const counts = findAll ? Array.from({ length: Math.ceil(options / 2) - 1 }, (_, i) => i + 2) : [1];
+        return { n, matching, others, answerCounts: counts.filter(k => k <= matching.length && options - k <= others.length) };
+    }).filter(round => round.answerCounts.length > 0);
+};
+
+// Whether `type` can be asked at all with these settings, e.g. not "prime" over 24-28
+export const canAskNumberType = (type: NumberType, settings: NumberPickerSettings): boolean =>
+    numberPickerRounds(type, settings, false).length > 0;
+
+/**
+ * A round of `options` numbers from min-max: exactly one that matches `type`, or for a find-all round
+ * (chance `findAll`) two or more. Falls back to a one-answer round when no find-all round fits.
+ */
+export const generateNumberPickerProblem = (type: NumberType, profile: DifficultyProfile = DEFAULT_DIFFICULTY, rng: Rng = Math.random): NumberPickerProblem => {
+    const settings = profile.numberPicker;
+    const wantsFindAll = rng() < settings.findAll;
+    const findAllRounds = wantsFindAll ? numberPickerRounds(type, settings, true) : [];
+    const findAll = findAllRounds.length > 0;
+    const rounds = findAll ? findAllRounds : numberPickerRounds(type, settings, false);
+    if (rounds.length === 0) throw new Error(`No ${type} round fits ${settings.min}-${settings.max} with ${settings.options} numbers`);
+
+    const { n, matching, others, answerCounts } = pickOne(rng, rounds);
+    const answers = shuffle(rng, matching).slice(0, pickOne(rng, answerCounts));
+    const wrong = shuffle(rng, others).slice(0, settings.options - answers.length);
 
-    // Fill with incorrect answers
-    while (numbers.size < 5) {
-        const randomNum = Math.floor(Math.random() * 20) + 1;
-        if (!numberCheckers[type](randomNum) && !numbers.has(randomNum)) {
-            numbers.add(randomNum);
-        }
-    }
-    
     return {
-        numbers: Array.from(numbers).sort(() => Math.random() - 0.5),
+        numbers: shuffle(rng, [...answers, ...wrong]),
         type,
-        correctAnswer
+        n,
+        answers,
+        findAll,
     };
 };
 
-export const generateMathPuzzleProblem = (): MathPuzzleProblem => {
-    const operations = ['ADD', 'SUB', 'MUL', 'DIV', 'SQUARE', 'ROOT'];
-    const op = operations[Math.floor(Math.random() * operations.length)];
-    
-    let question = '';
-    let correctAnswer = 0;
+type PuzzleSettings = DifficultyProfile['mathPuzzle'];
+
+// A one-operation puzzle; multi-step puzzles grow from one of these
+const buildPuzzleStep = (op: PuzzleOperation, { addMax, factorMax, factors }: PuzzleSettings, rng: Rng): Expression => {
+    // A fixed factor list (e.g. [7] for the 7-times table) pins one side of every product and quotient
+    const pinnedFactor = () => factors && factors.length > 0 ? pickOne(rng, factors) : null;
 
     switch (op) {
         case 'ADD':
-            const a1 = Math.floor(Math.random() * 50) + 1;
-            const a2 = Math.floor(Math.random() * 50) + 1;
-            question = `${a1} + ${a2}`;
-            correctAnswer = a1 + a2;
-            break;
-        case 'SUB':
-            const s1 = Math.floor(Math.random() * 50) + 10;
-            const s2 = Math.floor(Math.random() * s1); // ensure positive result
-            question = `${s1} - ${s2}`;
-            correctAnswer = s1 - s2;
-            break;
+            return binaryNode('+', numberNode(randomInt(rng, 1, addMax)), numberNode(randomInt(rng, 1, addMax)));
+        case 'SUB': {
+            const s1 = randomInt(rng, 10, addMax + 9);
+            const s2 = Math.floor(rng() * s1); // ensure positive result
+            return binaryNode('−', numberNode(s1), numberNode(s2));
+        }
         case 'MUL':
-            const m1 = Math.floor(Math.random() * 12) + 2;
-            const m2 = Math.floor(Math.random() * 12) + 2;
-            question = `${m1} × ${m2}`;
-            correctAnswer = m1 * m2;
-            break;
-        case 'DIV':
-            const d2 = Math.floor(Math.random() * 10) + 2;
-            correctAnswer = Math.floor(Math.random() * 10) + 2;
-            const d1 = d2 * correctAnswer;
-            question = `${d1} ÷ ${d2}`;
-            break;
+            return binaryNode('×', numberNode(pinnedFactor() ?? randomInt(rng, 2, factorMax)), numberNode(randomInt(rng, 2, factorMax)));
+        case 'DIV': {
+            const d2 = pinnedFactor() ?? randomInt(rng, 2, Math.max(2, factorMax - 2));
+            const quotient = randomInt(rng, 2, Math.max(2, factorMax - 2));
+            return binaryNode('÷', numberNode(d2 * quotient), numberNode(d2));
+        }
+        case 'SQUARE': {
+            const base = randomInt(rng, 2, factorMax);
+            // Small bases are sometimes cubed instead
+            return powerNode(numberNode(base), base <= 5 && rng() < 0.3 ? 3 : 2);
+        }
+        case 'ROOT': {
+            const r = randomInt(rng, 2, factorMax);
+            return rootNode(numberNode(r * r));
+        }
+    }
+};
+
+const HIGH_PRECEDENCE: PuzzleOperation[] = ['MUL', 'DIV', 'SQUARE', 'ROOT'];
+
+/**
+ * Applies `op` once more to `expression`, which is worth `value`. Sums and differences may take a
+ * whole product, power or root as their other operand (3 + 4 × 2) when `room` allows two more steps.
+ * Returns null when `op` cannot keep every step a whole number.
+ */
+const extendPuzzle = (expression: Expression, value: number, op: PuzzleOperation, room: number, settings: PuzzleSettings, rng: Rng): Expression | null => {
+    const { addMax, factorMax, factors, operations } = settings;
+    const termOps = operations.filter(o => HIGH_PRECEDENCE.includes(o));
+    const term = (below = Infinity): Expression | null => {
+        if (room < 2 || termOps.length === 0 || rng() < 0.5) return null;
+        const candidate = buildPuzzleStep(pickOne(rng, termOps), settings, rng);
+        return evaluateExpression(candidate) < below ? candidate : null;
+    };
+
+    switch (op) {
+        case 'ADD': {
+            const operand = term() ?? numberNode(randomInt(rng, 1, addMax));
+            return rng() < 0.5 ? binaryNode('+', expression, operand) : binaryNode('+', operand, expression);
+        }
+        case 'SUB':
+            if (value >= 2 && rng() < 0.6) return binaryNode('−', expression, term(value) ?? numberNode(randomInt(rng, 1, value - 1)));
+            return binaryNode('−', numberNode(randomInt(rng, value + 1, value + addMax)), expression);
+        case 'MUL': {
+            if (value > 100) return null;
+            const factor = numberNode(factors && factors.length > 0 ? pickOne(rng, factors) : randomInt(rng, 2, Math.min(factorMax, 9)));
+            return rng() < 0.5 ? binaryNode('×', expression, factor) : binaryNode('×', factor, expression);
+        }
+        case 'DIV': {
+            const divisors = (factors && factors.length > 0 ? factors : Array.from({ length: Math.max(0, factorMax - 1) }, (_, i) => i + 2))
+                .filter(d => d < value && value % d === 0);
+            return divisors.length > 0 ? binaryNode('÷', expression, numberNode(pickOne(rng, divisors))) : null;
+        }
+        // Squaring a root (or rooting a square) would just undo it
         case 'SQUARE':
-            const sq = Math.floor(Math.random() * 12) + 2;
-            question = `${sq}²`;
-            correctAnswer = sq * sq;
-            break;
+            return value >= 2 && value <= 15 && expression.kind !== 'root' ? powerNode(expression, 2) : null;
         case 'ROOT':
-            correctAnswer = Math.floor(Math.random() * 12) + 2;
-            question = `√${correctAnswer * correctAnswer}`;
-            break;
+            return value >= 4 && Number.isInteger(Math.sqrt(value)) && expression.kind !== 'power' ? rootNode(expression) : null;
     }
+};
 
-    const options = new Set<number>();
-    options.add(correctAnswer);
-
-    while (options.size < 4) {
-        const variance = Math.floor(Math.random() * 10) + 1;
-        const sign = Math.random() > 0.5 ? 1 : -1;
-        const val = correctAnswer + (variance * sign);
-        
-        // Ensure positive and not equal to correct answer or existing options
-        if (val >= 0 && !options.has(val)) {
-            options.add(val);
-        } else {
-             // Fallback if the random generation struggles
-             options.add(correctAnswer + options.size + 1);
-        }
+export const generateMathPuzzleProblem = (profile: DifficultyProfile = DEFAULT_DIFFICULTY, rng: Rng = Math.random): MathPuzzleProblem => {
+    const settings = profile.mathPuzzle;
+    const steps = randomInt(rng, 1, settings.steps);
+
+    let expression = buildPuzzleStep(pickOne(rng, settings.operations), settings, rng);
+    // Some operations cannot follow every value (no whole square root of 20), so a few tries may be wasted
+    for (let tries = 0; tries < 20 && countOperations(expression) < steps; tries++) {
+        const room = steps - countOperations(expression);
+        expression = extendPuzzle(expression, evaluateExpression(expression), pickOne(rng, settings.operations), room, settings, rng) ?? expression;
     }
+    const correctAnswer = evaluateExpression(expression);
 
     return {
-        question,
-        options: Array.from(options).sort(() => Math.random() - 0.5),
-        correctAnswer
+        question: formatExpression(expression),
+        ...generateAnswerOptions(correctAnswer, settings.options, rng, expression),
+        correctAnswer,
+        operation: getPuzzleOperation(expression),
+        expression,
     };
 };
 
-export const generateRightBoxLevel = (count: number = 6): RightBoxLevel => {
-    const types: ('even'|'odd')[] = ['even', 'odd'];
-    const targetType = types[Math.floor(Math.random() * types.length)];
-    
-    const numbers: DraggableNumber[] = [];
-    const usedValues = new Set<number>();
-    
-    // Attempt to generate a mix of correct and incorrect numbers
-    while (numbers.length < count) {
-        const val = Math.floor(Math.random() * 50) + 1;
-        if (!usedValues.has(val)) {
-            usedValues.add(val);
-            numbers.push({
-                id: `num-${Math.random().toString(36).substr(2,9)}`,
-                value: val,
-                // Spawn on the left 70% of the screen
-                x: Math.random() * 0.6 + 0.05, 
-                y: Math.random() * 0.6 + 0.2, 
-                isDragging: false
-            });
+/**
+ * The correct answer plus `count - 1` wrong ones, shuffled. Wrong answers come from known mistakes
+ * first (see misconceptions.ts), one of each kind before any kind repeats, and then from nearby numbers.
+ */
+export const generateAnswerOptions = (correctAnswer: number, count: number, rng: Rng = Math.random, expression?: Expression): { options: number[], distractors: Distractor[] } => {
+    const candidates = shuffle(rng, findMisconceptions(correctAnswer, expression));
+    const firstOfKind = candidates.filter((d, i) => candidates.findIndex(c => c.misconception === d.misconception) === i);
+    const distractors = [...firstOfKind, ...candidates.filter(d => !firstOfKind.includes(d))].slice(0, count - 1);
+
+    const options = new Set([correctAnswer, ...distractors.map(d => d.value)]);
+    for (let tries = 0; options.size < count && tries < 20; tries++) {
+        const val = correctAnswer + randomInt(rng, 1, 10) * (rng() > 0.5 ? 1 : -1);
+        if (val >= 0) options.add(val);
+    }
+    // Fallback if the random generation struggles: the next free numbers above the answer
+    for (let val = correctAnswer + 1; options.size < count; val++) options.add(val);
+
+    return { options: shuffle(rng, Array.from(options)), distractors };
+};
+
+// --- Right Box Sort ---
+
+type BinPlace = Pick<RightBoxBin, 'x' | 'y' | 'width' | 'height'>;
+type BinSpec = Omit<RightBoxBin, keyof BinPlace>;
+type SortItem = Pick<DraggableNumber, 'value' | 'denominator'>;
+
+// Where 2, 3 or 4 bins go when a level does not place them: down the sides, a third along the bottom
+export const RIGHT_BOX_LAYOUTS: Record<number, BinPlace[]> = {
+    2: [
+        { x: 0, y: 0, width: 0.22, height: 1 },
+        { x: 0.78, y: 0, width: 0.22, height: 1 },
+    ],
+    3: [
+        { x: 0, y: 0, width: 0.22, height: 1 },
+        { x: 0.78, y: 0, width: 0.22, height: 1 },
+        { x: 0.3, y: 0.8, width: 0.4, height: 0.2 },
+    ],
+    4: [
+        { x: 0, y: 0, width: 0.22, height: 0.48 },
+        { x: 0, y: 0.52, width: 0.22, height: 0.48 },
+        { x: 0.78, y: 0, width: 0.22, height: 0.48 },
+        { x: 0.78, y: 0.52, width: 0.22, height: 0.48 },
+    ],
+};
+
+export const layoutBins = (specs: BinSpec[]): RightBoxBin[] =>
+    specs.map((spec, i) => ({ ...spec, ...RIGHT_BOX_LAYOUTS[specs.length][i] }));
+
+export const formatSortItem = ({ value, denominator }: SortItem): string =>
+    denominator === undefined ? String(value) : `${value}/${denominator}`;
+
+// For logs, e.g. "multiple 3"
+export const formatBinRule = ({ rule, value }: BinSpec): string => value === undefined ? rule : `${rule} ${value}`;
+
+// Whether the item fits the bin's own rule; "other" is decided by the remaining bins
+const fitsBinRule = ({ rule, value: n = NaN }: BinSpec, { value, denominator }: SortItem): boolean => {
+    if (denominator !== undefined) return rule === 'half' && value * 2 === denominator;
+    switch (rule) {
+        case 'even': return isEven(value);
+        case 'odd': return isOdd(value);
+        case 'prime': return isPrime(value);
+        case 'composite': return matchesNumberType(value, 'composite');
+        case 'below': return value < n;
+        case 'atLeast': return value >= n;
+        case 'multiple': return matchesNumberType(value, 'multiple', n);
+        case 'half':
+        case 'other':
+            return false;
+    }
+};
+
+/** Indexes of the bins that take the item: those whose rule it fits, or else any "other" bin. */
+export const getMatchingBins = (bins: BinSpec[], item: SortItem): number[] => {
+    const fitting = bins.flatMap((bin, i) => fitsBinRule(bin, item) ? [i] : []);
+    return fitting.length > 0 ? fitting : bins.flatMap((bin, i) => bin.rule === 'other' ? [i] : []);
+};
+
+export const getBinAt = (bins: RightBoxBin[], x: number, y: number): number =>
+    bins.findIndex(bin => x >= bin.x && x <= bin.x + bin.width && y >= bin.y && y <= bin.y + bin.height);
+
+const sortBins = (sort: RightBoxSort, max: number, rng: Rng): BinSpec[] => {
+    switch (sort) {
+        case 'parity': return shuffle<BinSpec>(rng, [{ rule: 'even' }, { rule: 'odd' }]);
+        case 'primality': return shuffle<BinSpec>(rng, [{ rule: 'prime' }, { rule: 'composite' }]);
+        case 'size': {
+            // A round threshold near the middle of the range, e.g. 50 for 1-100
+            const value = Math.max(10, Math.round(max / 20) * 10);
+            return [{ rule: 'below', value }, { rule: 'atLeast', value }];
+        }
+        case 'multiples': {
+            const divisors = shuffle(rng, [2, 3, 5, 7]).slice(0, randomInt(rng, 2, 3)).sort((a, b) => a - b);
+            return [...divisors.map((value): BinSpec => ({ rule: 'multiple', value })), { rule: 'other' }];
+        }
+        case 'halves': return [{ rule: 'half' }, { rule: 'other' }];
+    }
+};
+
+const randomSortItem = (sort: RightBoxSort, max: number, rng: Rng): SortItem => {
+    if (sort !== 'halves') return { value: randomInt(rng, sort === 'primality' ? 2 : 1, max) };
+    // Proper fractions with denominators up to 12, about half of them equal to ½
+    if (rng() < 0.5) {
+        const value = randomInt(rng, 1, 6);
+        return { value, denominator: value * 2 };
+    }
+    const denominator = randomInt(rng, 3, 12);
+    const value = randomInt(rng, 1, denominator - 1);
+    // Nudged off ½ so these go in the other bin
+    return { value: value * 2 === denominator ? value + 1 : value, denominator };
+};
+
+export const generateRightBoxLevel = (profile: DifficultyProfile = DEFAULT_DIFFICULTY, rng: Rng = Math.random): RightBoxLevel => {
+    const { max, count, sorts } = profile.rightBox;
+    const sort = pickOne(rng, sorts);
+    const bins = layoutBins(sortBins(sort, max, rng));
+
+    const items: SortItem[] = [];
+    const used = new Set<string>();
+    for (let i = 0; i < count; i++) {
+        // Deal the numbers out over the bins so every bin gets some, unless the range is too small for that
+        for (let tries = 0; tries < 50; tries++) {
+            const item = randomSortItem(sort, max, rng);
+            if (used.has(formatSortItem(item))) continue;
+            if (tries < 49 && !getMatchingBins(bins, item).includes(i % bins.length)) continue;
+            used.add(formatSortItem(item));
+            items.push(item);
+            break;
         }
     }
-    
-    return { targetType, numbers };
+
+    return buildRightBoxLevel(bins, shuffle(rng, items), rng);
+};
+
+// Scatters the given numbers over the play area, clear of the bins and of each other, at rest
+export const buildRightBoxLevel = (bins: RightBoxBin[], items: SortItem[], rng: Rng = Math.random): RightBoxLevel => {
+    const spots = scatterPoints(items.length, bins, rng);
+    const numbers: DraggableNumber[] = items.map((item, i) => ({
+        id: `num-${rng().toString(36).substr(2,9)}`,
+        ...item,
+        ...spots[i],
+        vx: 0,
+        vy: 0,
+        isDragging: false,
+        thrown: false
+    }));
+
+    return { bins, numbers };
 };
 
 // --- Geometry Helpers for Angle Magic ---
@@ -172,12 +401,156 @@ export const getAngleDifference = (angle1: number, angle2: number): number => {
     return diff;
 };
 
-export const classifyAngle = (angle: number): string => {
+// Language-neutral; the UI looks up the angle's name for the current locale
+export const classifyAngle = (angle: number): AngleClass => {
     // Widened tolerances for easier detection based on user feedback
-    if (angle < 15 || angle > 345) return 'ପୂର୍ଣ୍ଣ କୋଣ'; // Complete (360)
-    if (angle < 75) return 'ସୂକ୍ଷ୍ମ କୋଣ'; // Acute (0-75)
-    if (angle <= 105) return 'ସମକୋଣ'; // Right (75-105 range - widened)
-    if (angle < 170) return 'ସ୍ଥୂଳ କୋଣ'; // Obtuse (105-170)
-    if (angle <= 190) return 'ସରଳ କୋଣ'; // Straight (170-190 range)
-    return 'ପ୍ରବୃଦ୍ଧ କୋଣ'; // Reflex
+    if (angle < 15 || angle > 345) return 'complete'; // Complete (360)
+    if (angle < 75) return 'acute'; // Acute (0-75)
+    if (angle <= 105) return 'right'; // Right (75-105 range - widened)
+    if (angle < 170) return 'obtuse'; // Obtuse (105-170)
+    if (angle <= 190) return 'straight'; // Straight (170-190 range)
+    return 'reflex'; // Reflex
+};
+
+// A complete angle is left out: two fingers pointing the same way look like no angle at all
+const TARGET_ANGLE_CLASSES: AngleClass[] = ['acute', 'right', 'obtuse', 'straight', 'reflex'];
+
+// Mostly exact sizes, sometimes a named class ("make a right angle")
+export const generateAngleTarget = (profile: DifficultyProfile = DEFAULT_DIFFICULTY, rng: Rng = Math.random): AngleTarget => {
+    const { step, tolerance } = profile.angleMagic;
+    if (rng() < 0.3) return { kind: 'class', angleClass: pickOne(rng, TARGET_ANGLE_CLASSES) };
+    return { kind: 'degrees', degrees: randomInt(rng, 1, Math.floor(359 / step)) * step, tolerance };
+};
+
+/**
+ * How well `angle` meets the target: 1 when spot on, falling to 0 at the edge of the tolerance,
+ * or null when it misses. Any angle of the asked-for class scores 1.
+ */
+export const getAngleAccuracy = (angle: number, target: AngleTarget): number | null => {
+    if (target.kind === 'class') return classifyAngle(angle) === target.angleClass ? 1 : null;
+    const off = Math.abs(angle - target.degrees);
+    return off <= target.tolerance ? 1 - off / target.tolerance : null;
+};
+
+// The class a target practises, for skill tracking
+export const getAngleTargetClass = (target: AngleTarget): AngleClass =>
+    target.kind === 'class' ? target.angleClass : classifyAngle(target.degrees);
+
+// --- Geometry Helpers for Shape Builder ---
+
+type ShapeTolerances = DifficultyProfile['shapeBuilder'];
+
+export const getDistance = (p1: Point, p2: Point): number => Math.hypot(p2.x - p1.x, p2.y - p1.y);
+
+// Sorts points by direction from their centroid, so joining them in order never crosses a side
+export const orderPolygonVertices = (points: Point[]): Point[] => {
+    const centroid = {
+        x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+        y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+    };
+    return [...points].sort((a, b) => getVectorAngle(centroid, a) - getVectorAngle(centroid, b));
+};
+
+// Side i runs from vertex i to vertex i + 1 (the last side closes the polygon)
+export const getPolygonSides = (vertices: Point[]): number[] =>
+    vertices.map((v, i) => getDistance(v, vertices[(i + 1) % vertices.length]));
+
+export const getPolygonPerimeter = (vertices: Point[]): number =>
+    getPolygonSides(vertices).reduce((sum, side) => sum + side, 0);
+
+// Shoelace formula in screen coordinates: negative when the vertices run counter-clockwise on screen
+const getSignedArea = (vertices: Point[]): number =>
+    vertices.reduce((sum, v, i) => {
+        const next = vertices[(i + 1) % vertices.length];
+        return sum + v.x * next.y - next.x * v.y;
+    }, 0) / 2;
+
+export const getPolygonArea = (vertices: Point[]): number => Math.abs(getSignedArea(vertices));
+
+// Interior angle at each vertex in degrees; above 180 where the polygon is concave
+export const getPolygonInteriorAngles = (vertices: Point[]): number[] => {
+    if (vertices.length < 3) return [];
+    const counterClockwise = getSignedArea(vertices) < 0;
+    return vertices.map((v, i) => {
+        const prev = vertices[(i - 1 + vertices.length) % vertices.length];
+        const next = vertices[(i + 1) % vertices.length];
+        const sweep = getAngleDifference(getVectorAngle(v, next), getVectorAngle(v, prev));
+        return counterClockwise ? sweep : 360 - sweep;
+    });
+};
+
+const equalWithin = (a: number, b: number, tolerance: number) => Math.abs(a - b) <= tolerance * Math.max(a, b);
+
+export const classifyTriangle = (vertices: Point[], { sideTolerance, angleTolerance }: ShapeTolerances): { sides: TriangleSideClass, angles: TriangleAngleClass } => {
+    const [short, middle, long] = getPolygonSides(vertices).sort((a, b) => a - b);
+    const sides: TriangleSideClass = equalWithin(short, long, sideTolerance) ? 'equilateral'
+        : equalWithin(short, middle, sideTolerance) || equalWithin(middle, long, sideTolerance) ? 'isosceles'
+        : 'scalene';
+    const largest = Math.max(...getPolygonInteriorAngles(vertices));
+    const angles: TriangleAngleClass = Math.abs(largest - 90) <= angleTolerance ? 'right' : largest < 90 ? 'acute' : 'obtuse';
+    return { sides, angles };
+};
+
+// The most specific name that fits: a square is reported as a square, not a rectangle
+export const classifyQuadrilateral = (vertices: Point[], { sideTolerance, angleTolerance }: ShapeTolerances): QuadrilateralClass => {
+    const sides = getPolygonSides(vertices);
+    const [a, b, c, d] = sides;
+    const allSidesEqual = equalWithin(Math.min(...sides), Math.max(...sides), sideTolerance);
+    const allRight = getPolygonInteriorAngles(vertices).every(angle => Math.abs(angle - 90) <= angleTolerance);
+    const parallel = (side1: number, side2: number) => {
+        const direction = (i: number) => getVectorAngle(vertices[i], vertices[(i + 1) % vertices.length]);
+        const diff = getAngleDifference(direction(side1), direction(side2)) % 180;
+        return Math.min(diff, 180 - diff) <= angleTolerance;
+    };
+    const parallelPairs = Number(parallel(0, 2)) + Number(parallel(1, 3));
+
+    if (allRight) return allSidesEqual ? 'square' : 'rectangle';
+    if (allSidesEqual) return 'rhombus';
+    if (parallelPairs === 2) return 'parallelogram';
+    if (parallelPairs === 1) return 'trapezium';
+    if ((equalWithin(a, b, sideTolerance) && equalWithin(c, d, sideTolerance)) ||
+        (equalWithin(b, c, sideTolerance) && equalWithin(d, a, sideTolerance))) return 'kite';
+    return 'irregular';
+};
+
+// Every triangle target can be built; an equilateral triangle is always acute, so it is never asked for with angles
+const TRIANGLE_TARGETS: ShapeTarget[] = [
+    { kind: 'triangle', sides: 'equilateral' },
+    { kind: 'triangle', sides: 'isosceles' },
+    { kind: 'triangle', sides: 'scalene' },
+    { kind: 'triangle', angles: 'acute' },
+    { kind: 'triangle', angles: 'right' },
+    { kind: 'triangle', angles: 'obtuse' },
+    { kind: 'triangle', sides: 'isosceles', angles: 'right' },
+    { kind: 'triangle', sides: 'isosceles', angles: 'obtuse' },
+    { kind: 'triangle', sides: 'scalene', angles: 'right' },
+    { kind: 'triangle', sides: 'scalene', angles: 'obtuse' },
+];
+const QUADRILATERAL_TARGETS: ShapeTarget[] = (['square', 'rectangle', 'rhombus', 'parallelogram', 'trapezium', 'kite'] as const)
+    .map(shape => ({ kind: 'quadrilateral', shape }));
+
+export const generateShapeTarget = (profile: DifficultyProfile = DEFAULT_DIFFICULTY, rng: Rng = Math.random): ShapeTarget =>
+    pickOne(rng, profile.shapeBuilder.quadrilaterals ? [...TRIANGLE_TARGETS, ...QUADRILATERAL_TARGETS] : TRIANGLE_TARGETS);
+
+// Special cases count as the general shape: an equilateral triangle is isosceles, a square is a rectangle
+const QUADRILATERAL_SPECIAL_CASES: Record<QuadrilateralClass, QuadrilateralClass[]> = {
+    square: [],
+    rectangle: ['square'],
+    rhombus: ['square'],
+    parallelogram: ['rectangle', 'rhombus', 'square'],
+    trapezium: [],
+    kite: ['rhombus', 'square'],
+    irregular: [],
+};
+
+export const shapeMatchesTarget = (vertices: Point[], target: ShapeTarget, tolerances: ShapeTolerances): boolean => {
+    if (target.kind === 'quadrilateral') {
+        if (vertices.length !== 4) return false;
+        const shape = classifyQuadrilateral(vertices, tolerances);
+        return shape === target.shape || QUADRILATERAL_SPECIAL_CASES[target.shape].includes(shape);
+    }
+    if (vertices.length !== 3) return false;
+    const { sides, angles } = classifyTriangle(vertices, tolerances);
+    const sidesMatch = !target.sides || sides === target.sides || (target.sides === 'isosceles' && sides === 'equilateral');
+    return sidesMatch && (!target.angles || angles === target.angles);
 };
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vitest';
+import { parseExpression } from './expression';
+import { findMisconceptions, getMisconception } from './misconceptions';
+
+const mistakes = (text: string, correctAnswer: number) =>
+    findMisconceptions(correctAnswer, parseExpression(text)).map(d => `${d.value} ${d.misconception}`);
+
+describe('findMisconceptions', () => {
+    it('tags each kind of mistake', () => {
+        expect(mistakes('7 × 8', 56)).toEqual(['15 ADD_FOR_MUL', '65 DIGIT_REVERSAL', '57 OFF_BY_ONE', '55 OFF_BY_ONE']);
+        expect(mistakes('√49', 7)).toEqual(['2401 SQUARE_FOR_ROOT', '8 OFF_BY_ONE', '6 OFF_BY_ONE']);
+        expect(mistakes('52 − 37', 15)).toEqual(['25 REVERSED_SUBTRACTION', '51 DIGIT_REVERSAL', '16 OFF_BY_ONE', '14 OFF_BY_ONE']);
+    });
+
+    it('works from the answer alone without an expression', () => {
+        expect(findMisconceptions(56)).toEqual([
+            { value: 65, misconception: 'DIGIT_REVERSAL' },
+            { value: 57, misconception: 'OFF_BY_ONE' },
+            { value: 55, misconception: 'OFF_BY_ONE' },
+        ]);
+    });
+
+    it('makes the mistake in one step and works the rest correctly', () => {
+        expect(mistakes('3 + 4 × 2', 11)).toEqual(['9 ADD_FOR_MUL', '12 OFF_BY_ONE', '10 OFF_BY_ONE']);
+    });
+
+    it('drops negative values, the answer itself and repeats', () => {
+        expect(findMisconceptions(0)).toEqual([{ value: 1, misconception: 'OFF_BY_ONE' }]);
+        expect(mistakes('2 × 2', 4)).toEqual(['5 OFF_BY_ONE', '3 OFF_BY_ONE']);
+        expect(mistakes('1 × 2', 2)).toEqual(['3 ADD_FOR_MUL', '1 OFF_BY_ONE']);
+    });
+});
+
+describe('getMisconception', () => {
+    it('names the mistake behind a picked answer', () => {
+        const distractors = findMisconceptions(56, parseExpression('7 × 8'));
+        expect(getMisconception(distractors, 15)).toBe('ADD_FOR_MUL');
+        expect(getMisconception(distractors, 56)).toBeUndefined();
+    });
+});
@@ -0,0 +1,92 @@
+import { Distractor, Expression, Misconception } from '../types';
+import { evaluateExpression, numberNode } from './expression';
+
+/*
+ * Wrong answers that known mistakes produce, so a multiple-choice question offers answers a student
+ * might really reach and a wrong pick says which mistake was made:
+ *
+ *   ADD_FOR_MUL           adding instead of multiplying: 7 × 8 → 15, and 7² → 7 + 7 = 14
+ *   OFF_BY_ONE            counting one too far or stopping one short: 56 → 55 or 57
+ *   DIGIT_REVERSAL        writing the digits the wrong way round: 56 → 65
+ *   SQUARE_FOR_ROOT       squaring instead of taking the root: √49 → 2401
+ *   REVERSED_SUBTRACTION  taking the smaller digit from the larger in each column instead of
+ *                         borrowing: 52 − 37 → 25
+ *
+ * In a multi-step expression a mistake is made in one step and the rest is worked correctly, so
+ * 3 + 4 × 2 gives 3 + 6 = 9 for ADD_FOR_MUL.
+ */
+
+const reverseDigits = (n: number): number => Number(String(n).split('').reverse().join(''));
+
+// Column by column, always the smaller digit from the larger
+const subtractWithoutBorrowing = (a: number, b: number): number => {
+    let result = 0;
+    for (let place = 1; a > 0 || b > 0; place *= 10) {
+        result += Math.abs((a % 10) - (b % 10)) * place;
+        a = Math.floor(a / 10);
+        b = Math.floor(b / 10);
+    }
+    return result;
+};
+
+// Evaluates with one subtree replaced by a wrong value; null when that makes the rest impossible (÷ 0)
+const evaluateWith = (rebuild: (value: Expression) => Expression, mistake: Distractor): Distractor | null => {
+    try {
+        return { value: evaluateExpression(rebuild(numberNode(mistake.value))), misconception: mistake.misconception };
+    } catch {
+        return null;
+    }
+};
+
+// Every value the expression takes when exactly one step goes wrong
+const expressionMistakes = (expression: Expression): Distractor[] => {
+    const mistakes: (Distractor | null)[] = [];
+    const value = (e: Expression) => evaluateExpression(e);
+    const own = (v: number, misconception: Misconception) => mistakes.push({ value: v, misconception });
+
+    switch (expression.kind) {
+        case 'number':
+            return [];
+        case 'binary': {
+            const { operator, left, right } = expression;
+            for (const m of expressionMistakes(left)) mistakes.push(evaluateWith(v => ({ ...expression, left: v }), m));
+            for (const m of expressionMistakes(right)) mistakes.push(evaluateWith(v => ({ ...expression, right: v }), m));
+            if (operator === '×') own(value(left) + value(right), 'ADD_FOR_MUL');
+            if (operator === '−' && value(left) >= value(right)) own(subtractWithoutBorrowing(value(left), value(right)), 'REVERSED_SUBTRACTION');
+            break;
+        }
+        case 'power':
+            for (const m of expressionMistakes(expression.base)) mistakes.push(evaluateWith(v => ({ ...expression, base: v }), m));
+            own(value(expression.base) * expression.exponent, 'ADD_FOR_MUL');
+            break;
+        case 'root':
+            for (const m of expressionMistakes(expression.operand)) mistakes.push(evaluateWith(v => ({ ...expression, operand: v }), m));
+            own(value(expression.operand) ** 2, 'SQUARE_FOR_ROOT');
+            break;
+    }
+    return mistakes.filter((m): m is Distractor => m !== null);
+};
+
+/**
+ * Wrong answers with the mistake behind each, most specific first: mistakes in the expression's
+ * steps, then digit reversal, then off by one. Only whole numbers from 0 up that differ from the
+ * answer and from each other are kept. Without an expression only the answer itself is used.
+ */
+export const findMisconceptions = (correctAnswer: number, expression?: Expression): Distractor[] => {
+    const candidates: Distractor[] = [
+        ...(expression ? expressionMistakes(expression) : []),
+        ...(correctAnswer >= 10 && correctAnswer % 10 !== 0 ? [{ value: reverseDigits(correctAnswer), misconception: 'DIGIT_REVERSAL' as const }] : []),
+        { value: correctAnswer + 1, misconception: 'OFF_BY_ONE' },
+        { value: correctAnswer - 1, misconception: 'OFF_BY_ONE' },
+    ];
+
+    const seen = new Set([correctAnswer]);
+    return candidates.filter(({ value }) => {
+        if (!Number.isInteger(value) || value < 0 || seen.has(value)) return false;
+        seen.add(value);
+        return true;
+    });
+};
+
+export const getMisconception = (distractors: Distractor[], answer: number): Misconception | undefined =>
+    distractors.find(d => d.value === answer)?.misconception;
@@ -0,0 +1,40 @@
+import { LandmarkList, Results } from '../types';
+import { LEFT_HAND_COLOR, RIGHT_HAND_COLOR } from './handDrawing';
+
+// In versus mode each tracked hand is a player, named after MediaPipe's handedness labels
+export type PlayerId = 'Left' | 'Right';
+
+export const PLAYER_IDS: PlayerId[] = ['Left', 'Right'];
+
+// Player names come from the message catalogs (player.Left, player.Right)
+export const PLAYER_STYLES: Record<PlayerId, { color: string, cursorClass: string, textClass: string }> = {
+    Right: { color: RIGHT_HAND_COLOR, cursorClass: 'bg-cyan-400', textClass: 'text-cyan-300' },
+    Left: { color: LEFT_HAND_COLOR, cursorClass: 'bg-fuchsia-500', textClass: 'text-fuchsia-400' },
+};
+
+/**
+ * Gives each of up to two hands to a player. Distinct handedness labels decide when available;
+ * when both hands report the same label (two children using their right hands), the hand on the
+ * left of the mirrored screen becomes the Left player and the other the Right player.
+ */
+export const assignPlayerHands = (results: Results): Partial<Record<PlayerId, LandmarkList>> => {
+    const hands = (results.multiHandLandmarks ?? []).slice(0, 2);
+    const labels = hands.map((_, i) => results.multiHandedness?.[i]?.label);
+
+    if (hands.length === 2 && labels[0] && labels[1] && labels[0] !== labels[1]) {
+        return { [labels[0]]: hands[0], [labels[1]]: hands[1] };
+    }
+
+    if (hands.length === 2) {
+        // Raw x is unmirrored, so the larger x is further left on screen
+        const [screenLeft, screenRight] = hands[0][0].x > hands[1][0].x ? hands : [hands[1], hands[0]];
+        return { Left: screenLeft, Right: screenRight };
+    }
+
+    if (hands.length === 1) {
+        const label = labels[0] ?? (hands[0][0].x > 0.5 ? 'Left' : 'Right');
+        return { [label]: hands[0] };
+    }
+
+    return {};
+};
@@ -0,0 +1,45 @@
+// A source of uniform numbers in [0, 1), shaped like Math.random so it can be injected anywhere
+export type Rng = () => number;
+
+// FNV-1a, so any string (a date, a game name) can seed a generator
+export const hashSeed = (text: string): number => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+};
+
+/** Mulberry32: small, fast and good enough for shuffling problems. Same seed, same sequence. */
+export const createSeededRng = (seed: number | string): Rng => {
+    let state = typeof seed === 'string' ? hashSeed(seed) : seed >>> 0;
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Inclusive on both ends
+export const randomInt = (rng: Rng, min: number, max: number): number => Math.floor(rng() * (max - min + 1)) + min;
+
+export const pickOne = <T>(rng: Rng, items: readonly T[]): T => items[Math.floor(rng() * items.length)];
+
+// Fisher-Yates; returns a new array and leaves the input untouched
+export const shuffle = <T>(rng: Rng, items: readonly T[]): T[] => {
+    const result = [...items];
+    for (let i = result.length - 1; i > 0; i--) {
+        const j = Math.floor(rng() * (i + 1));
+        [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+};
+
+// Local calendar date, so a class sharing a time zone shares a challenge
+export const dailySeed = (date: Date = new Date()): string => {
+    const pad = (n: number) => String(n).padStart(2, '0');
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+};
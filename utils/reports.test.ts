@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+import { AttemptRecord, GameMode } from '../types';
+import { attemptsToCsv, buildAttemptReport } from './reports';
+
+const attempt = (overrides: Partial<AttemptRecord>): AttemptRecord => ({
+    game: GameMode.MATH_PUZZLE,
+    skill: 'multiplication',
+    problem: '7 × 8',
+    answer: '56',
+    correct: true,
+    timeMs: 2000,
+    // Local time, as the CSV writes it
+    at: new Date(2026, 0, 2, 9, 5, 7).toISOString(),
+    ...overrides,
+});
+
+describe('attemptsToCsv', () => {
+    it('starts with a byte-order mark and ends every line with \\r\\n', () => {
+        const csv = attemptsToCsv('Asha', [attempt({})]);
+        expect(csv.startsWith('\uFEFFstudent,date,time,game,skill,problem,answer,correct,response_ms,misconception\r\n')).toBe(true);
+        expect(csv.split('\r\n')).toEqual([
+            '\uFEFFstudent,date,time,game,skill,problem,answer,correct,response_ms,misconception',
+            'Asha,2026-01-02,09:05:07,MATH_PUZZLE,multiplication,7 × 8,56,true,2000,',
+            '',
+        ]);
+    });
+
+    it('quotes cells with commas, quotes or line breaks', () => {
+        const csv = attemptsToCsv('Rao, "Ravi"', [attempt({ problem: 'Line one\nline two', answer: '15', correct: false, misconception: 'ADD_FOR_MUL' })]);
+        expect(csv.split('\r\n')[1]).toBe('"Rao, ""Ravi""",2026-01-02,09:05:07,MATH_PUZZLE,multiplication,"Line one\nline two",15,false,2000,ADD_FOR_MUL');
+    });
+});
+
+describe('buildAttemptReport', () => {
+    const attempts = [
+        attempt({ timeMs: 1000 }),
+        attempt({ answer: '15', correct: false, misconception: 'ADD_FOR_MUL', timeMs: 3000 }),
+        attempt({ game: GameMode.ARITHMETIC, skill: 'addition', problem: '3 + 4', answer: '7', timeMs: 2000 }),
+        attempt({ game: GameMode.NUMBER_PICKER, skill: 'perfect-square', problem: 'square', answer: '10', correct: false, timeMs: 4000 }),
+        attempt({ game: GameMode.ANGLE_MAGIC, skill: 'angle-right', problem: 'Right angle', answer: '88°', timeMs: 5000 }),
+    ];
+    const report = buildAttemptReport(attempts, { [GameMode.MATH_PUZZLE]: 'Math Puzzle' });
+    const row = (rows: typeof report.byOperation, key: string) => rows.find(r => r.key === key);
+
+    it('adds up every attempt and each game', () => {
+        expect(report.total).toEqual({ key: 'total', label: 'All attempts', attempts: 5, correct: 3, accuracy: 0.6, averageMs: 3000 });
+        expect(report.byGame.map(r => [r.label, r.attempts])).toEqual([['Math Puzzle', 2], [GameMode.ARITHMETIC, 1], [GameMode.NUMBER_PICKER, 1], [GameMode.ANGLE_MAGIC, 1]]);
+    });
+
+    it('groups by operation, number type and angle class', () => {
+        expect(row(report.byOperation, 'MUL')).toMatchObject({ attempts: 2, correct: 1, accuracy: 0.5, averageMs: 2000 });
+        expect(row(report.byOperation, 'ADD')).toMatchObject({ attempts: 1, correct: 1 });
+        expect(row(report.byNumberType, 'square')).toMatchObject({ attempts: 1, correct: 0, accuracy: 0 });
+        expect(row(report.byAngleClass, 'right')).toMatchObject({ attempts: 1, accuracy: 1, averageMs: 5000 });
+    });
+
+    it('has no accuracy or time for a group without attempts', () => {
+        expect(row(report.byOperation, 'DIV')).toEqual({ key: 'DIV', label: 'DIV (÷)', attempts: 0, correct: 0, accuracy: null, averageMs: null });
+        expect(row(report.byAngleClass, 'reflex')).toMatchObject({ accuracy: null, averageMs: null });
+    });
+
+    it('counts the mistakes among the wrong answers', () => {
+        expect(report.byMisconception).toEqual([{ key: 'ADD_FOR_MUL', label: 'Added instead of multiplying', count: 1, share: 0.5 }]);
+    });
+});
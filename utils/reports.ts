@@ -0,0 +1,227 @@
+import { AngleClass, AttemptRecord, GameMode, Misconception, NumberType, PuzzleOperation } from '../types';
+import { OPERATION_SKILLS, skillForAngleClass, skillForNumberType } from './studentProfiles';
+
+export interface AccuracyRow {
+    key: string;
+    label: string;
+    attempts: number;
+    correct: number;
+    // 0-1, or null when there were no attempts
+    accuracy: number | null;
+    averageMs: number | null;
+}
+
+export interface MisconceptionRow {
+    key: Misconception;
+    label: string;
+    count: number;
+    // Share of all wrong answers, 0-1
+    share: number;
+}
+
+export interface AttemptReport {
+    total: AccuracyRow;
+    byGame: AccuracyRow[];
+    byOperation: AccuracyRow[];
+    byNumberType: AccuracyRow[];
+    byAngleClass: AccuracyRow[];
+    // Most frequent first; only mistakes that were made
+    byMisconception: MisconceptionRow[];
+}
+
+const OPERATION_LABELS: Record<PuzzleOperation, string> = {
+    ADD: 'ADD (+)',
+    SUB: 'SUB (−)',
+    MUL: 'MUL (×)',
+    DIV: 'DIV (÷)',
+    SQUARE: 'SQUARE (x²)',
+    ROOT: 'ROOT (√)',
+};
+const MISCONCEPTION_LABELS: Record<Misconception, string> = {
+    ADD_FOR_MUL: 'Added instead of multiplying',
+    OFF_BY_ONE: 'Off by one',
+    DIGIT_REVERSAL: 'Digits reversed',
+    SQUARE_FOR_ROOT: 'Squared instead of taking the root',
+    REVERSED_SUBTRACTION: 'Subtracted the smaller digit from the larger',
+};
+const NUMBER_TYPES: NumberType[] = ['even', 'odd', 'prime', 'composite', 'fibonacci', 'square', 'cube', 'triangular', 'multiple', 'factor', 'divisible'];
+const ANGLE_CLASSES: AngleClass[] = ['acute', 'right', 'obtuse', 'straight', 'reflex', 'complete'];
+
+const accuracyRow = (key: string, label: string, attempts: AttemptRecord[]): AccuracyRow => {
+    const correct = attempts.filter(a => a.correct).length;
+    return {
+        key,
+        label,
+        attempts: attempts.length,
+        correct,
+        accuracy: attempts.length > 0 ? correct / attempts.length : null,
+        averageMs: attempts.length > 0 ? attempts.reduce((sum, a) => sum + a.timeMs, 0) / attempts.length : null,
+    };
+};
+
+const misconceptionRows = (attempts: AttemptRecord[]): MisconceptionRow[] => {
+    const wrong = attempts.filter(a => !a.correct).length;
+    return (Object.keys(MISCONCEPTION_LABELS) as Misconception[])
+        .map(key => {
+            const count = attempts.filter(a => a.misconception === key).length;
+            return { key, label: MISCONCEPTION_LABELS[key], count, share: wrong > 0 ? count / wrong : 0 };
+        })
+        .filter(row => row.count > 0)
+        .sort((a, b) => b.count - a.count);
+};
+
+/**
+ * Accuracy and average response time overall and grouped by game, by puzzle operation, by number type and
+ * by angle class, plus how often each known mistake was made. Arithmetic counts towards ADD, SUB or MUL,
+ * and Right Box towards the number type of each bin, since they practise the same skills.
+ */
+export const buildAttemptReport = (attempts: AttemptRecord[], gameLabels: Partial<Record<GameMode, string>>): AttemptReport => {
+    const games = Array.from(new Set(attempts.map(a => a.game)));
+    const bySkill = (skill: string) => attempts.filter(a => a.skill === skill);
+
+    return {
+        total: accuracyRow('total', 'All attempts', attempts),
+        byGame: games.map(game => accuracyRow(game, gameLabels[game] ?? game, attempts.filter(a => a.game === game))),
+        byOperation: (Object.keys(OPERATION_LABELS) as PuzzleOperation[])
+            .map(op => accuracyRow(op, OPERATION_LABELS[op], bySkill(OPERATION_SKILLS[op]))),
+        byNumberType: NUMBER_TYPES.map(type => accuracyRow(type, type, bySkill(skillForNumberType(type)))),
+        byAngleClass: ANGLE_CLASSES.map(angleClass => accuracyRow(angleClass, angleClass, bySkill(skillForAngleClass(angleClass)))),
+        byMisconception: misconceptionRows(attempts),
+    };
+};
+
+// --- CSV ---
+
+const CSV_COLUMNS = ['student', 'date', 'time', 'game', 'skill', 'problem', 'answer', 'correct', 'response_ms', 'misconception'];
+
+const csvCell = (value: string | number | boolean): string => {
+    const text = String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+/** One row per attempt, oldest first. Date (YYYY-MM-DD) and time (HH:MM:SS) are local so spreadsheets sort them correctly. */
+export const attemptsToCsv = (studentName: string, attempts: AttemptRecord[]): string => {
+    const rows = attempts.map(a => {
+        const at = new Date(a.at);
+        const date = `${at.getFullYear()}-${pad(at.getMonth() + 1)}-${pad(at.getDate())}`;
+        const time = `${pad(at.getHours())}:${pad(at.getMinutes())}:${pad(at.getSeconds())}`;
+        return [studentName, date, time, a.game, a.skill, a.problem, a.answer, a.correct, a.timeMs, a.misconception ?? ''];
+    });
+    // The byte-order mark makes Excel read Odia and Hindi names as UTF-8
+    return '\uFEFF' + [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n';
+};
+
+// --- Printable HTML ---
+
+const escapeHtml = (text: string) => text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const formatPercent = (value: number | null) => value === null ? '–' : `${Math.round(value * 100)}%`;
+const formatSeconds = (ms: number | null) => ms === null ? '–' : `${(ms / 1000).toFixed(1)} s`;
+
+const accuracyTable = (title: string, rows: AccuracyRow[]) => {
+    const played = rows.filter(r => r.attempts > 0);
+    if (played.length === 0) return `<h2>${escapeHtml(title)}</h2><p class="muted">Not practised.</p>`;
+    return `<h2>${escapeHtml(title)}</h2>
+<table>
+<thead><tr><th>Group</th><th>Attempts</th><th>Correct</th><th>Accuracy</th><th>Avg. time</th></tr></thead>
+<tbody>${played.map(r => `
+<tr><td>${escapeHtml(r.label)}</td><td>${r.attempts}</td><td>${r.correct}</td><td>${formatPercent(r.accuracy)}</td><td>${formatSeconds(r.averageMs)}</td></tr>`).join('')}
+</tbody>
+</table>`;
+};
+
+const misconceptionTable = (rows: MisconceptionRow[]) => {
+    if (rows.length === 0) return `<h2>Common mistakes</h2><p class="muted">No known mistakes among the wrong answers.</p>`;
+    return `<h2>Common mistakes</h2>
+<table>
+<thead><tr><th>Mistake</th><th>Times</th><th>Share of wrong answers</th></tr></thead>
+<tbody>${rows.map(r => `
+<tr><td>${escapeHtml(r.label)}</td><td>${r.count}</td><td>${formatPercent(r.share)}</td></tr>`).join('')}
+</tbody>
+</table>`;
+};
+
+/**
+ * A self-contained HTML page summarising the attempts, meant to be printed or saved as PDF
+ * from the browser's print dialog.
+ */
+export const buildHtmlReport = ({ studentName, scope, attempts, gameLabels, generatedAt = new Date() }: {
+    studentName: string,
+    scope: string,
+    attempts: AttemptRecord[],
+    gameLabels: Partial<Record<GameMode, string>>,
+    generatedAt?: Date,
+}): string => {
+    const report = buildAttemptReport(attempts, gameLabels);
+    const first = attempts[0] ? new Date(attempts[0].at) : null;
+    const last = attempts.length > 0 ? new Date(attempts[attempts.length - 1].at) : null;
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>Mathiverse report – ${escapeHtml(studentName)}</title>
+<style>
+body { font-family: system-ui, sans-serif; color: #111; margin: 2rem; }
+h1 { margin-bottom: 0; }
+h2 { margin-top: 2rem; font-size: 1.1rem; }
+table { border-collapse: collapse; width: 100%; font-size: 0.9rem; }
+th, td { border: 1px solid #ccc; padding: 0.3rem 0.5rem; text-align: left; }
+th { background: #f0f0f0; }
+.muted { color: #666; }
+.wrong { color: #b91c1c; }
+.print { margin: 1rem 0; padding: 0.5rem 1rem; font-size: 1rem; }
+@media print { .print { display: none; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(studentName)}</h1>
+<p class="muted">${escapeHtml(scope)} · ${first && last ? `${escapeHtml(first.toLocaleString())} – ${escapeHtml(last.toLocaleString())}` : 'no attempts'} · generated ${escapeHtml(generatedAt.toLocaleString())}</p>
+<button class="print" onclick="window.print()">Print / Save as PDF</button>
+<p><strong>${report.total.attempts}</strong> attempts, <strong>${formatPercent(report.total.accuracy)}</strong> correct, average response time <strong>${formatSeconds(report.total.averageMs)}</strong>.</p>
+${accuracyTable('By game', report.byGame)}
+${accuracyTable('By operation', report.byOperation)}
+${accuracyTable('By number type', report.byNumberType)}
+${accuracyTable('By angle class (Angle Magic)', report.byAngleClass)}
+${misconceptionTable(report.byMisconception)}
+<h2>All attempts</h2>
+<table>
+<thead><tr><th>Time</th><th>Game</th><th>Problem</th><th>Answer</th><th>Result</th><th>Mistake</th><th>Response</th></tr></thead>
+<tbody>${attempts.map(a => `
+<tr><td>${escapeHtml(new Date(a.at).toLocaleString())}</td><td>${escapeHtml(gameLabels[a.game] ?? a.game)}</td><td>${escapeHtml(a.problem)}</td><td>${escapeHtml(a.answer)}</td><td${a.correct ? '' : ' class="wrong"'}>${a.correct ? '✓' : '✗'}</td><td>${a.misconception ? escapeHtml(MISCONCEPTION_LABELS[a.misconception]) : ''}</td><td>${formatSeconds(a.timeMs)}</td></tr>`).join('')}
+</tbody>
+</table>
+</body>
+</html>
+`;
+};
+
+// --- Browser helpers ---
+
+export const downloadTextFile = (content: string, fileName: string, type: string) => {
+    const blob = new Blob([content], { type });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = fileName;
+    a.click();
+    URL.revokeObjectURL(url);
+};
+
+// Opens the report in a new tab, where the browser's print dialog can save it as PDF
+export const openHtmlReport = (html: string) => {
+    const url = URL.createObjectURL(new Blob([html], { type: 'text/html' }));
+    window.open(url, '_blank');
+    // The new tab has loaded the document long before this fires
+    setTimeout(() => URL.revokeObjectURL(url), 60000);
+};
+
+// File-name friendly version of a student name
+export const reportFileStem = (studentName: string, date: Date = new Date()) =>
+    `${studentName.replace(/[^\p{L}\p{M}\p{N}]+/gu, '-').replace(/^-|-$/g, '') || 'student'}-${date.toISOString().slice(0, 10)}`;
@@ -0,0 +1,142 @@
+import { describe, expect, it } from 'vitest';
+import { DraggableNumber, RightBoxBin } from '../types';
+import { DEFAULT_PLAY_AREA, STEP_SECONDS, advanceNumbers, createPhysicsClock, scatterPoints, stepNumbers } from './rightBoxPhysics';
+import { createSeededRng } from './random';
+
+const { radius, aspect } = DEFAULT_PLAY_AREA;
+
+const disc = (id: string, x: number, y: number, vx = 0, vy = 0, extra: Partial<DraggableNumber> = {}): DraggableNumber =>
+    ({ id, value: 1, x, y, vx, vy, isDragging: false, thrown: false, ...extra });
+
+// Runs the simulation for `seconds`
+const simulate = (numbers: DraggableNumber[], bins: RightBoxBin[], seconds: number) => {
+    for (let t = 0; t < seconds; t += STEP_SECONDS) numbers = stepNumbers(numbers, bins, DEFAULT_PLAY_AREA);
+    return numbers;
+};
+
+const gap = (a: { x: number, y: number }, b: { x: number, y: number }) => Math.hypot(a.x - b.x, (a.y - b.y) * aspect);
+
+const insideBin = (n: { x: number, y: number }, bin: RightBoxBin) =>
+    n.x >= bin.x && n.x <= bin.x + bin.width && n.y >= bin.y && n.y <= bin.y + bin.height;
+
+const RIGHT_BIN: RightBoxBin = { rule: 'even', x: 0.75, y: 0.3, width: 0.22, height: 0.4 };
+const LEFT_BIN: RightBoxBin = { rule: 'odd', x: 0.03, y: 0.3, width: 0.22, height: 0.4 };
+
+describe('stepNumbers', () => {
+    it('slows a number down until it rests', () => {
+        const [n] = simulate([disc('a', 0.3, 0.5, 0.5, 0)], [], 5);
+        expect(n.vx).toBe(0);
+        expect(n.x).toBeGreaterThan(0.4);
+    });
+
+    it('bounces off the edges of the play area', () => {
+        const [n] = simulate([disc('a', 0.9, 0.5, 2, 0)], [], 0.1);
+        expect(n.vx).toBeLessThan(0);
+        expect(n.x).toBeLessThanOrEqual(1 - radius);
+    });
+
+    it('passes speed on to a number it hits and pushes them apart', () => {
+        const [a, b] = simulate([disc('a', 0.3, 0.5, 1, 0), disc('b', 0.5, 0.5)], [], 1);
+        expect(b.vx).toBeGreaterThan(a.vx);
+        expect(b.x).toBeGreaterThan(0.5);
+        expect(gap(a, b)).toBeGreaterThanOrEqual(2 * radius - 1e-9);
+    });
+
+    it('separates overlapping numbers', () => {
+        const [a, b] = stepNumbers([disc('a', 0.5, 0.5), disc('b', 0.51, 0.5)], [], DEFAULT_PLAY_AREA);
+        expect(gap(a, b)).toBeCloseTo(2 * radius);
+    });
+
+    it('does not move a dragged number, which still pushes the others', () => {
+        const [held, other] = simulate([disc('a', 0.5, 0.5, 1, 0, { isDragging: true }), disc('b', 0.55, 0.5)], [], 0.1);
+        expect(held.x).toBe(0.5);
+        expect(other.x).toBeGreaterThan(0.55);
+        expect(other.vx).toBeGreaterThan(0);
+    });
+
+    it('lets a thrown number into a bin', () => {
+        const [n] = simulate([disc('a', 0.5, 0.5, 2, 0, { thrown: true })], [RIGHT_BIN], 0.5);
+        expect(insideBin(n, RIGHT_BIN)).toBe(true);
+        expect(n.thrown).toBe(true);
+    });
+
+    it('keeps a number dropped at rest inside a bin thrown', () => {
+        const [n] = stepNumbers([disc('a', 0.85, 0.5, 0, 0, { thrown: true })], [RIGHT_BIN], DEFAULT_PLAY_AREA);
+        expect(insideBin(n, RIGHT_BIN)).toBe(true);
+        expect(n.thrown).toBe(true);
+    });
+
+    it('bounces a knocked number off the bins', () => {
+        const [, b] = simulate([disc('a', 0.5, 0.5, 3, 0, { thrown: true }), disc('b', 0.6, 0.5)], [LEFT_BIN, RIGHT_BIN], 2);
+        expect(insideBin(b, RIGHT_BIN)).toBe(false);
+        expect(insideBin(b, LEFT_BIN)).toBe(false);
+        expect(b.x).toBeLessThanOrEqual(RIGHT_BIN.x - radius + 1e-9);
+    });
+
+    it('stops counting a number as thrown once it comes to rest outside the bins', () => {
+        const [n] = simulate([disc('a', 0.4, 0.5, 0.3, 0, { thrown: true })], [RIGHT_BIN], 5);
+        expect(n.vx).toBe(0);
+        expect(n.thrown).toBe(false);
+    });
+});
+
+describe('advanceNumbers', () => {
+    it('finds a number let go of at rest inside a bin', () => {
+        const { landed } = advanceNumbers([disc('a', 0.85, 0.5, 0, 0, { thrown: true }), disc('b', 0.5, 0.5)], [RIGHT_BIN], DEFAULT_PLAY_AREA, 3);
+        expect(landed?.id).toBe('a');
+    });
+
+    it('stops at the step a thrown number enters a bin', () => {
+        const { numbers, landed } = advanceNumbers([disc('a', 0.6, 0.5, 2, 0, { thrown: true })], [RIGHT_BIN], DEFAULT_PLAY_AREA, 120);
+        expect(landed?.id).toBe('a');
+        expect(numbers[0].x).toBeLessThan(RIGHT_BIN.x + 0.02);
+    });
+
+    it('leaves numbers at rest alone', () => {
+        const numbers = [disc('a', 0.85, 0.5), disc('b', 0.5, 0.5)];
+        expect(advanceNumbers(numbers, [RIGHT_BIN], DEFAULT_PLAY_AREA, 3)).toEqual({ numbers, landed: null });
+        expect(advanceNumbers(numbers, [RIGHT_BIN], DEFAULT_PLAY_AREA, 3).numbers).toBe(numbers);
+    });
+});
+
+describe('scatterPoints', () => {
+    it('never places numbers overlapping each other or a bin', () => {
+        const bins = [LEFT_BIN, RIGHT_BIN, { rule: 'other' as const, x: 0.39, y: 0.03, width: 0.22, height: 0.2 }];
+        for (let seed = 1; seed <= 50; seed++) {
+            const points = scatterPoints(12, bins, createSeededRng(seed));
+            expect(points).toHaveLength(12);
+            points.forEach((p, i) => {
+                expect(bins.some(bin => gap(p, { x: Math.min(Math.max(p.x, bin.x), bin.x + bin.width), y: Math.min(Math.max(p.y, bin.y), bin.y + bin.height) }) < radius)).toBe(false);
+                points.slice(i + 1).forEach(q => expect(gap(p, q)).toBeGreaterThanOrEqual(2 * radius));
+            });
+        }
+    });
+
+    it('keeps clear of numbers already in play', () => {
+        const occupied = [{ x: 0.5, y: 0.5 }];
+        for (let seed = 1; seed <= 20; seed++) {
+            const [p] = scatterPoints(1, [], createSeededRng(seed), occupied);
+            expect(gap(p, occupied[0])).toBeGreaterThanOrEqual(2 * radius);
+        }
+    });
+
+    it('is reproducible with a seeded rng', () => {
+        expect(scatterPoints(5, [RIGHT_BIN], createSeededRng(7))).toEqual(scatterPoints(5, [RIGHT_BIN], createSeededRng(7)));
+    });
+});
+
+describe('createPhysicsClock', () => {
+    it('runs whole steps and carries the rest over', () => {
+        const clock = createPhysicsClock();
+        expect(clock.tick(0)).toBe(0);
+        expect(clock.tick(1000 / 60)).toBe(2);
+        expect(clock.tick(1000 / 60 + 5)).toBe(0);
+        expect(clock.tick(1000 / 60 + 10)).toBe(1);
+    });
+
+    it('simulates at most a quarter of a second per frame', () => {
+        const clock = createPhysicsClock();
+        clock.tick(0);
+        expect(clock.tick(5000)).toBe(30);
+    });
+});
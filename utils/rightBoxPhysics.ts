@@ -0,0 +1,255 @@
+import { DraggableNumber, RightBoxBin } from '../types';
+import { Rng } from './random';
+
+/*
+ * Right Box physics. Numbers are discs that keep their velocity when let go, slow down with
+ * friction, bounce off the edges of the play area and push each other apart. Only a number the
+ * player let go of (`thrown`, until it comes to rest) can enter a bin; one that was merely knocked
+ * about bounces off the bins like off the edges. The simulation moves in fixed steps of
+ * STEP_SECONDS however often frames arrive, so a throw travels the same distance on every device
+ * and camera.
+ *
+ * Positions are fractions of the play area as everywhere else (x of its width, y of its height), and
+ * velocities are those fractions per second. Distances are measured in widths, with y scaled by the
+ * area's `aspect` (height / width), so the discs stay round on any screen.
+ */
+
+export const STEP_SECONDS = 1 / 120;
+// The most simulated in one frame, so a stalled tab does not fast-forward the game
+const MAX_FRAME_SECONDS = 0.25;
+// Share of its speed a disc loses per second is 1 - e^-FRICTION, about 80%
+const FRICTION = 1.6;
+// Share of the speed kept through a bounce
+const RESTITUTION = 0.7;
+// Slower than this (widths per second) and a disc stops
+const REST_SPEED = 0.01;
+// Fastest throw, in widths per second
+const MAX_SPEED = 4;
+
+export interface PlayArea {
+    // Disc radius as a fraction of the width
+    radius: number;
+    // Height / width
+    aspect: number;
+}
+
+// For placing numbers before the play area has been measured: a 4:3 camera view about 800 px wide
+export const DEFAULT_PLAY_AREA: PlayArea = { radius: 0.04, aspect: 0.75 };
+
+// Whether a number needs simulating: held, moving, or let go of and not yet settled
+const isActive = (n: DraggableNumber): boolean => n.isDragging || n.thrown || n.vx !== 0 || n.vy !== 0;
+
+const isInBin = (n: DraggableNumber, bins: RightBoxBin[]): boolean =>
+    bins.some(bin => n.x >= bin.x && n.x <= bin.x + bin.width && n.y >= bin.y && n.y <= bin.y + bin.height);
+
+// Pushes a disc out of a bin it overlaps, through the nearest side, and bounces it off that side
+const keepOutOfBin = (n: DraggableNumber, bin: RightBoxBin, { radius, aspect }: PlayArea) => {
+    const ry = radius / aspect;
+    if (n.x <= bin.x - radius || n.x >= bin.x + bin.width + radius || n.y <= bin.y - ry || n.y >= bin.y + bin.height + ry) return;
+    // The closest point of the bin, measured in widths
+    const closestX = Math.min(Math.max(n.x, bin.x), bin.x + bin.width);
+    const closestY = Math.min(Math.max(n.y, bin.y), bin.y + bin.height);
+    const dx = n.x - closestX;
+    const dy = (n.y - closestY) * aspect;
+    const distance = Math.hypot(dx, dy);
+    if (distance >= radius) return;
+
+    let nx: number, ny: number, depth: number;
+    if (distance > 0) {
+        [nx, ny, depth] = [dx / distance, dy / distance, radius - distance];
+    } else {
+        // Centre inside the bin: out through whichever side is nearest
+        const exits = [
+            { nx: -1, ny: 0, depth: n.x - bin.x + radius },
+            { nx: 1, ny: 0, depth: bin.x + bin.width - n.x + radius },
+            { nx: 0, ny: -1, depth: (n.y - bin.y) * aspect + radius },
+            { nx: 0, ny: 1, depth: (bin.y + bin.height - n.y) * aspect + radius },
+        ];
+        ({ nx, ny, depth } = exits.reduce((best, e) => e.depth < best.depth ? e : best));
+    }
+    n.x += nx * depth;
+    n.y += ny * depth / aspect;
+    const into = n.vx * nx + n.vy * aspect * ny;
+    if (into < 0) {
+        n.vx -= (1 + RESTITUTION) * into * nx;
+        n.vy -= (1 + RESTITUTION) * into * ny / aspect;
+    }
+};
+
+// Keeps a disc inside the play area, bouncing it off the edge it crossed, and out of the bins unless it was thrown
+const keepInside = (n: DraggableNumber, bins: RightBoxBin[], area: PlayArea) => {
+    const { radius, aspect } = area;
+    if (!n.thrown) bins.forEach(bin => keepOutOfBin(n, bin, area));
+    const ry = radius / aspect;
+    if (n.x < radius) {
+        n.x = radius;
+        n.vx = Math.abs(n.vx) * RESTITUTION;
+    } else if (n.x > 1 - radius) {
+        n.x = 1 - radius;
+        n.vx = -Math.abs(n.vx) * RESTITUTION;
+    }
+    if (n.y < ry) {
+        n.y = ry;
+        n.vy = Math.abs(n.vy) * RESTITUTION;
+    } else if (n.y > 1 - ry) {
+        n.y = 1 - ry;
+        n.vy = -Math.abs(n.vy) * RESTITUTION;
+    }
+};
+
+/**
+ * Advances every loose number by one step. A dragged number stays where the hand put it, but still
+ * pushes the others, with the hand's velocity. A thrown number that comes to rest outside the bins is
+ * no longer thrown; one inside a bin stays thrown, for the caller to count as dropped there.
+ */
+export const stepNumbers = (numbers: DraggableNumber[], bins: RightBoxBin[], area: PlayArea, dt: number = STEP_SECONDS): DraggableNumber[] => {
+    const { radius, aspect } = area;
+    const damping = Math.exp(-FRICTION * dt);
+
+    const next = numbers.map(n => {
+        if (n.isDragging) return { ...n };
+        let vx = n.vx * damping;
+        let vy = n.vy * damping;
+        if (Math.hypot(vx, vy * aspect) < REST_SPEED) vx = vy = 0;
+        const moved = { ...n, x: n.x + vx * dt, y: n.y + vy * dt, vx, vy };
+        moved.thrown = n.thrown && (vx !== 0 || vy !== 0 || isInBin(moved, bins));
+        keepInside(moved, bins, area);
+        return moved;
+    });
+
+    for (let i = 0; i < next.length; i++) {
+        for (let j = i + 1; j < next.length; j++) {
+            const a = next[i];
+            const b = next[j];
+            if (a.isDragging && b.isDragging) continue;
+            const dx = b.x - a.x;
+            const dy = (b.y - a.y) * aspect;
+            const distance = Math.hypot(dx, dy);
+            if (distance >= 2 * radius) continue;
+
+            // Separate along the line between the centres; a dragged disc does not give way
+            const [nx, ny] = distance > 0 ? [dx / distance, dy / distance] : [1, 0];
+            const overlap = 2 * radius - distance;
+            const shareA = a.isDragging ? 0 : b.isDragging ? 1 : 0.5;
+            const shareB = 1 - shareA;
+            a.x -= nx * overlap * shareA;
+            a.y -= ny * overlap * shareA / aspect;
+            b.x += nx * overlap * shareB;
+            b.y += ny * overlap * shareB / aspect;
+
+            // Equal masses trade their speed along that line, less the bounce; a dragged disc acts as a wall that moves with the hand
+            const closing = (a.vx * nx + a.vy * aspect * ny) - (b.vx * nx + b.vy * aspect * ny);
+            if (closing <= 0) continue;
+            const impulse = closing * (1 + RESTITUTION) * (a.isDragging || b.isDragging ? 1 : 0.5);
+            if (!a.isDragging) {
+                a.vx -= impulse * nx;
+                a.vy -= impulse * ny / aspect;
+            }
+            if (!b.isDragging) {
+                b.vx += impulse * nx;
+                b.vy += impulse * ny / aspect;
+            }
+        }
+    }
+
+    next.forEach(n => {
+        if (!n.isDragging) keepInside(n, bins, area);
+    });
+    return next;
+};
+
+/**
+ * Runs up to `steps` steps, stopping at the first number the player let go of that is inside a bin,
+ * which the caller counts as dropped there. One let go of at rest inside a bin is found on the first
+ * step. When nothing needs simulating, the numbers come back unchanged.
+ */
+export const advanceNumbers = (numbers: DraggableNumber[], bins: RightBoxBin[], area: PlayArea, steps: number): { numbers: DraggableNumber[], landed: DraggableNumber | null } => {
+    let landed: DraggableNumber | null = null;
+    if (!numbers.some(isActive)) return { numbers, landed };
+    for (let i = 0; i < steps && !landed; i++) {
+        numbers = stepNumbers(numbers, bins, area);
+        landed = numbers.find(n => n.thrown && isInBin(n, bins)) ?? null;
+    }
+    return { numbers, landed };
+};
+
+/** Turns frame times into whole simulation steps, carrying the remainder over to the next frame. */
+export const createPhysicsClock = () => {
+    let last: number | null = null;
+    let pending = 0;
+
+    return {
+        // How many steps to run for a frame at `now` (ms)
+        tick: (now: number): number => {
+            if (last !== null) pending += Math.min(MAX_FRAME_SECONDS, (now - last) / 1000);
+            last = now;
+            const steps = Math.floor(pending / STEP_SECONDS);
+            pending -= steps * STEP_SECONDS;
+            return steps;
+        },
+        reset: () => {
+            last = null;
+            pending = 0;
+        },
+    };
+};
+
+/** The hand's velocity over the last `windowMs`, which a number keeps when it is let go. */
+export const createThrowTracker = (windowMs = 100) => {
+    let samples: { x: number, y: number, at: number }[] = [];
+
+    return {
+        add: (x: number, y: number, at: number = performance.now()) => {
+            samples = [...samples.filter(s => at - s.at <= windowMs), { x, y, at }];
+        },
+        velocity: (aspect: number): { vx: number, vy: number } => {
+            const first = samples[0];
+            const last = samples[samples.length - 1];
+            if (!first || last.at - first.at < 1) return { vx: 0, vy: 0 };
+            const seconds = (last.at - first.at) / 1000;
+            const vx = (last.x - first.x) / seconds;
+            const vy = (last.y - first.y) / seconds;
+            const scale = Math.min(1, MAX_SPEED / (Math.hypot(vx, vy * aspect) || 1));
+            return { vx: vx * scale, vy: vy * scale };
+        },
+        clear: () => {
+            samples = [];
+        },
+    };
+};
+
+/**
+ * Spots for `count` discs, clear of the bins and apart from each other and from `occupied`, by
+ * Poisson-disc sampling (dart throwing): each spot is drawn at random until it is at least 1.5 disc
+ * widths from every other. In a crowded area the spacing shrinks, but never below touching, until the
+ * last resort of taking the final dart.
+ */
+export const scatterPoints = (
+    count: number,
+    bins: RightBoxBin[],
+    rng: Rng = Math.random,
+    occupied: { x: number, y: number }[] = [],
+    area: PlayArea = DEFAULT_PLAY_AREA,
+): { x: number, y: number }[] => {
+    const { radius, aspect } = area;
+    const ry = radius / aspect;
+    const clearOfBins = (x: number, y: number) => !bins.some(bin =>
+        x > bin.x - radius && x < bin.x + bin.width + radius && y > bin.y - ry && y < bin.y + bin.height + ry);
+    const points = [...occupied];
+    const placed: { x: number, y: number }[] = [];
+
+    for (let i = 0; i < count; i++) {
+        let spacing = 3 * radius;
+        let dart = { x: 0.5, y: 0.5 };
+        search: for (let round = 0; round < 10; round++) {
+            for (let tries = 0; tries < 60; tries++) {
+                dart = { x: radius + rng() * (1 - 2 * radius), y: ry + rng() * (1 - 2 * ry) };
+                if (clearOfBins(dart.x, dart.y) && points.every(p => Math.hypot(p.x - dart.x, (p.y - dart.y) * aspect) >= spacing)) break search;
+            }
+            spacing = Math.max(2 * radius, spacing * 0.9);
+        }
+        points.push(dart);
+        placed.push(dart);
+    }
+    return placed;
+};
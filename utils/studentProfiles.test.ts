@@ -0,0 +1,116 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { AttemptRecord, GameMode } from '../types';
+import { StudentStorageError, createStudent, deleteStudent, loadStudents, recordStudentAttempt } from './studentProfiles';
+
+// An in-memory localStorage that refuses to hold more than `quota` characters
+const createStorage = (quota = Infinity) => {
+    const items = new Map<string, string>();
+    const size = (key: string) => items.has(key) ? key.length + items.get(key)!.length : 0;
+    let used = 0;
+    return {
+        items,
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => {
+            const after = used - size(key) + key.length + value.length;
+            if (after > quota) throw new DOMException('Quota exceeded', 'QuotaExceededError');
+            items.set(key, value);
+            used = after;
+        },
+        removeItem: (key: string) => {
+            used -= size(key);
+            items.delete(key);
+        },
+    };
+};
+
+const attempt = (n: number): AttemptRecord => ({
+    game: GameMode.ARITHMETIC,
+    skill: 'addition',
+    problem: `${n} + 1`,
+    answer: String(n + 1),
+    correct: true,
+    timeMs: 1200,
+    at: new Date(2026, 0, 1, 9, 0, n).toISOString(),
+});
+
+const profile = (id: string, attempts: number) =>
+    ({ id, name: id, createdAt: '2026-01-01T00:00:00.000Z', bestScores: {}, attempts: Array.from({ length: attempts }, (_, i) => attempt(i)) });
+
+let storage: ReturnType<typeof createStorage>;
+beforeEach(() => {
+    storage = createStorage();
+    vi.stubGlobal('localStorage', storage);
+});
+
+describe('student storage', () => {
+    it('keeps each student under their own key', () => {
+        const asha = createStudent('Asha');
+        const ravi = createStudent('Ravi');
+        recordStudentAttempt(asha.id, attempt(1));
+
+        expect(JSON.parse(storage.getItem('mathiverse.students')!)).toEqual([asha.id, ravi.id]);
+        expect(JSON.parse(storage.getItem(`mathiverse.student.${asha.id}`)!).attempts).toHaveLength(1);
+        expect(JSON.parse(storage.getItem(`mathiverse.student.${ravi.id}`)!).attempts).toHaveLength(0);
+        expect(loadStudents().map(s => s.name)).toEqual(['Asha', 'Ravi']);
+    });
+
+    it('removes a deleted student\'s entry', () => {
+        const asha = createStudent('Asha');
+        createStudent('Ravi');
+        deleteStudent(asha.id);
+
+        expect(storage.getItem(`mathiverse.student.${asha.id}`)).toBeNull();
+        expect(loadStudents().map(s => s.name)).toEqual(['Ravi']);
+    });
+
+    it('drops the oldest attempts beyond the per-student limit', () => {
+        storage.setItem('mathiverse.students', JSON.stringify([profile('student-a', 2000)]));
+        recordStudentAttempt('student-a', attempt(2000));
+
+        const { attempts } = loadStudents()[0];
+        expect(attempts).toHaveLength(2000);
+        expect(attempts[0].problem).toBe('1 + 1');
+        expect(attempts[1999].problem).toBe('2000 + 1');
+    });
+
+    it('keeps a full class within the storage budget', () => {
+        // 30 students at the old limit of 2000 attempts each, about 9 million characters
+        storage.setItem('mathiverse.students', JSON.stringify(Array.from({ length: 30 }, (_, i) => profile(`student-${i}`, 2000))));
+        recordStudentAttempt('student-0', attempt(2000));
+        createStudent('Asha');
+
+        const total = [...storage.items.values()].reduce((sum, value) => sum + value.length, 0);
+        expect(total).toBeLessThanOrEqual(2_000_000);
+        const students = loadStudents();
+        expect(students).toHaveLength(31);
+        students.slice(0, 30).forEach(s => expect(s.attempts.length).toBeGreaterThan(100));
+        expect(students[0].attempts.at(-1)!.problem).toBe('2000 + 1');
+    });
+
+    it('splits up profiles saved by older versions in one entry', () => {
+        const legacy = [
+            { id: 'student-a', name: 'Asha', createdAt: '2026-01-01T00:00:00.000Z', bestScores: {}, attempts: [attempt(1)] },
+            { id: 'student-b', name: 'Ravi', createdAt: '2026-01-01T00:00:00.000Z', bestScores: {}, attempts: [] },
+        ];
+        storage.setItem('mathiverse.students', JSON.stringify(legacy));
+
+        expect(loadStudents()).toEqual(legacy);
+        expect(JSON.parse(storage.getItem('mathiverse.students')!)).toEqual(['student-a', 'student-b']);
+        expect(JSON.parse(storage.getItem('mathiverse.student.student-a')!)).toEqual(legacy[0]);
+    });
+
+    it('drops stored profiles and attempts that are malformed', () => {
+        const asha = createStudent('Asha');
+        storage.setItem(`mathiverse.student.${asha.id}`, JSON.stringify({ ...asha, bestScores: { ARITHMETIC: 12, CHESS: 3 }, attempts: [attempt(1), { ...attempt(2), correct: 'yes' }] }));
+        storage.setItem('mathiverse.students', JSON.stringify([asha.id, 'student-gone', 'student-broken']));
+        storage.setItem('mathiverse.student.student-broken', JSON.stringify({ name: 'Ravi' }));
+
+        expect(loadStudents()).toEqual([{ ...asha, bestScores: { ARITHMETIC: 12 }, attempts: [attempt(1)] }]);
+    });
+
+    it('reports a failed write as a StudentStorageError', () => {
+        vi.stubGlobal('localStorage', createStorage(50));
+
+        expect(() => createStudent('Asha')).toThrow(StudentStorageError);
+    });
+});
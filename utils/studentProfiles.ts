@@ -0,0 +1,238 @@
+import { AngleClass, ArithmeticOperation, AttemptRecord, BinRule, GameMode, NumberType, PuzzleOperation, RightBoxBin, ShapeTarget, StudentProfile } from '../types';
+
+// Skills a problem can practise; Number Hunt and Right Box share the parity skills
+export const SKILLS: Record<string, string> = {
+    addition: 'Addition',
+    subtraction: 'Subtraction',
+    multiplication: 'Multiplication',
+    division: 'Division',
+    squares: 'Squares',
+    roots: 'Square roots',
+    mixed: 'Mixed operations',
+    'missing-addend': 'Missing addends',
+    even: 'Even numbers',
+    odd: 'Odd numbers',
+    prime: 'Prime numbers',
+    fibonacci: 'Fibonacci numbers',
+    composite: 'Composite numbers',
+    'perfect-square': 'Perfect squares',
+    cube: 'Cube numbers',
+    triangular: 'Triangular numbers',
+    multiple: 'Multiples',
+    factor: 'Factors',
+    divisible: 'Divisibility rules',
+    comparing: 'Comparing numbers',
+    'equivalent-fractions': 'Equivalent fractions',
+    'angle-acute': 'Acute angles',
+    'angle-right': 'Right angles',
+    'angle-obtuse': 'Obtuse angles',
+    'angle-straight': 'Straight angles',
+    'angle-reflex': 'Reflex angles',
+    'angle-complete': 'Complete angles',
+    triangles: 'Triangles',
+    quadrilaterals: 'Quadrilaterals',
+};
+
+export const OPERATION_SKILLS: Record<PuzzleOperation, string> = {
+    ADD: 'addition',
+    SUB: 'subtraction',
+    MUL: 'multiplication',
+    DIV: 'division',
+    SQUARE: 'squares',
+    ROOT: 'roots',
+};
+
+export const skillForOperation = (op: PuzzleOperation): string => OPERATION_SKILLS[op];
+export const skillForArithmeticOperation = (op: ArithmeticOperation): string => op === 'MISSING_ADDEND' ? 'missing-addend' : OPERATION_SKILLS[op];
+// A number type is its own skill, except that perfect squares must not be confused with squaring
+export const skillForNumberType = (type: NumberType): string => type === 'square' ? 'perfect-square' : type;
+const BIN_RULE_SKILLS: Record<Exclude<BinRule, 'other'>, string> = {
+    even: 'even',
+    odd: 'odd',
+    prime: 'prime',
+    composite: 'composite',
+    below: 'comparing',
+    atLeast: 'comparing',
+    multiple: 'multiple',
+    half: 'equivalent-fractions',
+};
+
+// The skill behind a Right Box bin; a number for "other" practises the rule of the level's first real bin
+export const skillForBin = (bins: Pick<RightBoxBin, 'rule'>[], index: number): string => {
+    const { rule } = bins[index].rule === 'other' ? bins.find(b => b.rule !== 'other')! : bins[index];
+    return BIN_RULE_SKILLS[rule as Exclude<BinRule, 'other'>];
+};
+export const skillForAngleClass = (angleClass: AngleClass): string => `angle-${angleClass}`;
+export const skillForShapeTarget = (target: ShapeTarget): string => target.kind === 'triangle' ? 'triangles' : 'quadrilaterals';
+
+/*
+ * Profiles are kept in localStorage, one entry per student under `mathiverse.student.<id>`, so
+ * recording an attempt rewrites only that student. `mathiverse.students` lists the ids in order;
+ * older versions kept every profile in that one entry, and such a list is split up on first load.
+ *
+ * Browsers give localStorage about 5 MB per site, so the profiles together are kept within
+ * STORAGE_BUDGET characters (4 MB as UTF-16): each student gets an equal share, and a profile over its
+ * share (or with more than MAX_ATTEMPTS_PER_STUDENT attempts) loses its oldest attempts when saved.
+ */
+
+const MAX_ATTEMPTS_PER_STUDENT = 2000;
+// Characters for all profiles together, leaving room for calibrations and settings
+const STORAGE_BUDGET = 2_000_000;
+
+const INDEX_KEY = 'mathiverse.students';
+const studentKey = (id: string) => `mathiverse.student.${id}`;
+
+// Thrown when a profile cannot be saved, usually because the device's storage is full
+export class StudentStorageError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'StudentStorageError';
+    }
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const GAME_MODES: string[] = Object.values(GameMode);
+const isGameMode = (value: unknown): value is GameMode => typeof value === 'string' && GAME_MODES.includes(value);
+
+export const isAttempt = (a: unknown): a is AttemptRecord =>
+    isObject(a) && isGameMode(a.game) && typeof a.skill === 'string' && typeof a.problem === 'string' &&
+    typeof a.answer === 'string' && typeof a.correct === 'boolean' && typeof a.timeMs === 'number' && typeof a.at === 'string' &&
+    (a.misconception === undefined || typeof a.misconception === 'string');
+
+// Best scores of known games; anything else is dropped
+export const parseBestScores = (raw: unknown): StudentProfile['bestScores'] =>
+    isObject(raw) ? Object.fromEntries(Object.entries(raw).filter(([game, score]) => isGameMode(game) && typeof score === 'number')) : {};
+
+// Stored profiles without an id and a name are dropped, as are their malformed attempts and scores
+const parseStoredStudents = (entries: unknown[]): StudentProfile[] => entries.flatMap(s => {
+    if (!isObject(s) || typeof s.id !== 'string' || typeof s.name !== 'string') return [];
+    return [{
+        id: s.id,
+        name: s.name,
+        createdAt: typeof s.createdAt === 'string' ? s.createdAt : new Date(0).toISOString(),
+        bestScores: parseBestScores(s.bestScores),
+        attempts: Array.isArray(s.attempts) ? s.attempts.filter(isAttempt) : [],
+    }];
+});
+
+const readJson = (key: string): unknown => {
+    try {
+        const raw = localStorage.getItem(key);
+        return raw ? JSON.parse(raw) : null;
+    } catch {
+        return null;
+    }
+};
+
+const write = (key: string, value: string) => {
+    try {
+        localStorage.setItem(key, value);
+    } catch (err) {
+        throw new StudentStorageError(`Could not save student progress: ${(err as Error).message}`);
+    }
+};
+
+// Saves a profile trimmed to its share of the budget, and returns it as saved
+const saveStudent = (student: StudentProfile, studentCount: number): StudentProfile => {
+    const share = STORAGE_BUDGET / Math.max(1, studentCount);
+    let saved = { ...student, attempts: student.attempts.slice(-MAX_ATTEMPTS_PER_STUDENT) };
+    let json = JSON.stringify(saved);
+    // Oldest attempts go first, a tenth at a time
+    while (json.length > share && saved.attempts.length > 0) {
+        saved = { ...saved, attempts: saved.attempts.slice(Math.ceil(saved.attempts.length / 10)) };
+        json = JSON.stringify(saved);
+    }
+    write(studentKey(student.id), json);
+    return saved;
+};
+
+const saveIndex = (students: StudentProfile[]) => write(INDEX_KEY, JSON.stringify(students.map(s => s.id)));
+
+// Moves profiles saved by older versions, all in the index entry, into their own entries
+const migrateStudents = (legacy: StudentProfile[]): StudentProfile[] => {
+    const raw = localStorage.getItem(INDEX_KEY)!;
+    // The old entry goes first to make room; it is put back if the move fails
+    localStorage.removeItem(INDEX_KEY);
+    try {
+        const students = legacy.map(s => saveStudent(s, legacy.length));
+        saveIndex(students);
+        return students;
+    } catch {
+        legacy.forEach(s => localStorage.removeItem(studentKey(s.id)));
+        localStorage.setItem(INDEX_KEY, raw);
+        return legacy;
+    }
+};
+
+export const loadStudents = (): StudentProfile[] => {
+    const index = readJson(INDEX_KEY);
+    if (!Array.isArray(index)) return [];
+    const ids = index.filter((entry): entry is string => typeof entry === 'string');
+    if (ids.length < index.length) return migrateStudents(parseStoredStudents(index));
+    return parseStoredStudents(ids.map(id => readJson(studentKey(id))));
+};
+
+const updateStudent = (id: string, update: (student: StudentProfile) => StudentProfile): StudentProfile[] => {
+    const students = loadStudents();
+    return students.map(s => s.id === id ? saveStudent(update(s), students.length) : s);
+};
+
+export const createStudent = (name: string): StudentProfile => {
+    const student: StudentProfile = {
+        id: `student-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 7)}`,
+        name: name.trim(),
+        createdAt: new Date().toISOString(),
+        bestScores: {},
+        attempts: [],
+    };
+    const students = [...loadStudents(), student];
+    // Every share shrinks with another student, so the others are trimmed to fit theirs
+    students.forEach(s => saveStudent(s, students.length));
+    saveIndex(students);
+    return student;
+};
+
+export const deleteStudent = (id: string): StudentProfile[] => {
+    const students = loadStudents().filter(s => s.id !== id);
+    saveIndex(students);
+    localStorage.removeItem(studentKey(id));
+    return students;
+};
+
+export const recordStudentAttempt = (id: string, attempt: AttemptRecord): StudentProfile[] =>
+    updateStudent(id, s => ({ ...s, attempts: [...s.attempts, attempt].slice(-MAX_ATTEMPTS_PER_STUDENT) }));
+
+// Keeps the higher of the stored and the new score
+export const recordStudentScore = (id: string, game: GameMode, score: number): StudentProfile[] =>
+    updateStudent(id, s => (s.bestScores[game] ?? 0) >= score ? s : { ...s, bestScores: { ...s.bestScores, [game]: score } });
+
+export interface SkillMastery {
+    skill: string;
+    label: string;
+    attempts: number;
+    // Share correct among the most recent attempts
+    accuracy: number;
+    status: 'learning' | 'practising' | 'mastered';
+}
+
+const MASTERY_WINDOW = 10;
+const MASTERY_MIN_ATTEMPTS = 5;
+
+/** Mastery per skill from the most recent attempts, so old mistakes stop counting once a skill is learned. */
+export const getSkillMastery = (attempts: AttemptRecord[]): SkillMastery[] => {
+    const bySkill = new Map<string, AttemptRecord[]>();
+    for (const attempt of attempts) {
+        bySkill.set(attempt.skill, [...(bySkill.get(attempt.skill) ?? []), attempt]);
+    }
+
+    return Object.keys(SKILLS)
+        .filter(skill => bySkill.has(skill))
+        .map(skill => {
+            const all = bySkill.get(skill)!;
+            const recent = all.slice(-MASTERY_WINDOW);
+            const accuracy = recent.filter(a => a.correct).length / recent.length;
+            const status = all.length >= MASTERY_MIN_ATTEMPTS && accuracy >= 0.8 ? 'mastered' : accuracy >= 0.5 ? 'practising' : 'learning';
+            return { skill, label: SKILLS[skill], attempts: all.length, accuracy, status };
+        });
+};
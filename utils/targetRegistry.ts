@@ -0,0 +1,129 @@
+import { PinchEvent } from './gestureEngine';
+
+// Play-area rectangle in normalized coordinates (0-1), top-left origin
+export interface TargetRect {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export type TargetEvent =
+    | { type: 'enter', id: string }
+    | { type: 'leave', id: string }
+    | { type: 'select', id: string, via: 'pinch' | 'dwell' };
+
+export interface TargetRegistryOptions {
+    // Hovering this long selects the target; 0 disables dwell selection
+    dwellMs?: number;
+    // Moving further than this (normalized) while dwelling restarts the timer
+    dwellTolerance?: number;
+}
+
+const contains = (rect: TargetRect, p: { x: number, y: number }) =>
+    p.x >= rect.x && p.x <= rect.x + rect.width && p.y >= rect.y && p.y <= rect.y + rect.height;
+
+interface PointerState {
+    hoveredId: string | null;
+    dwellStart: { time: number, x: number, y: number } | null;
+    dwellFired: boolean;
+    dwellProgress: number;
+}
+
+/**
+ * Keeps the selectable regions of a game in play-area coordinates and turns cursor movement and
+ * pinches into enter/leave/select events, independent of how the targets are laid out in the DOM.
+ * Several cursors (one per player) can be tracked at once by passing a `pointerId` to `update`.
+ */
+export const createTargetRegistry = ({ dwellMs = 0, dwellTolerance = 0.04 }: TargetRegistryOptions = {}) => {
+    const targets = new Map<string, TargetRect>();
+    const pointers = new Map<string, PointerState>();
+
+    const pointerState = (pointerId: string) => {
+        let state = pointers.get(pointerId);
+        if (!state) {
+            state = { hoveredId: null, dwellStart: null, dwellFired: false, dwellProgress: 0 };
+            pointers.set(pointerId, state);
+        }
+        return state;
+    };
+
+    const hitTest = (p: { x: number, y: number }): string | null => {
+        // Later registrations sit on top
+        const entries = Array.from(targets.entries()).reverse();
+        return entries.find(([, rect]) => contains(rect, p))?.[0] ?? null;
+    };
+
+    return {
+        register: (id: string, rect: TargetRect) => {
+            targets.set(id, rect);
+        },
+        unregister: (id: string) => {
+            targets.delete(id);
+            for (const state of pointers.values()) {
+                if (state.hoveredId === id) {
+                    state.hoveredId = null;
+                    state.dwellStart = null;
+                    state.dwellProgress = 0;
+                }
+            }
+        },
+        update: (
+            cursor: { x: number, y: number } | null,
+            pinch: PinchEvent | null,
+            now: number = performance.now(),
+            pointerId: string = 'default'
+        ): TargetEvent[] => {
+            const state = pointerState(pointerId);
+            const events: TargetEvent[] = [];
+            const hit = cursor ? hitTest(cursor) : null;
+
+            if (hit !== state.hoveredId) {
+                if (state.hoveredId) events.push({ type: 'leave', id: state.hoveredId });
+                if (hit) events.push({ type: 'enter', id: hit });
+                state.hoveredId = hit;
+                state.dwellStart = hit && cursor ? { time: now, ...cursor } : null;
+                state.dwellFired = false;
+            }
+
+            if (state.hoveredId && pinch?.type === 'pinch-start') {
+                events.push({ type: 'select', id: state.hoveredId, via: 'pinch' });
+                state.dwellFired = true;
+            }
+
+            state.dwellProgress = 0;
+            if (state.hoveredId && cursor && dwellMs > 0 && !state.dwellFired && state.dwellStart) {
+                if (Math.hypot(cursor.x - state.dwellStart.x, cursor.y - state.dwellStart.y) > dwellTolerance) {
+                    state.dwellStart = { time: now, ...cursor };
+                }
+                state.dwellProgress = Math.min(1, (now - state.dwellStart.time) / dwellMs);
+                if (state.dwellProgress >= 1) {
+                    events.push({ type: 'select', id: state.hoveredId, via: 'dwell' });
+                    state.dwellFired = true;
+                    state.dwellProgress = 0;
+                }
+            }
+
+            return events;
+        },
+        getHover: (pointerId: string = 'default') => {
+            const state = pointers.get(pointerId);
+            return { id: state?.hoveredId ?? null, progress: state?.dwellProgress ?? 0 };
+        },
+    };
+};
+
+export type TargetRegistry = ReturnType<typeof createTargetRegistry>;
+
+/** Evenly spaced cells for `count` targets in a grid, each inset by `gap` on every side. */
+export const gridLayout = (count: number, columns: number, { top = 0, bottom = 1, left = 0, right = 1, gap = 0.02 } = {}): TargetRect[] => {
+    const rows = Math.ceil(count / columns);
+    const cellWidth = (right - left) / columns;
+    const cellHeight = (bottom - top) / rows;
+    return Array.from({ length: count }, (_, i) => ({
+        x: left + (i % columns) * cellWidth + gap,
+        y: top + Math.floor(i / columns) * cellHeight + gap,
+        width: cellWidth - gap * 2,
+        height: cellHeight - gap * 2,
+    }));
+};